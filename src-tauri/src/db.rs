@@ -0,0 +1,814 @@
+// 对话持久化：对话、消息和设置保存在应用数据目录下的 SQLite 数据库中
+use std::sync::Mutex;
+use std::time::{SystemTime, UNIX_EPOCH};
+
+use rusqlite::{params, Connection, OptionalExtension, Row, Transaction};
+use serde::{Deserialize, Serialize};
+use tauri::{AppHandle, Manager, State};
+
+const DATABASE_FILE: &str = "yunchat.db";
+
+const SCHEMA: &str = "
+CREATE TABLE IF NOT EXISTS chats (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    icon TEXT NOT NULL,
+    kind TEXT,
+    -- 除消息以外的对话数据（JSON），对比记录的全部数据也在这里
+    data TEXT NOT NULL DEFAULT '{}',
+    -- 侧边栏排序，越大越靠前
+    position INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS messages (
+    chat_id TEXT NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+    id TEXT NOT NULL,
+    parent_id TEXT,
+    -- 在对话中的加入顺序，决定分支的先后
+    seq INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (chat_id, id)
+);
+CREATE INDEX IF NOT EXISTS messages_by_seq ON messages (chat_id, seq);
+CREATE TABLE IF NOT EXISTS settings (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+);
+";
+
+// 侧边栏的整理信息；已有对话的时间改为取自消息，之前的 created_at 只是写入数据库的时间
+const ORGANIZE_CHATS: &str = "
+ALTER TABLE chats ADD COLUMN title_source TEXT NOT NULL DEFAULT 'message';
+ALTER TABLE chats ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE chats ADD COLUMN archived INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE chats ADD COLUMN folder_id TEXT;
+ALTER TABLE chats ADD COLUMN tags TEXT NOT NULL DEFAULT '[]';
+UPDATE chats SET
+    created_at = COALESCE(
+        (SELECT MIN(json_extract(messages.data, '$.createdAt')) FROM messages WHERE messages.chat_id = chats.id),
+        json_extract(chats.data, '$.createdAt'),
+        created_at
+    ),
+    updated_at = COALESCE(
+        (SELECT MAX(json_extract(messages.data, '$.createdAt')) FROM messages WHERE messages.chat_id = chats.id),
+        json_extract(chats.data, '$.createdAt'),
+        updated_at
+    );
+";
+
+// 回收站：deleted_at 不为空的对话不显示在侧边栏，到期后彻底删除
+const TRASH: &str = "
+ALTER TABLE chats ADD COLUMN deleted_at INTEGER;
+";
+
+// 全文搜索：每条可搜索的消息一行，tokens 是前端拆好的索引词（空格分隔），由 FTS5 建立索引。
+// 显式的整数主键保证 VACUUM 后 rowid 不变，search_fts 靠它对应到这里的行
+const SEARCH: &str = "
+CREATE TABLE search_docs (
+    id INTEGER PRIMARY KEY,
+    chat_id TEXT NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+    message_id TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    role TEXT NOT NULL,
+    content TEXT NOT NULL,
+    tokens TEXT NOT NULL,
+    provider_id TEXT,
+    model TEXT,
+    timestamp INTEGER,
+    UNIQUE (chat_id, message_id)
+);
+CREATE VIRTUAL TABLE search_fts USING fts5(
+    tokens, content = 'search_docs', content_rowid = 'id', tokenize = \"unicode61 tokenchars '_'\"
+);
+CREATE TRIGGER search_docs_insert AFTER INSERT ON search_docs BEGIN
+    INSERT INTO search_fts (rowid, tokens) VALUES (new.id, new.tokens);
+END;
+CREATE TRIGGER search_docs_delete AFTER DELETE ON search_docs BEGIN
+    INSERT INTO search_fts (search_fts, rowid, tokens) VALUES ('delete', old.id, old.tokens);
+END;
+CREATE TRIGGER search_docs_update AFTER UPDATE OF tokens ON search_docs WHEN old.tokens != new.tokens BEGIN
+    INSERT INTO search_fts (search_fts, rowid, tokens) VALUES ('delete', old.id, old.tokens);
+    INSERT INTO search_fts (rowid, tokens) VALUES (new.id, new.tokens);
+END;
+";
+
+// 用量记录：每次模型调用一行，对话删除后记录仍然保留
+const USAGE: &str = "
+CREATE TABLE usage_records (
+    id TEXT PRIMARY KEY,
+    timestamp INTEGER NOT NULL,
+    provider_id TEXT NOT NULL,
+    provider_name TEXT NOT NULL,
+    model TEXT NOT NULL,
+    chat_id TEXT,
+    input_tokens INTEGER NOT NULL,
+    output_tokens INTEGER NOT NULL,
+    cost REAL NOT NULL,
+    estimated INTEGER NOT NULL DEFAULT 0
+);
+CREATE INDEX usage_by_time ON usage_records (timestamp);
+";
+
+/// 按顺序执行的结构迁移，MIGRATIONS[n] 把 user_version 为 n 的数据库升级到 n + 1
+const MIGRATIONS: [&str; 5] = [SCHEMA, ORGANIZE_CHATS, TRASH, SEARCH, USAGE];
+
+const CHAT_COLUMNS: &str =
+    "id, title, icon, kind, title_source, pinned, archived, folder_id, tags, created_at, updated_at, deleted_at";
+
+/// 侧边栏中的一条对话
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct ChatMeta {
+    pub id: String,
+    pub title: String,
+    pub icon: String,
+    #[serde(default)]
+    pub kind: Option<String>,
+    /// 标题来源：message 取自第一条消息，auto 由模型生成，user 由用户修改
+    #[serde(default = "default_title_source")]
+    pub title_source: String,
+    #[serde(default)]
+    pub pinned: bool,
+    #[serde(default)]
+    pub archived: bool,
+    #[serde(default)]
+    pub folder_id: Option<String>,
+    #[serde(default)]
+    pub tags: Vec<String>,
+    /// 为空时取写入时间
+    #[serde(default)]
+    pub created_at: Option<i64>,
+    #[serde(default)]
+    pub updated_at: Option<i64>,
+    /// 移到回收站的时间，只在读取回收站时有值
+    #[serde(default)]
+    pub deleted_at: Option<i64>,
+}
+
+fn default_title_source() -> String {
+    "message".to_string()
+}
+
+/// 一条消息，data 为前端的消息 JSON
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct StoredMessage {
+    pub id: String,
+    pub parent_id: Option<String>,
+    pub data: String,
+}
+
+#[derive(Debug, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct MessagePage {
+    pub messages: Vec<StoredMessage>,
+    /// 还有更多消息时，作为下一页的 after 参数
+    pub next_cursor: Option<i64>,
+}
+
+/// 一次性导入的对话，用于从旧版 store.bin 迁移和导入文件
+#[derive(Debug, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct ImportedChat {
+    pub meta: ChatMeta,
+    pub data: String,
+    #[serde(default)]
+    pub messages: Vec<StoredMessage>,
+}
+
+/// 搜索索引中的一条消息；tokens 只在写入时传入
+#[derive(Debug, Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct SearchDoc {
+    pub chat_id: String,
+    pub message_id: String,
+    pub kind: String,
+    pub role: String,
+    pub content: String,
+    #[serde(default, skip_serializing)]
+    pub tokens: String,
+    #[serde(default)]
+    pub provider_id: Option<String>,
+    #[serde(default)]
+    pub model: Option<String>,
+    #[serde(default)]
+    pub timestamp: Option<i64>,
+}
+
+/// 搜索的筛选条件，时间为毫秒时间戳，包含边界
+#[derive(Debug, Default, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct SearchFilters {
+    #[serde(default)]
+    pub provider_id: Option<String>,
+    #[serde(default)]
+    pub model: Option<String>,
+    #[serde(default)]
+    pub from: Option<i64>,
+    #[serde(default)]
+    pub to: Option<i64>,
+}
+
+/// 一次模型调用的用量，cost 为记录时按价格表算出的美元数
+#[derive(Debug, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct UsageRecord {
+    pub id: String,
+    pub timestamp: i64,
+    pub provider_id: String,
+    pub provider_name: String,
+    pub model: String,
+    #[serde(default)]
+    pub chat_id: Option<String>,
+    pub input_tokens: i64,
+    pub output_tokens: i64,
+    pub cost: f64,
+    #[serde(default)]
+    pub estimated: Option<bool>,
+}
+
+/// 按某个维度汇总后的一行用量
+#[derive(Debug, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct UsageSummary {
+    pub key: String,
+    pub requests: i64,
+    pub input_tokens: i64,
+    pub output_tokens: i64,
+    pub cost: f64,
+    /// 其中按字符数估算的请求数
+    pub estimated_requests: i64,
+}
+
+/// 一个对话占用的空间，包括对话数据和全部消息
+#[derive(Debug, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct ChatUsage {
+    pub id: String,
+    pub title: String,
+    pub icon: String,
+    pub deleted_at: Option<i64>,
+    pub message_count: i64,
+    pub bytes: i64,
+}
+
+/// 数据库文件的整体情况
+#[derive(Debug, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct StorageStats {
+    pub file_bytes: i64,
+    /// 已删除内容留下的空闲页，压缩后释放
+    pub free_bytes: i64,
+}
+
+pub struct Database {
+    conn: Mutex<Connection>,
+}
+
+fn now_millis() -> i64 {
+    SystemTime::now()
+        .duration_since(UNIX_EPOCH)
+        .map(|d| d.as_millis() as i64)
+        .unwrap_or(0)
+}
+
+fn to_err(error: rusqlite::Error) -> String {
+    format!("数据库错误: {error}")
+}
+
+impl Database {
+    pub fn open(app: &AppHandle) -> Result<Self, String> {
+        let dir = app.path().app_data_dir().map_err(|e| e.to_string())?;
+        std::fs::create_dir_all(&dir).map_err(|e| e.to_string())?;
+        let mut conn = Connection::open(dir.join(DATABASE_FILE)).map_err(to_err)?;
+        // secure_delete 覆盖被删除的内容，旧的明文设置不会残留在空闲页中
+        conn.execute_batch("PRAGMA journal_mode = WAL; PRAGMA foreign_keys = ON; PRAGMA secure_delete = ON;")
+            .map_err(to_err)?;
+        migrate(&mut conn).map_err(to_err)?;
+        Ok(Self {
+            conn: Mutex::new(conn),
+        })
+    }
+
+    /// 在一个事务中执行，出错时整体回滚
+    fn transaction<T>(
+        &self,
+        task: impl FnOnce(&Transaction) -> rusqlite::Result<T>,
+    ) -> Result<T, String> {
+        let mut conn = self.conn.lock().unwrap();
+        let tx = conn.transaction().map_err(to_err)?;
+        let result = task(&tx).map_err(to_err)?;
+        tx.commit().map_err(to_err)?;
+        Ok(result)
+    }
+}
+
+/// 依次执行尚未执行的结构迁移，每个迁移在单独的事务中完成
+fn migrate(conn: &mut Connection) -> rusqlite::Result<()> {
+    let version: usize = conn.query_row("PRAGMA user_version", [], |row| row.get(0))?;
+    for (index, migration) in MIGRATIONS.iter().enumerate().skip(version) {
+        let tx = conn.transaction()?;
+        tx.execute_batch(migration)?;
+        tx.pragma_update(None, "user_version", index + 1)?;
+        tx.commit()?;
+    }
+    Ok(())
+}
+
+/// 新对话排在最前面；已有对话只更新侧边栏信息，不改变创建和更新时间
+fn insert_chat(tx: &Transaction, meta: &ChatMeta, now: i64) -> rusqlite::Result<()> {
+    let created_at = meta.created_at.unwrap_or(now);
+    let tags = serde_json::to_string(&meta.tags).unwrap_or_else(|_| "[]".to_string());
+    tx.execute(
+        "INSERT INTO chats (id, title, icon, kind, title_source, pinned, archived, folder_id, tags, position, created_at, updated_at)
+         VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, (SELECT COALESCE(MAX(position), 0) + 1 FROM chats), ?10, ?11)
+         ON CONFLICT (id) DO UPDATE SET title = excluded.title, icon = excluded.icon, kind = excluded.kind,
+             title_source = excluded.title_source, pinned = excluded.pinned, archived = excluded.archived,
+             folder_id = excluded.folder_id, tags = excluded.tags",
+        params![
+            meta.id,
+            meta.title,
+            meta.icon,
+            meta.kind,
+            meta.title_source,
+            meta.pinned,
+            meta.archived,
+            meta.folder_id,
+            tags,
+            created_at,
+            meta.updated_at.unwrap_or(created_at)
+        ],
+    )?;
+    Ok(())
+}
+
+/// 已有的消息原地更新并保留原顺序，新消息追加到末尾
+fn upsert_messages(tx: &Transaction, chat_id: &str, messages: &[StoredMessage]) -> rusqlite::Result<()> {
+    let mut stmt = tx.prepare(
+        "INSERT INTO messages (chat_id, id, parent_id, seq, data)
+         VALUES (?1, ?2, ?3, (SELECT COALESCE(MAX(seq), 0) + 1 FROM messages WHERE chat_id = ?1), ?4)
+         ON CONFLICT (chat_id, id) DO UPDATE SET parent_id = excluded.parent_id, data = excluded.data",
+    )?;
+    for message in messages {
+        stmt.execute(params![chat_id, message.id, message.parent_id, message.data])?;
+    }
+    Ok(())
+}
+
+fn read_chat_meta(row: &Row) -> rusqlite::Result<ChatMeta> {
+    let tags: String = row.get(8)?;
+    Ok(ChatMeta {
+        id: row.get(0)?,
+        title: row.get(1)?,
+        icon: row.get(2)?,
+        kind: row.get(3)?,
+        title_source: row.get(4)?,
+        pinned: row.get(5)?,
+        archived: row.get(6)?,
+        folder_id: row.get(7)?,
+        tags: serde_json::from_str(&tags).unwrap_or_default(),
+        created_at: row.get(9)?,
+        updated_at: row.get(10)?,
+        deleted_at: row.get(11)?,
+    })
+}
+
+fn query_chats(conn: &Connection, condition: &str) -> Result<Vec<ChatMeta>, String> {
+    let mut stmt = conn
+        .prepare(&format!("SELECT {CHAT_COLUMNS} FROM chats WHERE {condition}"))
+        .map_err(to_err)?;
+    let rows = stmt.query_map([], read_chat_meta).map_err(to_err)?;
+    rows.collect::<rusqlite::Result<Vec<_>>>().map_err(to_err)
+}
+
+/// 侧边栏中的对话，不包括回收站
+#[tauri::command]
+pub fn db_list_chats(state: State<'_, Database>) -> Result<Vec<ChatMeta>, String> {
+    let conn = state.conn.lock().unwrap();
+    query_chats(&conn, "deleted_at IS NULL ORDER BY updated_at DESC, position DESC")
+}
+
+/// 回收站中的对话，最近删除的在前
+#[tauri::command]
+pub fn db_list_trash(state: State<'_, Database>) -> Result<Vec<ChatMeta>, String> {
+    let conn = state.conn.lock().unwrap();
+    query_chats(&conn, "deleted_at IS NOT NULL ORDER BY deleted_at DESC")
+}
+
+/// 新建对话，或更新已有对话的标题、图标和整理信息
+#[tauri::command]
+pub fn db_upsert_chat(state: State<'_, Database>, chat: ChatMeta) -> Result<(), String> {
+    state.transaction(|tx| insert_chat(tx, &chat, now_millis()))
+}
+
+/// 彻底删除对话及其全部消息
+#[tauri::command]
+pub fn db_delete_chats(state: State<'_, Database>, ids: Vec<String>) -> Result<(), String> {
+    state.transaction(|tx| {
+        for id in &ids {
+            tx.execute("DELETE FROM chats WHERE id = ?1", params![id])?;
+        }
+        Ok(())
+    })
+}
+
+/// 把对话移到回收站，数据保留到彻底删除为止
+#[tauri::command]
+pub fn db_trash_chats(state: State<'_, Database>, ids: Vec<String>) -> Result<(), String> {
+    let now = now_millis();
+    state.transaction(|tx| {
+        for id in &ids {
+            tx.execute(
+                "UPDATE chats SET deleted_at = ?2 WHERE id = ?1 AND deleted_at IS NULL",
+                params![id, now],
+            )?;
+        }
+        Ok(())
+    })
+}
+
+/// 从回收站恢复对话
+#[tauri::command]
+pub fn db_restore_chats(state: State<'_, Database>, ids: Vec<String>) -> Result<(), String> {
+    state.transaction(|tx| {
+        for id in &ids {
+            tx.execute("UPDATE chats SET deleted_at = NULL WHERE id = ?1", params![id])?;
+        }
+        Ok(())
+    })
+}
+
+/// 彻底删除回收站中在 before 之前删除的对话，before 为空时清空回收站
+/// 返回删除的对话数
+#[tauri::command]
+pub fn db_purge_trash(state: State<'_, Database>, before: Option<i64>) -> Result<usize, String> {
+    state.transaction(|tx| {
+        tx.execute(
+            "DELETE FROM chats WHERE deleted_at IS NOT NULL AND deleted_at < ?1",
+            params![before.unwrap_or(i64::MAX)],
+        )
+    })
+}
+
+/// 每个对话（包括回收站中的）占用的字节数，最大的在前
+#[tauri::command]
+pub fn db_storage_usage(state: State<'_, Database>) -> Result<Vec<ChatUsage>, String> {
+    let conn = state.conn.lock().unwrap();
+    let mut stmt = conn
+        .prepare(
+            "SELECT chats.id, chats.title, chats.icon, chats.deleted_at, COUNT(messages.id),
+                 length(CAST(chats.data AS BLOB)) + COALESCE(SUM(length(CAST(messages.data AS BLOB))), 0) AS bytes
+             FROM chats LEFT JOIN messages ON messages.chat_id = chats.id
+             GROUP BY chats.id ORDER BY bytes DESC",
+        )
+        .map_err(to_err)?;
+    let rows = stmt
+        .query_map([], |row| {
+            Ok(ChatUsage {
+                id: row.get(0)?,
+                title: row.get(1)?,
+                icon: row.get(2)?,
+                deleted_at: row.get(3)?,
+                message_count: row.get(4)?,
+                bytes: row.get(5)?,
+            })
+        })
+        .map_err(to_err)?;
+    rows.collect::<rusqlite::Result<Vec<_>>>().map_err(to_err)
+}
+
+#[tauri::command]
+pub fn db_storage_stats(state: State<'_, Database>) -> Result<StorageStats, String> {
+    let conn = state.conn.lock().unwrap();
+    let pragma = |name: &str| -> Result<i64, String> {
+        conn.query_row(&format!("PRAGMA {name}"), [], |row| row.get(0)).map_err(to_err)
+    };
+    let page_size = pragma("page_size")?;
+    let file_bytes = pragma("page_count")? * page_size;
+    let free_bytes = pragma("freelist_count")? * page_size;
+    Ok(StorageStats { file_bytes, free_bytes })
+}
+
+/// 重建数据库文件，释放已删除内容占用的空间
+#[tauri::command]
+pub fn db_compact(state: State<'_, Database>) -> Result<(), String> {
+    let conn = state.conn.lock().unwrap();
+    conn.execute_batch("VACUUM; PRAGMA wal_checkpoint(TRUNCATE);")
+        .map_err(to_err)
+}
+
+#[tauri::command]
+pub fn db_load_chat_data(state: State<'_, Database>, id: String) -> Result<Option<String>, String> {
+    let conn = state.conn.lock().unwrap();
+    conn.query_row("SELECT data FROM chats WHERE id = ?1", params![id], |row| row.get(0))
+        .optional()
+        .map_err(to_err)
+}
+
+/// 按加入顺序分页读取消息
+#[tauri::command]
+pub fn db_load_messages(
+    state: State<'_, Database>,
+    chat_id: String,
+    after: Option<i64>,
+    limit: i64,
+) -> Result<MessagePage, String> {
+    let conn = state.conn.lock().unwrap();
+    let mut stmt = conn
+        .prepare(
+            "SELECT id, parent_id, data, seq FROM messages
+             WHERE chat_id = ?1 AND seq > ?2 ORDER BY seq LIMIT ?3",
+        )
+        .map_err(to_err)?;
+    let rows = stmt
+        .query_map(params![chat_id, after.unwrap_or(0), limit], |row| {
+            Ok((
+                StoredMessage {
+                    id: row.get(0)?,
+                    parent_id: row.get(1)?,
+                    data: row.get(2)?,
+                },
+                row.get::<_, i64>(3)?,
+            ))
+        })
+        .map_err(to_err)?
+        .collect::<rusqlite::Result<Vec<_>>>()
+        .map_err(to_err)?;
+
+    let next_cursor = if rows.len() as i64 == limit {
+        rows.last().map(|(_, seq)| *seq)
+    } else {
+        None
+    };
+    Ok(MessagePage {
+        messages: rows.into_iter().map(|(message, _)| message).collect(),
+        next_cursor,
+    })
+}
+
+/// 保存对话数据和有变化的消息，在同一事务中完成；对话已被删除或在回收站中时不写入任何内容，返回 false。
+/// 只有消息变化时才更新 updated_at，切换分支等操作不会让对话排到前面
+#[tauri::command]
+pub fn db_save_chat(
+    state: State<'_, Database>,
+    chat_id: String,
+    data: String,
+    messages: Vec<StoredMessage>,
+) -> Result<bool, String> {
+    state.transaction(|tx| {
+        let updated = tx.execute(
+            "UPDATE chats SET data = ?2, updated_at = CASE WHEN ?3 THEN ?4 ELSE updated_at END
+             WHERE id = ?1 AND deleted_at IS NULL",
+            params![chat_id, data, !messages.is_empty(), now_millis()],
+        )?;
+        if updated == 0 {
+            return Ok(false);
+        }
+        upsert_messages(tx, &chat_id, &messages)?;
+        Ok(true)
+    })
+}
+
+/// 导入多个对话和设置，按从旧到新的顺序传入对话；marker 不为空时同时写入该设置项，用于标记一次性迁移已完成
+#[tauri::command]
+pub fn db_import(
+    state: State<'_, Database>,
+    chats: Vec<ImportedChat>,
+    settings: Vec<(String, String)>,
+    marker: Option<String>,
+) -> Result<(), String> {
+    let now = now_millis();
+    state.transaction(|tx| {
+        for chat in &chats {
+            insert_chat(tx, &chat.meta, now)?;
+            tx.execute(
+                "UPDATE chats SET data = ?2 WHERE id = ?1",
+                params![chat.meta.id, chat.data],
+            )?;
+            upsert_messages(tx, &chat.meta.id, &chat.messages)?;
+        }
+        for (key, value) in &settings {
+            tx.execute(
+                "INSERT OR REPLACE INTO settings (key, value) VALUES (?1, ?2)",
+                params![key, value],
+            )?;
+        }
+        if let Some(marker) = &marker {
+            tx.execute(
+                "INSERT OR REPLACE INTO settings (key, value) VALUES (?1, 'true')",
+                params![marker],
+            )?;
+        }
+        Ok(())
+    })
+}
+
+/// 用对话当前的全部可搜索消息替换它在索引中的内容；内容未变的消息不会重新建立索引
+#[tauri::command]
+pub fn db_index_chat(state: State<'_, Database>, chat_id: String, docs: Vec<SearchDoc>) -> Result<(), String> {
+    let ids = serde_json::to_string(&docs.iter().map(|doc| &doc.message_id).collect::<Vec<_>>())
+        .map_err(|e| e.to_string())?;
+    state.transaction(|tx| {
+        tx.execute(
+            "DELETE FROM search_docs WHERE chat_id = ?1 AND message_id NOT IN (SELECT value FROM json_each(?2))",
+            params![chat_id, ids],
+        )?;
+        let mut stmt = tx.prepare(
+            "INSERT INTO search_docs (chat_id, message_id, kind, role, content, tokens, provider_id, model, timestamp)
+             VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9)
+             ON CONFLICT (chat_id, message_id) DO UPDATE SET kind = excluded.kind, role = excluded.role,
+                 content = excluded.content, tokens = excluded.tokens, provider_id = excluded.provider_id,
+                 model = excluded.model, timestamp = excluded.timestamp
+             WHERE content != excluded.content OR provider_id IS NOT excluded.provider_id
+                 OR model IS NOT excluded.model OR timestamp IS NOT excluded.timestamp",
+        )?;
+        for doc in &docs {
+            stmt.execute(params![
+                chat_id,
+                doc.message_id,
+                doc.kind,
+                doc.role,
+                doc.content,
+                doc.tokens,
+                doc.provider_id,
+                doc.model,
+                doc.timestamp
+            ])?;
+        }
+        Ok(())
+    })
+}
+
+/// 按 FTS5 查询表达式查找消息，不包括回收站中的对话；结果按时间从新到旧排列，用 offset 分页
+#[tauri::command]
+pub fn db_search(
+    state: State<'_, Database>,
+    query: String,
+    filters: SearchFilters,
+    limit: i64,
+    offset: i64,
+) -> Result<Vec<SearchDoc>, String> {
+    let conn = state.conn.lock().unwrap();
+    let mut stmt = conn
+        .prepare(
+            "SELECT d.chat_id, d.message_id, d.kind, d.role, d.content, d.provider_id, d.model, d.timestamp
+             FROM search_fts
+             JOIN search_docs d ON d.id = search_fts.rowid
+             JOIN chats ON chats.id = d.chat_id
+             WHERE search_fts MATCH ?1 AND chats.deleted_at IS NULL
+                 AND (?2 IS NULL OR d.provider_id = ?2) AND (?3 IS NULL OR d.model = ?3)
+                 AND (?4 IS NULL OR d.timestamp >= ?4) AND (?5 IS NULL OR d.timestamp <= ?5)
+             ORDER BY d.timestamp DESC, d.id DESC LIMIT ?6 OFFSET ?7",
+        )
+        .map_err(to_err)?;
+    let rows = stmt
+        .query_map(
+            params![query, filters.provider_id, filters.model, filters.from, filters.to, limit, offset],
+            |row| {
+                Ok(SearchDoc {
+                    chat_id: row.get(0)?,
+                    message_id: row.get(1)?,
+                    kind: row.get(2)?,
+                    role: row.get(3)?,
+                    content: row.get(4)?,
+                    tokens: String::new(),
+                    provider_id: row.get(5)?,
+                    model: row.get(6)?,
+                    timestamp: row.get(7)?,
+                })
+            },
+        )
+        .map_err(to_err)?;
+    rows.collect::<rusqlite::Result<Vec<_>>>().map_err(to_err)
+}
+
+/// 索引中出现过的模型，用于搜索筛选
+#[tauri::command]
+pub fn db_search_models(state: State<'_, Database>) -> Result<Vec<String>, String> {
+    let conn = state.conn.lock().unwrap();
+    let mut stmt = conn
+        .prepare("SELECT DISTINCT model FROM search_docs WHERE model IS NOT NULL ORDER BY model")
+        .map_err(to_err)?;
+    let rows = stmt.query_map([], |row| row.get(0)).map_err(to_err)?;
+    rows.collect::<rusqlite::Result<Vec<_>>>().map_err(to_err)
+}
+
+/// 写入用量记录；id 已存在的记录跳过，从 usage.bin 迁移中断后可以重新导入
+#[tauri::command]
+pub fn db_record_usage(state: State<'_, Database>, records: Vec<UsageRecord>) -> Result<(), String> {
+    state.transaction(|tx| {
+        let mut stmt = tx.prepare(
+            "INSERT OR IGNORE INTO usage_records
+                 (id, timestamp, provider_id, provider_name, model, chat_id, input_tokens, output_tokens, cost, estimated)
+             VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10)",
+        )?;
+        for record in &records {
+            stmt.execute(params![
+                record.id,
+                record.timestamp,
+                record.provider_id,
+                record.provider_name,
+                record.model,
+                record.chat_id,
+                record.input_tokens,
+                record.output_tokens,
+                record.cost,
+                record.estimated.unwrap_or(false)
+            ])?;
+        }
+        Ok(())
+    })
+}
+
+/// 汇总 since 之后的用量；按天时从新到旧排列，其余按花费从高到低排列
+#[tauri::command]
+pub fn db_usage_summary(
+    state: State<'_, Database>,
+    group_by: String,
+    since: i64,
+) -> Result<Vec<UsageSummary>, String> {
+    let (key, order) = match group_by.as_str() {
+        "day" => (
+            "strftime('%Y-%m-%d', timestamp / 1000, 'unixepoch', 'localtime')",
+            "key DESC",
+        ),
+        "provider" => ("provider_name", "cost DESC, input DESC"),
+        "model" => ("model", "cost DESC, input DESC"),
+        "chat" => ("COALESCE(chat_id, '')", "cost DESC, input DESC"),
+        _ => return Err(format!("未知的汇总方式: {group_by}")),
+    };
+    let conn = state.conn.lock().unwrap();
+    let mut stmt = conn
+        .prepare(&format!(
+            "SELECT {key} AS key, COUNT(*), SUM(input_tokens) AS input, SUM(output_tokens), SUM(cost) AS cost,
+                 SUM(estimated)
+             FROM usage_records WHERE timestamp >= ?1
+             GROUP BY key ORDER BY {order}"
+        ))
+        .map_err(to_err)?;
+    let rows = stmt
+        .query_map(params![since], |row| {
+            Ok(UsageSummary {
+                key: row.get(0)?,
+                requests: row.get(1)?,
+                input_tokens: row.get(2)?,
+                output_tokens: row.get(3)?,
+                cost: row.get(4)?,
+                estimated_requests: row.get(5)?,
+            })
+        })
+        .map_err(to_err)?;
+    rows.collect::<rusqlite::Result<Vec<_>>>().map_err(to_err)
+}
+
+/// since 之后的总花费，provider_id 不为空时只算该服务商
+#[tauri::command]
+pub fn db_usage_cost(
+    state: State<'_, Database>,
+    since: i64,
+    provider_id: Option<String>,
+) -> Result<f64, String> {
+    let conn = state.conn.lock().unwrap();
+    conn.query_row(
+        "SELECT COALESCE(SUM(cost), 0) FROM usage_records
+         WHERE timestamp >= ?1 AND (?2 IS NULL OR provider_id = ?2)",
+        params![since, provider_id],
+        |row| row.get(0),
+    )
+    .map_err(to_err)
+}
+
+#[tauri::command]
+pub fn db_clear_usage(state: State<'_, Database>) -> Result<(), String> {
+    let conn = state.conn.lock().unwrap();
+    conn.execute("DELETE FROM usage_records", []).map_err(to_err)?;
+    Ok(())
+}
+
+#[tauri::command]
+pub fn db_get_setting(state: State<'_, Database>, key: String) -> Result<Option<String>, String> {
+    let conn = state.conn.lock().unwrap();
+    conn.query_row("SELECT value FROM settings WHERE key = ?1", params![key], |row| row.get(0))
+        .optional()
+        .map_err(to_err)
+}
+
+#[tauri::command]
+pub fn db_set_setting(state: State<'_, Database>, key: String, value: String) -> Result<(), String> {
+    let conn = state.conn.lock().unwrap();
+    conn.execute(
+        "INSERT OR REPLACE INTO settings (key, value) VALUES (?1, ?2)",
+        params![key, value],
+    )
+    .map_err(to_err)?;
+    Ok(())
+}
+
+#[tauri::command]
+pub fn db_delete_setting(state: State<'_, Database>, key: String) -> Result<(), String> {
+    let conn = state.conn.lock().unwrap();
+    conn.execute("DELETE FROM settings WHERE key = ?1", params![key])
+        .map_err(to_err)?;
+    Ok(())
+}
@@ -1,3 +1,9 @@
+mod db;
+mod mcp;
+mod vault;
+
+use tauri::Manager;
+
 // Learn more about Tauri commands at https://tauri.app/develop/calling-rust/
 #[tauri::command]
 fn greet(name: &str) -> String {
@@ -9,7 +15,55 @@ pub fn run() {
     tauri::Builder::default()
         .plugin(tauri_plugin_store::Builder::new().build())
         .plugin(tauri_plugin_opener::init())
-        .invoke_handler(tauri::generate_handler![greet])
+        .plugin(tauri_plugin_dialog::init())
+        .plugin(tauri_plugin_fs::init())
+        .manage(mcp::McpManager::default())
+        .setup(|app| {
+            let database = db::Database::open(app.handle())?;
+            app.manage(database);
+            let vault = vault::Vault::load(app.handle())?;
+            app.manage(vault);
+            Ok(())
+        })
+        .invoke_handler(tauri::generate_handler![
+            greet,
+            mcp::mcp_start_server,
+            mcp::mcp_stop_server,
+            mcp::mcp_running_servers,
+            mcp::mcp_list_tools,
+            mcp::mcp_call_tool,
+            db::db_list_chats,
+            db::db_upsert_chat,
+            db::db_delete_chats,
+            db::db_trash_chats,
+            db::db_restore_chats,
+            db::db_list_trash,
+            db::db_purge_trash,
+            db::db_storage_usage,
+            db::db_storage_stats,
+            db::db_compact,
+            db::db_load_chat_data,
+            db::db_load_messages,
+            db::db_save_chat,
+            db::db_import,
+            db::db_index_chat,
+            db::db_search,
+            db::db_search_models,
+            db::db_record_usage,
+            db::db_usage_summary,
+            db::db_usage_cost,
+            db::db_clear_usage,
+            db::db_get_setting,
+            db::db_set_setting,
+            db::db_delete_setting,
+            vault::vault_status,
+            vault::vault_unlock,
+            vault::vault_lock,
+            vault::vault_set_secret,
+            vault::vault_delete_secret,
+            vault::vault_get_secret,
+            vault::vault_reset
+        ])
         .run(tauri::generate_context!())
         .expect("error while running tauri application");
 }
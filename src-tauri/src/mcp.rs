@@ -0,0 +1,245 @@
+// MCP (Model Context Protocol) stdio 客户端：负责启动服务进程并通过 JSON-RPC 与其通信
+use std::collections::HashMap;
+use std::io::{BufRead, BufReader, Write};
+use std::process::{Child, ChildStdin, Command, Stdio};
+use std::sync::atomic::{AtomicU64, Ordering};
+use std::sync::mpsc::{channel, Sender};
+use std::sync::{Arc, Mutex};
+use std::time::Duration;
+
+use serde::Deserialize;
+use serde_json::{json, Value};
+use tauri::State;
+
+const PROTOCOL_VERSION: &str = "2024-11-05";
+const REQUEST_TIMEOUT: Duration = Duration::from_secs(60);
+// JSON-RPC 的 "Method not found" 错误码
+const METHOD_NOT_FOUND: i64 = -32601;
+
+#[derive(Debug, Clone, Deserialize)]
+pub struct McpServerConfig {
+    pub id: String,
+    pub command: String,
+    #[serde(default)]
+    pub args: Vec<String>,
+    #[serde(default)]
+    pub env: HashMap<String, String>,
+}
+
+type PendingRequests = Arc<Mutex<HashMap<u64, Sender<Value>>>>;
+
+struct McpServer {
+    child: Mutex<Child>,
+    // 读取线程也要写入，用于应答服务端的请求
+    stdin: Arc<Mutex<ChildStdin>>,
+    pending: PendingRequests,
+    next_id: AtomicU64,
+}
+
+impl McpServer {
+    /// 启动服务进程并完成 initialize 握手，返回服务端的 initialize 结果
+    fn start(config: &McpServerConfig) -> Result<(Self, Value), String> {
+        let mut child = Command::new(&config.command)
+            .args(&config.args)
+            .envs(&config.env)
+            .stdin(Stdio::piped())
+            .stdout(Stdio::piped())
+            .stderr(Stdio::null())
+            .spawn()
+            .map_err(|e| format!("启动 MCP 服务失败: {e}"))?;
+
+        let stdin = child.stdin.take().ok_or("无法获取 MCP 服务的 stdin")?;
+        let stdin = Arc::new(Mutex::new(stdin));
+        let stdout = child.stdout.take().ok_or("无法获取 MCP 服务的 stdout")?;
+        let pending: PendingRequests = Arc::new(Mutex::new(HashMap::new()));
+
+        let reader_pending = pending.clone();
+        let reader_stdin = stdin.clone();
+        std::thread::spawn(move || {
+            for line in BufReader::new(stdout).lines() {
+                let Ok(line) = line else { break };
+                let Ok(message) = serde_json::from_str::<Value>(&line) else {
+                    continue;
+                };
+                // 服务端发来的通知不需要应答；请求（带 id）必须应答，
+                // ping 返回空结果，其它请求本客户端都不支持
+                if let Some(method) = message.get("method") {
+                    if let Some(id) = message.get("id") {
+                        let method = method.as_str().unwrap_or_default();
+                        let reply = if method == "ping" {
+                            json!({ "jsonrpc": "2.0", "id": id, "result": {} })
+                        } else {
+                            json!({
+                                "jsonrpc": "2.0",
+                                "id": id,
+                                "error": { "code": METHOD_NOT_FOUND, "message": format!("Method not found: {method}") }
+                            })
+                        };
+                        let _ = write_message(&reader_stdin, &reply);
+                    }
+                    continue;
+                }
+                if let Some(id) = message.get("id").and_then(Value::as_u64) {
+                    if let Some(sender) = reader_pending.lock().unwrap().remove(&id) {
+                        let _ = sender.send(message);
+                    }
+                }
+            }
+            // 进程退出后丢弃所有发送端，让等待中的请求立即失败
+            reader_pending.lock().unwrap().clear();
+        });
+
+        let server = McpServer {
+            child: Mutex::new(child),
+            stdin,
+            pending,
+            next_id: AtomicU64::new(1),
+        };
+
+        let info = server.request(
+            "initialize",
+            json!({
+                "protocolVersion": PROTOCOL_VERSION,
+                "capabilities": {},
+                "clientInfo": { "name": "yunchat", "version": env!("CARGO_PKG_VERSION") }
+            }),
+        )?;
+        server.notify("notifications/initialized", json!({}))?;
+
+        Ok((server, info))
+    }
+
+    fn request(&self, method: &str, params: Value) -> Result<Value, String> {
+        let id = self.next_id.fetch_add(1, Ordering::SeqCst);
+        let (sender, receiver) = channel();
+        self.pending.lock().unwrap().insert(id, sender);
+
+        if let Err(error) = self.send(json!({ "jsonrpc": "2.0", "id": id, "method": method, "params": params })) {
+            self.pending.lock().unwrap().remove(&id);
+            return Err(error);
+        }
+
+        let response = receiver.recv_timeout(REQUEST_TIMEOUT).map_err(|_| {
+            self.pending.lock().unwrap().remove(&id);
+            format!("MCP 请求 {method} 超时或服务已退出")
+        })?;
+
+        if let Some(error) = response.get("error") {
+            let message = error.get("message").and_then(Value::as_str).unwrap_or("未知错误");
+            return Err(format!("MCP 错误: {message}"));
+        }
+        Ok(response.get("result").cloned().unwrap_or(Value::Null))
+    }
+
+    fn notify(&self, method: &str, params: Value) -> Result<(), String> {
+        self.send(json!({ "jsonrpc": "2.0", "method": method, "params": params }))
+    }
+
+    fn send(&self, message: Value) -> Result<(), String> {
+        write_message(&self.stdin, &message)
+    }
+}
+
+/// 写入一行 JSON-RPC 消息
+fn write_message(stdin: &Mutex<ChildStdin>, message: &Value) -> Result<(), String> {
+    let mut stdin = stdin.lock().unwrap();
+    writeln!(stdin, "{message}")
+        .and_then(|_| stdin.flush())
+        .map_err(|e| format!("写入 MCP 服务失败: {e}"))
+}
+
+impl Drop for McpServer {
+    fn drop(&mut self) {
+        if let Ok(mut child) = self.child.lock() {
+            let _ = child.kill();
+            let _ = child.wait();
+        }
+    }
+}
+
+/// 正在运行的 MCP 服务，按配置 id 索引
+#[derive(Default)]
+pub struct McpManager {
+    servers: Mutex<HashMap<String, Arc<McpServer>>>,
+}
+
+impl McpManager {
+    fn get(&self, id: &str) -> Result<Arc<McpServer>, String> {
+        self.servers
+            .lock()
+            .unwrap()
+            .get(id)
+            .cloned()
+            .ok_or_else(|| format!("MCP 服务 {id} 未运行"))
+    }
+}
+
+async fn run_blocking<T: Send + 'static>(
+    task: impl FnOnce() -> Result<T, String> + Send + 'static,
+) -> Result<T, String> {
+    tauri::async_runtime::spawn_blocking(task)
+        .await
+        .map_err(|e| e.to_string())?
+}
+
+#[tauri::command]
+pub async fn mcp_start_server(
+    state: State<'_, McpManager>,
+    config: McpServerConfig,
+) -> Result<Value, String> {
+    // 重复启动时先停止旧进程
+    state.servers.lock().unwrap().remove(&config.id);
+
+    let id = config.id.clone();
+    let (server, info) = run_blocking(move || McpServer::start(&config)).await?;
+    state.servers.lock().unwrap().insert(id, Arc::new(server));
+    Ok(info)
+}
+
+#[tauri::command]
+pub fn mcp_stop_server(state: State<'_, McpManager>, id: String) {
+    state.servers.lock().unwrap().remove(&id);
+}
+
+#[tauri::command]
+pub fn mcp_running_servers(state: State<'_, McpManager>) -> Vec<String> {
+    state.servers.lock().unwrap().keys().cloned().collect()
+}
+
+#[tauri::command]
+pub async fn mcp_list_tools(state: State<'_, McpManager>, id: String) -> Result<Vec<Value>, String> {
+    let server = state.get(&id)?;
+    run_blocking(move || {
+        let mut tools = Vec::new();
+        let mut cursor: Option<String> = None;
+        loop {
+            let params = match &cursor {
+                Some(cursor) => json!({ "cursor": cursor }),
+                None => json!({}),
+            };
+            let result = server.request("tools/list", params)?;
+            if let Some(page) = result.get("tools").and_then(Value::as_array) {
+                tools.extend(page.iter().cloned());
+            }
+            cursor = result.get("nextCursor").and_then(Value::as_str).map(String::from);
+            if cursor.is_none() {
+                return Ok(tools);
+            }
+        }
+    })
+    .await
+}
+
+#[tauri::command]
+pub async fn mcp_call_tool(
+    state: State<'_, McpManager>,
+    id: String,
+    name: String,
+    arguments: Value,
+) -> Result<Value, String> {
+    let server = state.get(&id)?;
+    run_blocking(move || {
+        server.request("tools/call", json!({ "name": name, "arguments": arguments }))
+    })
+    .await
+}
@@ -0,0 +1,212 @@
+// 服务商 API Key 的加密保存：主密码经 Argon2id 派生出密钥，每个 Key 用 AES-256-GCM 单独加密。
+// 派生出的密钥只在解锁期间留在内存中，前端只在发起请求时按需取用单个 Key
+use std::collections::HashMap;
+use std::path::PathBuf;
+use std::sync::Mutex;
+
+use aes_gcm::aead::{rand_core::RngCore, Aead, AeadCore, KeyInit, OsRng};
+use aes_gcm::{Aes256Gcm, Nonce};
+use argon2::Argon2;
+use base64::{engine::general_purpose::STANDARD, Engine};
+use serde::{Deserialize, Serialize};
+use tauri::{AppHandle, Manager, State};
+use zeroize::Zeroizing;
+
+const VAULT_FILE: &str = "vault.json";
+const SALT_LEN: usize = 16;
+const NONCE_LEN: usize = 12;
+// 解锁时解密这段内容来判断主密码是否正确
+const CHECK_PLAINTEXT: &[u8] = b"yunchat-vault";
+
+type VaultKey = Zeroizing<[u8; 32]>;
+
+/// 磁盘上的密钥库，密文均为 base64(nonce || ciphertext)
+#[derive(Serialize, Deserialize)]
+struct VaultFile {
+    salt: String,
+    check: String,
+    #[serde(default)]
+    secrets: HashMap<String, String>,
+}
+
+#[derive(Default)]
+struct VaultState {
+    file: Option<VaultFile>,
+    key: Option<VaultKey>,
+}
+
+pub struct Vault {
+    path: PathBuf,
+    state: Mutex<VaultState>,
+}
+
+#[derive(Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct VaultStatus {
+    /// 是否已设置主密码
+    initialized: bool,
+    unlocked: bool,
+}
+
+fn derive_key(passphrase: &str, salt: &[u8]) -> Result<VaultKey, String> {
+    let mut key = Zeroizing::new([0u8; 32]);
+    Argon2::default()
+        .hash_password_into(passphrase.as_bytes(), salt, &mut *key)
+        .map_err(|e| format!("派生密钥失败: {e}"))?;
+    Ok(key)
+}
+
+fn cipher(key: &VaultKey) -> Aes256Gcm {
+    Aes256Gcm::new_from_slice(&key[..]).expect("key length is fixed")
+}
+
+fn encrypt(key: &VaultKey, plaintext: &[u8]) -> Result<String, String> {
+    let nonce = Aes256Gcm::generate_nonce(&mut OsRng);
+    let ciphertext = cipher(key)
+        .encrypt(&nonce, plaintext)
+        .map_err(|_| "加密失败".to_string())?;
+    let mut sealed = nonce.to_vec();
+    sealed.extend(ciphertext);
+    Ok(STANDARD.encode(sealed))
+}
+
+fn decrypt(key: &VaultKey, sealed: &str) -> Result<Zeroizing<Vec<u8>>, String> {
+    let bytes = STANDARD.decode(sealed).map_err(|_| "密钥库已损坏".to_string())?;
+    if bytes.len() < NONCE_LEN {
+        return Err("密钥库已损坏".into());
+    }
+    let (nonce, ciphertext) = bytes.split_at(NONCE_LEN);
+    cipher(key)
+        .decrypt(Nonce::from_slice(nonce), ciphertext)
+        .map(Zeroizing::new)
+        .map_err(|_| "解密失败".to_string())
+}
+
+impl Vault {
+    pub fn load(app: &AppHandle) -> Result<Self, String> {
+        let dir = app.path().app_data_dir().map_err(|e| e.to_string())?;
+        let path = dir.join(VAULT_FILE);
+        let file = match std::fs::read_to_string(&path) {
+            Ok(text) => Some(serde_json::from_str(&text).map_err(|e| format!("读取密钥库失败: {e}"))?),
+            Err(e) if e.kind() == std::io::ErrorKind::NotFound => None,
+            Err(e) => return Err(format!("读取密钥库失败: {e}")),
+        };
+        Ok(Self {
+            path,
+            state: Mutex::new(VaultState { file, key: None }),
+        })
+    }
+
+    /// 先写临时文件再替换，避免写到一半时损坏
+    fn write(&self, file: &VaultFile) -> Result<(), String> {
+        if let Some(dir) = self.path.parent() {
+            std::fs::create_dir_all(dir).map_err(|e| e.to_string())?;
+        }
+        let text = serde_json::to_string_pretty(file).map_err(|e| e.to_string())?;
+        let temp = self.path.with_extension("json.tmp");
+        std::fs::write(&temp, text).map_err(|e| format!("保存密钥库失败: {e}"))?;
+        std::fs::rename(&temp, &self.path).map_err(|e| format!("保存密钥库失败: {e}"))
+    }
+}
+
+const LOCKED: &str = "密钥库已锁定，请先输入主密码解锁";
+
+#[tauri::command]
+pub fn vault_status(state: State<'_, Vault>) -> VaultStatus {
+    let inner = state.state.lock().unwrap();
+    VaultStatus {
+        initialized: inner.file.is_some(),
+        unlocked: inner.key.is_some(),
+    }
+}
+
+/// 用主密码解锁；还没有密钥库时用这个密码新建一个
+#[tauri::command]
+pub fn vault_unlock(state: State<'_, Vault>, passphrase: String) -> Result<(), String> {
+    let passphrase = Zeroizing::new(passphrase);
+    let mut inner = state.state.lock().unwrap();
+    match &inner.file {
+        Some(file) => {
+            let salt = STANDARD.decode(&file.salt).map_err(|_| "密钥库已损坏".to_string())?;
+            let key = derive_key(&passphrase, &salt)?;
+            decrypt(&key, &file.check).map_err(|_| "主密码不正确".to_string())?;
+            inner.key = Some(key);
+        }
+        None => {
+            if passphrase.is_empty() {
+                return Err("主密码不能为空".into());
+            }
+            let mut salt = [0u8; SALT_LEN];
+            OsRng.fill_bytes(&mut salt);
+            let key = derive_key(&passphrase, &salt)?;
+            let file = VaultFile {
+                salt: STANDARD.encode(salt),
+                check: encrypt(&key, CHECK_PLAINTEXT)?,
+                secrets: HashMap::new(),
+            };
+            state.write(&file)?;
+            inner.file = Some(file);
+            inner.key = Some(key);
+        }
+    }
+    Ok(())
+}
+
+#[tauri::command]
+pub fn vault_lock(state: State<'_, Vault>) {
+    state.state.lock().unwrap().key = None;
+}
+
+#[tauri::command]
+pub fn vault_set_secret(state: State<'_, Vault>, provider_id: String, secret: String) -> Result<(), String> {
+    let secret = Zeroizing::new(secret);
+    let mut inner = state.state.lock().unwrap();
+    let VaultState { file, key } = &mut *inner;
+    let (Some(file), Some(key)) = (file.as_mut(), key.as_ref()) else {
+        return Err(LOCKED.into());
+    };
+    file.secrets.insert(provider_id, encrypt(key, secret.as_bytes())?);
+    state.write(file)
+}
+
+/// 删除不需要解锁
+#[tauri::command]
+pub fn vault_delete_secret(state: State<'_, Vault>, provider_id: String) -> Result<(), String> {
+    let mut inner = state.state.lock().unwrap();
+    let Some(file) = inner.file.as_mut() else {
+        return Ok(());
+    };
+    if file.secrets.remove(&provider_id).is_some() {
+        state.write(file)?;
+    }
+    Ok(())
+}
+
+/// 取出一个服务商的 Key，只在发起请求前调用
+#[tauri::command]
+pub fn vault_get_secret(state: State<'_, Vault>, provider_id: String) -> Result<Option<String>, String> {
+    let inner = state.state.lock().unwrap();
+    let (Some(file), Some(key)) = (inner.file.as_ref(), inner.key.as_ref()) else {
+        return Err(LOCKED.into());
+    };
+    let Some(sealed) = file.secrets.get(&provider_id) else {
+        return Ok(None);
+    };
+    let plaintext = decrypt(key, sealed)?;
+    String::from_utf8(plaintext.to_vec())
+        .map(Some)
+        .map_err(|_| "密钥库已损坏".to_string())
+}
+
+/// 忘记主密码时清空密钥库，所有 Key 需要重新填写
+#[tauri::command]
+pub fn vault_reset(state: State<'_, Vault>) -> Result<(), String> {
+    let mut inner = state.state.lock().unwrap();
+    match std::fs::remove_file(&state.path) {
+        Ok(()) => {}
+        Err(e) if e.kind() == std::io::ErrorKind::NotFound => {}
+        Err(e) => return Err(format!("删除密钥库失败: {e}")),
+    }
+    *inner = VaultState::default();
+    Ok(())
+}
@@ -1,104 +1,203 @@
-import { useState, useEffect } from 'react';
-import { Store } from '@tauri-apps/plugin-store';
+import { useState, useEffect, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { Routes, Route, Link, useNavigate } from 'react-router-dom'; // Removed BrowserRouter as Router
+import { Routes, Route, Link, useNavigate, useLocation } from 'react-router-dom'; // Removed BrowserRouter as Router
 import MainArea from './components/MainArea';
+import CompareArea from './components/CompareArea';
 import ModelConfigTab from './components/ModelConfigTab';
 import ThemeConfigTab from './components/ThemeConfigTab';
+import ChatDefaultsTab from './components/ChatDefaultsTab';
+import McpConfigTab from './components/McpConfigTab';
+import UsageTab from './components/UsageTab';
+import AssistantLibrary from './components/AssistantLibrary';
+import PromptTemplatesTab from './components/PromptTemplatesTab';
+import DataTab from './components/DataTab';
+import StorageTab from './components/StorageTab';
+import TrashModal from './components/TrashModal';
+import SearchPanel from './components/SearchPanel';
+import VaultUnlockModal from './components/VaultUnlockModal';
+import HistoryList from './components/HistoryList';
+import { FocusMessageState, NewChatState, ReplyExchange } from './components/MainArea';
+import { McpService, McpServerConfig } from './services/McpService';
+import { ProviderConfig, hasPlaintextKeys, migratePlaintextKeys } from './services/ProviderConfig';
+import { KeyVault, VaultStatus } from './services/KeyVault';
+import { Assistant, DEFAULT_ASSISTANT_ID, WRITING_ASSISTANT_ID } from './services/Assistant';
+import { PromptTemplate } from './services/PromptTemplate';
+import { Comparison } from './services/Comparison';
+import { SearchDoc } from './services/SearchService';
+import { ChatFolder, ChatRecord, HistoryItem, createHistoryItem } from './services/ChatRecord';
+import { generateChatTitle, pickTitleModel } from './services/ChatTitle';
+import { ChatDatabase } from './services/Database';
+import { Settings, useSettings } from './services/Settings';
 
-// Store 会在 JavaScript 绑定时自动加载.
-const store = await Store.load('history.bin');
+// 首次启动新版本时把旧的 history.bin / store.bin 导入数据库
+await ChatDatabase.migrateLegacyStores().catch(error => {
+  console.error("Failed to migrate legacy stores", error);
+});
+await Settings.load().catch(error => {
+  console.error("Failed to load settings", error);
+});
 
 function App() {
-  const [historyItems, setHistoryItems] = useState<Array<{
-    id: string;
-    icon: string;
-    text: string;
-  }>>([]);
+  const { providers: providerConfigs, assistants, promptTemplates: templates, mcpServers, folders, autoTitle, titleModel } = useSettings();
+  const [historyItems, setHistoryItems] = useState<HistoryItem[]>([]);
+  // Read by replies that finish after the list has changed
+  const historyItemsRef = useRef(historyItems);
+  historyItemsRef.current = historyItems;
   const navigate = useNavigate();
+  const location = useLocation();
 
   useEffect(() => {
     const loadHistoryItems = async () => {
       try {
-        const savedHistoryItems = await store.get('historyItems');
-        if (savedHistoryItems) {
-          setHistoryItems(JSON.parse(savedHistoryItems as string));
-        }
+        await ChatDatabase.purgeExpiredTrash().catch(error => {
+          console.error("Failed to purge expired chats from the trash", error);
+        });
+        setHistoryItems(await ChatDatabase.listChats());
       } catch (error) {
-        console.error("Failed to load history items from store", error);
+        console.error("Failed to load history items from database", error);
       }
     };
 
     loadHistoryItems();
   }, []);
 
-  useEffect(() => {
-    const saveHistoryItems = async () => {
-      try {
-        await store.set('historyItems', JSON.stringify(historyItems));
-      } catch (error) {
-        console.error("Failed to save history items to store", error);
+  // The chat row must exist before the new route saves into it
+  const addHistoryItem = async (item: HistoryItem) => {
+    await ChatDatabase.createChat(item);
+    setHistoryItems(prev => [item, ...prev]);
+  };
+
+  // Rename, pin, archive, move or tag a chat
+  const updateHistoryItem = async (item: HistoryItem) => {
+    setHistoryItems(prev => prev.map(i => i.id === item.id ? item : i));
+    try {
+      await ChatDatabase.updateChat(item);
+    } catch (error) {
+      console.error("Failed to update chat", item.id, error);
+    }
+  };
+
+  const handleFoldersChange = async (next: ChatFolder[]) => {
+    await Settings.update({ folders: next });
+  };
+
+  // Keep the sidebar order current, and name a new chat after its first answer
+  const handleReply = async (chatId: string, exchange: ReplyExchange) => {
+    setHistoryItems(prev => prev.map(item => item.id === chatId ? { ...item, updatedAt: Date.now() } : item));
+    if (!exchange.isFirst || !autoTitle) return;
+    const target = pickTitleModel(providerConfigs, titleModel, exchange);
+    if (!target) return;
+    try {
+      const title = await generateChatTitle(target.config, target.model, chatId, exchange.question, exchange.answer, Settings.get().prices);
+      // The chat may have been renamed or deleted while the title was generated
+      const item = historyItemsRef.current.find(i => i.id === chatId);
+      if (title && item?.titleSource === 'message') {
+        await updateHistoryItem({ ...item, text: title, titleSource: 'auto' });
       }
-    };
+    } catch (error) {
+      console.error("Failed to generate chat title", error);
+    }
+  };
+
+  // Deleted chats stay restorable in the trash for a while; search skips them until restored.
+  // Rejects when the chats could not be moved, so the caller can report it
+  const trashHistoryItems = async (ids: string[]) => {
+    await ChatDatabase.trashChats(ids);
+    setHistoryItems(prev => prev.filter(i => !ids.includes(i.id)));
+    if (ids.some(id => location.pathname.endsWith(`/${id}`))) navigate('/');
+  };
 
-    saveHistoryItems();
-  }, [historyItems]);
+  const handleRestored = (items: HistoryItem[]) => {
+    setHistoryItems(prev => [...items, ...prev]);
+  };
 
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
 
   // Update function signature to return Promise<string>
-  const handleFirstMessage = async (firstMessage: string): Promise<string> => { 
+  const handleFirstMessage = async (firstMessage: string, newChat: NewChatState): Promise<string> => { 
     const newId = uuidv4();
-    const newItem = {
+    const newItem = createHistoryItem({
       id: newId,
-      icon: "💬", 
+      icon: assistants.find(a => a.id === newChat.assistantId)?.icon ?? "💬", 
       text: firstMessage
-    };
-    setHistoryItems(prev => [newItem, ...prev]);
-    navigate(`/item/${newId}`);
+    });
+    await addHistoryItem(newItem);
+    // The new chat picks up its assistant, model and first message from the navigation state
+    navigate(`/item/${newId}`, { state: newChat });
     // Return the new ID
     return newId; 
   };
 
+  // The compare view runs the comparison once the new route has loaded
+  const handleStartComparison = async (title: string, comparison: Comparison) => {
+    const newId = uuidv4();
+    try {
+      await addHistoryItem(createHistoryItem({ id: newId, icon: "⚖️", text: title, kind: 'compare' }));
+      navigate(`/compare/${newId}`, { state: comparison });
+    } catch (error) {
+      console.error("Failed to create comparison", error);
+    }
+  };
+
+  const handlePromoteComparison = async (title: string, chat: ChatRecord) => {
+    const chatId = uuidv4();
+    try {
+      await addHistoryItem(createHistoryItem({ id: chatId, icon: "💬", text: title, titleSource: 'user' }));
+      await ChatDatabase.saveChat(chatId, chat);
+      navigate(`/item/${chatId}`);
+    } catch (error) {
+      console.error("Failed to save promoted chat", error);
+    }
+  };
+
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+
+  // Open the chat containing a search result and scroll to the matched message
+  const openSearchResult = (doc: SearchDoc) => {
+    setIsSearchOpen(false);
+    if (doc.kind === 'compare') {
+      navigate(`/compare/${doc.chatId}`);
+    } else {
+      const state: FocusMessageState = { focusMessageId: doc.messageId };
+      navigate(`/item/${doc.chatId}`, { state });
+    }
+  };
+
+  const [startAssistantId, setStartAssistantId] = useState(DEFAULT_ASSISTANT_ID);
+  const [isAssistantLibraryOpen, setIsAssistantLibraryOpen] = useState(false);
+
+  const handleAssistantsChange = async (next: Assistant[]) => {
+    await Settings.update({ assistants: next });
+  };
+
+  // Open a blank chat that will use the given assistant
+  const startChatWithAssistant = (assistantId: string) => {
+    setStartAssistantId(assistantId);
+    setIsAssistantLibraryOpen(false);
+    navigate('/');
+  };
+
+  const handleTemplatesChange = async (next: PromptTemplate[]) => {
+    await Settings.update({ promptTemplates: next });
+  };
+
+  // Start the enabled MCP servers
+  useEffect(() => {
+    for (const server of Settings.get().mcpServers.filter(s => s.enabled && s.command.trim())) {
+      McpService.startServer(server).catch(error => {
+        console.error(`启动 MCP 服务 ${server.name} 失败:`, error);
+      });
+    }
+  }, []);
+
+  const handleMcpServersChange = async (servers: McpServerConfig[]) => {
+    await Settings.update({ mcpServers: servers });
+  };
+
   const [isSidebarOpen, setIsSidebarOpen] = useState(true); // Start expanded
   const [isSettingsModalOpen, setIsSettingsModalOpen] = useState(false);
   const [activeTab, setActiveTab] = useState('model');
-  const [providers, _] = useState([
-    { id: 'openai', name: 'OpenAI' },
-    { id: 'anthropic', name: 'Anthropic' },
-    { id: 'google', name: 'Google' }
-  ]);
-  interface ProviderConfig {
-    apiKey: string;
-    baseUrl: string;
-    modelName: string;
-    availableModels: string[];
-  }
-
-  const [activeProvider, setActiveProvider] = useState<'openai' | 'anthropic' | 'google'>('openai');
-  const [providerConfigs, setProviderConfigs] = useState<{
-    openai: ProviderConfig;
-    anthropic: ProviderConfig;
-    google: ProviderConfig;
-  }>({
-    openai: {
-      apiKey: '',
-      baseUrl: 'https://api.openai.com/v1',
-      modelName: 'gpt-3.5-turbo',
-      availableModels: ['gpt-3.5-turbo', 'gpt-4', 'gpt-4-turbo']
-    },
-    anthropic: {
-      apiKey: '',
-      baseUrl: 'https://api.anthropic.com/v1',
-      modelName: 'claude-3-opus',
-      availableModels: ['claude-3-opus', 'claude-3-sonnet', 'claude-3-haiku']
-    },
-    google: {
-      apiKey: '',
-      baseUrl: 'https://generativelanguage.googleapis.com/v1',
-      modelName: 'gemini-pro',
-      availableModels: ['gemini-pro', 'gemini-ultra']
-    }
-  });
+  const [activeProviderId, setActiveProviderId] = useState<string | null>(() => Settings.get().providers[0]?.id ?? null);
 
   useEffect(() => {
     // 自动展开侧边栏当窗口宽度大于1024px
@@ -120,37 +219,56 @@ function App() {
     };
   }, []);
 
-  // Load all provider configs from localStorage on initial mount
+  const [vaultStatus, setVaultStatus] = useState<VaultStatus>({ initialized: false, unlocked: false });
+  const [isVaultModalOpen, setIsVaultModalOpen] = useState(false);
+
   useEffect(() => {
-    const loadedConfigs = { ...providerConfigs }; // Start with defaults
-
-    const loadConfigs = async () => {
-      let loadedConfigsMutable = { ...loadedConfigs };
-      let needsUpdateMutable = false;
-      for (const provider of providers) {
-        const savedConfigStr = await store.get(`aiConfig_${provider.id}`);
-        if (savedConfigStr) {
-          try {
-            const savedConfig = JSON.parse(savedConfigStr as string) as Partial<ProviderConfig>;
-            // Merge saved config into the default config for this provider
-            loadedConfigsMutable[provider.id as keyof typeof loadedConfigs] = {
-              ...loadedConfigsMutable[provider.id as keyof typeof loadedConfigs], // Keep defaults
-              ...savedConfig // Overwrite with saved values
-            };
-            needsUpdateMutable = true;
-          } catch (error) {
-            console.error(`解析 ${provider.name} 的保存配置失败:`, error);
-          }
+    const checkVault = async () => {
+      try {
+        const status = await KeyVault.status();
+        setVaultStatus(status);
+        // Ask for the passphrase up front when saved keys need it or plaintext keys still need moving into the vault
+        if (!status.unlocked && (status.initialized || hasPlaintextKeys(Settings.get().providers))) {
+          setIsVaultModalOpen(true);
         }
-      }
-      if (needsUpdateMutable) {
-        setProviderConfigs(loadedConfigsMutable);
+      } catch (error) {
+        console.error("Failed to read the key vault status", error);
       }
     };
 
-    loadConfigs();
-  }, [providers]);
+    checkVault();
+  }, []);
+
+  const updateProviderConfigs = async (configs: ProviderConfig[]) => {
+    await Settings.update({ providers: configs });
+  };
+
 
+  const handleVaultUnlocked = async () => {
+    setIsVaultModalOpen(false);
+    setVaultStatus(await KeyVault.status());
+    if (hasPlaintextKeys(providerConfigs)) {
+      try {
+        await updateProviderConfigs(await migratePlaintextKeys(providerConfigs));
+      } catch (error) {
+        console.error("Failed to move API keys into the vault", error);
+      }
+    }
+  };
+
+  const handleVaultReset = async () => {
+    setVaultStatus(await KeyVault.status());
+    await updateProviderConfigs(providerConfigs.map(config => ({ ...config, hasApiKey: false })));
+  };
+
+  const toggleVaultLock = async () => {
+    if (!vaultStatus.unlocked) {
+      setIsVaultModalOpen(true);
+      return;
+    }
+    await KeyVault.lock();
+    setVaultStatus(await KeyVault.status());
+  };
 
   const toggleSidebar = () => {
     console.log('当前状态:', isSidebarOpen);
@@ -173,10 +291,20 @@ function App() {
            </button>
            {/* Right Buttons */}
            <div className="flex space-x-1 ml-auto">
-             <button className="p-1 rounded hover:bg-gray-700 text-gray-400" title="搜索">
+             <button className="p-1 rounded hover:bg-gray-700 text-gray-400" title="搜索" onClick={() => setIsSearchOpen(true)}>
                🔍
              </button>
-             <Link to="/" onClick={() => navigate('/')} className="p-1 rounded hover:bg-gray-700 text-gray-400" title="新建聊天">
+             <button className="p-1 rounded hover:bg-gray-700 text-gray-400" title="回收站" onClick={() => setIsTrashOpen(true)}>
+               🗑️
+             </button>
+             <button
+               className="p-1 rounded hover:bg-gray-700 text-gray-400"
+               title={vaultStatus.unlocked ? '锁定密钥库' : vaultStatus.initialized ? '解锁密钥库' : '设置主密码'}
+               onClick={toggleVaultLock}
+             >
+               {vaultStatus.unlocked ? '🔓' : '🔒'}
+             </button>
+             <Link to="/" onClick={() => startChatWithAssistant(DEFAULT_ASSISTANT_ID)} className="p-1 rounded hover:bg-gray-700 text-gray-400" title="新建聊天">
                ➕
              </Link>
              <button 
@@ -194,15 +322,30 @@ function App() {
           {/* Fixed Top Options */}
           <div className="flex-shrink-0 p-3">
             <div className="space-y-1">
-              <button className="flex items-center w-full p-2 rounded hover:bg-gray-700 text-sm">
+              <button
+                className="flex items-center w-full p-2 rounded hover:bg-gray-700 text-sm"
+                onClick={() => startChatWithAssistant(DEFAULT_ASSISTANT_ID)}
+              >
                 <span className="mr-2">💬</span> ChatGPT
               </button>
-              <button className="flex items-center w-full p-2 rounded hover:bg-gray-700 text-sm">
+              <button
+                className="flex items-center w-full p-2 rounded hover:bg-gray-700 text-sm"
+                onClick={() => startChatWithAssistant(WRITING_ASSISTANT_ID)}
+              >
                 <span className="mr-2">✍️</span> Write For Me
               </button>
-              <button className="flex items-center w-full p-2 rounded hover:bg-gray-700 text-sm">
+              <button
+                className="flex items-center w-full p-2 rounded hover:bg-gray-700 text-sm"
+                onClick={() => setIsAssistantLibraryOpen(true)}
+              >
                 <span className="mr-2">🧩</span> 探索 GPT
               </button>
+              <button
+                className="flex items-center w-full p-2 rounded hover:bg-gray-700 text-sm"
+                onClick={() => navigate('/compare')}
+              >
+                <span className="mr-2">⚖️</span> 模型对比
+              </button>
             </div>
           </div>
 
@@ -211,29 +354,17 @@ function App() {
             maxHeight: 'calc(100vh - 200px)',
             minHeight: '200px'
           }}>
-            <div className="space-y-1">
-              {historyItems.map((item) => (
-                <div key={item.id} className="group relative">
-                  <button 
-                    onClick={() => navigate(`/item/${item.id}`)}
-                    className="flex items-center w-full p-2 rounded hover:bg-gray-700 text-sm text-gray-300 text-left"
-                  >
-                    <span className="mr-2">{item.icon}</span>
-                    <span className="truncate">{item.text}</span> 
-                  </button>
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      setHistoryItems(prev => prev.filter(i => i.id !== item.id));
-                    }}
-                    className="absolute right-2 top-1/2 -translate-y-1/2 p-1 rounded text-gray-400 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
-                    title="删除"
-                  >
-                    ×
-                  </button>
-                </div>
-              ))}
-            </div>
+            <HistoryList
+              items={historyItems}
+              folders={folders}
+              onOpen={(item) => navigate(item.kind === 'compare' ? `/compare/${item.id}` : `/item/${item.id}`)}
+              onUpdate={updateHistoryItem}
+              onDelete={(item) => trashHistoryItems([item.id]).catch(error => {
+                console.error("Failed to move chat to the trash", item.id, error);
+                alert(`移到回收站失败: ${error instanceof Error ? error.message : String(error)}`);
+              })}
+              onFoldersChange={handleFoldersChange}
+            />
           </div>
 
         </div>
@@ -247,12 +378,12 @@ function App() {
             <MainArea 
               isSidebarOpen={isSidebarOpen} 
               toggleSidebar={toggleSidebar}
-              providers={providers.map(p => ({
-                name: p.name,
-                models: providerConfigs[p.id as 'openai'|'anthropic'|'google'].availableModels
-              }))}
               providerConfigs={providerConfigs}
+              assistants={assistants}
+              templates={templates}
+              startAssistantId={startAssistantId}
               onFirstMessage={handleFirstMessage}
+              onReply={handleReply}
             />}
         />
         <Route 
@@ -261,16 +392,61 @@ function App() {
             <MainArea 
               isSidebarOpen={isSidebarOpen} 
               toggleSidebar={toggleSidebar}
-              providers={providers.map(p => ({
-                name: p.name,
-                models: providerConfigs[p.id as 'openai'|'anthropic'|'google'].availableModels
-              }))}
               providerConfigs={providerConfigs}
+              assistants={assistants}
+              templates={templates}
+              startAssistantId={startAssistantId}
               onFirstMessage={handleFirstMessage}
+              onReply={handleReply}
+            />}
+        />
+        <Route
+          path="/compare/:compareId"
+          element={
+            <CompareArea
+              isSidebarOpen={isSidebarOpen}
+              toggleSidebar={toggleSidebar}
+              providerConfigs={providerConfigs}
+              onStart={handleStartComparison}
+              onPromote={handlePromoteComparison}
+            />}
+        />
+        <Route
+          path="/compare"
+          element={
+            <CompareArea
+              isSidebarOpen={isSidebarOpen}
+              toggleSidebar={toggleSidebar}
+              providerConfigs={providerConfigs}
+              onStart={handleStartComparison}
+              onPromote={handlePromoteComparison}
             />}
         />
       </Routes>
 
+      {isSearchOpen && (
+        <SearchPanel
+          providerConfigs={providerConfigs}
+          chatTitles={Object.fromEntries(historyItems.map(item => [item.id, item.text]))}
+          onOpen={openSearchResult}
+          onClose={() => setIsSearchOpen(false)}
+        />
+      )}
+
+      {isAssistantLibraryOpen && (
+        <AssistantLibrary
+          assistants={assistants}
+          providerConfigs={providerConfigs}
+          onAssistantsChange={handleAssistantsChange}
+          onStartChat={startChatWithAssistant}
+          onClose={() => setIsAssistantLibraryOpen(false)}
+        />
+      )}
+
+      {isTrashOpen && (
+        <TrashModal onRestored={handleRestored} onClose={() => setIsTrashOpen(false)} />
+      )}
+
       {/* Settings Modal */}
       {isSettingsModalOpen && (
         <div className="fixed inset-0 bg-gray-900/80 bg-opacity-50 flex items-center justify-center z-50">
@@ -292,38 +468,98 @@ function App() {
               >
                 模型配置
               </button>
+              <button 
+                className={`px-4 py-2 text-sm font-medium ${activeTab === 'defaults' ? 'text-white border-b-2 border-blue-500' : 'text-gray-400 hover:text-white'}`}
+                onClick={() => setActiveTab('defaults')}
+              >
+                默认参数
+              </button>
               <button 
                 className={`px-4 py-2 text-sm font-medium ${activeTab === 'theme' ? 'text-white border-b-2 border-blue-500' : 'text-gray-400 hover:text-white'}`}
                 onClick={() => setActiveTab('theme')}
               >
                 主题
               </button>
+              <button 
+                className={`px-4 py-2 text-sm font-medium ${activeTab === 'mcp' ? 'text-white border-b-2 border-blue-500' : 'text-gray-400 hover:text-white'}`}
+                onClick={() => setActiveTab('mcp')}
+              >
+                MCP
+              </button>
+              <button 
+                className={`px-4 py-2 text-sm font-medium ${activeTab === 'usage' ? 'text-white border-b-2 border-blue-500' : 'text-gray-400 hover:text-white'}`}
+                onClick={() => setActiveTab('usage')}
+              >
+                用量
+              </button>
+              <button 
+                className={`px-4 py-2 text-sm font-medium ${activeTab === 'templates' ? 'text-white border-b-2 border-blue-500' : 'text-gray-400 hover:text-white'}`}
+                onClick={() => setActiveTab('templates')}
+              >
+                模板
+              </button>
+              <button 
+                className={`px-4 py-2 text-sm font-medium ${activeTab === 'data' ? 'text-white border-b-2 border-blue-500' : 'text-gray-400 hover:text-white'}`}
+                onClick={() => setActiveTab('data')}
+              >
+                导入导出
+              </button>
+              <button 
+                className={`px-4 py-2 text-sm font-medium ${activeTab === 'storage' ? 'text-white border-b-2 border-blue-500' : 'text-gray-400 hover:text-white'}`}
+                onClick={() => setActiveTab('storage')}
+              >
+                存储
+              </button>
             </div>
 
             {/* Tab Content */}
             <div className="py-4">
               {activeTab === 'model' && (
                 <ModelConfigTab 
-                  providers={providers}
-                  activeProvider={activeProvider}
-                  onProviderChange={(provider) => setActiveProvider(provider as 'openai' | 'anthropic' | 'google')}
-                  config={providerConfigs[activeProvider]}
-                  onConfigChange={async (newConfig: ProviderConfig) => {
-                    const newProviderConfigs = {
-                      ...providerConfigs,
-                      [activeProvider]: newConfig
-                    };
-                    setProviderConfigs(newProviderConfigs);
-                    await store.set(`aiConfig_${activeProvider}`, JSON.stringify(newConfig));
-                    await store.save();
-                  }}
+                  providerConfigs={providerConfigs}
+                  activeProviderId={activeProviderId}
+                  onProviderChange={setActiveProviderId}
+                  onProviderConfigsChange={updateProviderConfigs}
+                  vaultStatus={vaultStatus}
+                  onRequestUnlock={() => setIsVaultModalOpen(true)}
                 />
               )}
+              {activeTab === 'defaults' && <ChatDefaultsTab />}
               {activeTab === 'theme' && <ThemeConfigTab />}
+              {activeTab === 'mcp' && (
+                <McpConfigTab servers={mcpServers} onServersChange={handleMcpServersChange} />
+              )}
+              {activeTab === 'templates' && (
+                <PromptTemplatesTab templates={templates} onTemplatesChange={handleTemplatesChange} />
+              )}
+              {activeTab === 'usage' && (
+                <UsageTab
+                  providerConfigs={providerConfigs}
+                  chatTitles={Object.fromEntries(historyItems.map(item => [item.id, item.text]))}
+                />
+              )}
+              {activeTab === 'data' && (
+                <DataTab
+                  historyItems={historyItems}
+                  providerConfigs={providerConfigs}
+                  onImport={(items) => setHistoryItems(prev => [...items, ...prev])}
+                />
+              )}
+              {activeTab === 'storage' && <StorageTab onTrash={trashHistoryItems} />}
             </div>
           </div>
         </div>
       )}
+
+      {/* Rendered last so it stays above the settings modal that can open it */}
+      {isVaultModalOpen && (
+        <VaultUnlockModal
+          status={vaultStatus}
+          onUnlocked={handleVaultUnlocked}
+          onReset={handleVaultReset}
+          onClose={() => setIsVaultModalOpen(false)}
+        />
+      )}
     </div>
   );
 }
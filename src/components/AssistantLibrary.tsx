@@ -0,0 +1,223 @@
+import { useState, useEffect } from 'react';
+import { Assistant, DEFAULT_ASSISTANT_ID, createAssistant } from '../services/Assistant';
+import { ProviderConfig } from '../services/ProviderConfig';
+
+interface AssistantLibraryProps {
+  assistants: Assistant[];
+  providerConfigs: ProviderConfig[];
+  onAssistantsChange: (assistants: Assistant[]) => void;
+  onStartChat: (assistantId: string) => void;
+  onClose: () => void;
+}
+
+export default function AssistantLibrary({
+  assistants,
+  providerConfigs,
+  onAssistantsChange,
+  onStartChat,
+  onClose
+}: AssistantLibraryProps) {
+  const [activeId, setActiveId] = useState<string | null>(assistants[0]?.id ?? null);
+  const [startersText, setStartersText] = useState('');
+
+  const active = assistants.find(a => a.id === activeId);
+  const activeProvider = providerConfigs.find(p => p.id === active?.providerId);
+
+  // Starter messages are edited one per line
+  useEffect(() => {
+    setStartersText(active?.starterMessages.join('\n') ?? '');
+  }, [activeId]);
+
+  const updateAssistant = (patch: Partial<Assistant>) => {
+    if (!active) return;
+    onAssistantsChange(assistants.map(a => a.id === active.id ? { ...a, ...patch } : a));
+  };
+
+  const handleAdd = () => {
+    const assistant = createAssistant();
+    onAssistantsChange([...assistants, assistant]);
+    setActiveId(assistant.id);
+  };
+
+  const handleRemove = () => {
+    if (!active || !confirm(`确定删除助手「${active.name}」吗？`)) return;
+    const remaining = assistants.filter(a => a.id !== active.id);
+    onAssistantsChange(remaining);
+    setActiveId(remaining[0]?.id ?? null);
+  };
+
+  // Empty number inputs fall back to the chat's own settings
+  const updateAiConfig = (key: 'temperature' | 'max_tokens', value: string) => {
+    const { [key]: _removed, ...rest } = active?.aiConfig ?? {};
+    const parsed = parseFloat(value);
+    updateAssistant({ aiConfig: isNaN(parsed) ? rest : { ...rest, [key]: parsed } });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900/80 bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg p-6 w-2/3">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-white">探索助手</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            ×
+          </button>
+        </div>
+
+        <div className="flex h-[480px]">
+          {/* 左侧助手列表 */}
+          <div className="w-56 border-r border-gray-700 overflow-y-auto">
+            <div className="p-2 space-y-1">
+              {assistants.map(assistant => (
+                <button
+                  key={assistant.id}
+                  className={`text-white w-full text-left p-2 rounded text-sm flex items-center ${
+                    activeId === assistant.id ? 'bg-gray-700' : 'hover:bg-gray-700'
+                  }`}
+                  onClick={() => setActiveId(assistant.id)}
+                >
+                  <span className="mr-2">{assistant.icon}</span>
+                  <span className="truncate">{assistant.name}</span>
+                </button>
+              ))}
+              <button
+                className="w-full text-left p-2 rounded text-sm text-blue-400 hover:bg-gray-700"
+                onClick={handleAdd}
+              >
+                ➕ 新建助手
+              </button>
+            </div>
+          </div>
+
+          {/* 右侧编辑面板 */}
+          <div className="flex-1 p-4 overflow-y-auto">
+            {active ? (
+              <div className="space-y-4 text-sm">
+                <div className="flex gap-2">
+                  <div className="w-20">
+                    <label className="block font-medium text-gray-300 mb-1">图标</label>
+                    <input
+                      className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-white text-center"
+                      value={active.icon}
+                      onChange={(e) => updateAssistant({ icon: e.target.value })}
+                    />
+                  </div>
+                  <div className="flex-1">
+                    <label className="block font-medium text-gray-300 mb-1">名称</label>
+                    <input
+                      className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-white"
+                      value={active.name}
+                      onChange={(e) => updateAssistant({ name: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block font-medium text-gray-300 mb-1">简介</label>
+                  <input
+                    className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-white"
+                    value={active.description}
+                    onChange={(e) => updateAssistant({ description: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block font-medium text-gray-300 mb-1">系统提示词</label>
+                  <textarea
+                    rows={5}
+                    className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-white"
+                    value={active.systemPrompt}
+                    onChange={(e) => updateAssistant({ systemPrompt: e.target.value })}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <div className="flex-1">
+                    <label className="block font-medium text-gray-300 mb-1">默认服务商</label>
+                    <select
+                      className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-white"
+                      value={active.providerId ?? ''}
+                      onChange={(e) => {
+                        const provider = providerConfigs.find(p => p.id === e.target.value);
+                        updateAssistant({ providerId: provider?.id, model: provider?.modelName });
+                      }}
+                    >
+                      <option value="">沿用当前选择</option>
+                      {providerConfigs.map(provider => (
+                        <option key={provider.id} value={provider.id}>{provider.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex-1">
+                    <label className="block font-medium text-gray-300 mb-1">默认模型</label>
+                    <select
+                      className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-white disabled:opacity-50"
+                      value={active.model ?? ''}
+                      disabled={!activeProvider}
+                      onChange={(e) => updateAssistant({ model: e.target.value })}
+                    >
+                      {activeProvider?.availableModels.map(model => (
+                        <option key={model} value={model}>{model}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <div className="flex-1">
+                    <label className="block font-medium text-gray-300 mb-1">温度</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="2"
+                      step="0.1"
+                      className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-white"
+                      placeholder="沿用对话设置"
+                      value={active.aiConfig?.temperature ?? ''}
+                      onChange={(e) => updateAiConfig('temperature', e.target.value)}
+                    />
+                  </div>
+                  <div className="flex-1">
+                    <label className="block font-medium text-gray-300 mb-1">最大长度</label>
+                    <input
+                      type="number"
+                      min="1"
+                      className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-white"
+                      placeholder="沿用对话设置"
+                      value={active.aiConfig?.max_tokens ?? ''}
+                      onChange={(e) => updateAiConfig('max_tokens', e.target.value)}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block font-medium text-gray-300 mb-1">开场消息（每行一条）</label>
+                  <textarea
+                    rows={3}
+                    className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-white"
+                    value={startersText}
+                    onChange={(e) => setStartersText(e.target.value)}
+                    onBlur={() => updateAssistant({ starterMessages: startersText.split('\n').map(s => s.trim()).filter(Boolean) })}
+                  />
+                </div>
+
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => onStartChat(active.id)}
+                    className="flex-1 px-3 py-2 bg-green-600 hover:bg-green-700 rounded text-white"
+                  >
+                    开始对话
+                  </button>
+                  {active.id !== DEFAULT_ASSISTANT_ID && (
+                    <button
+                      onClick={handleRemove}
+                      className="px-3 py-2 bg-red-600 hover:bg-red-700 rounded text-white"
+                    >
+                      删除
+                    </button>
+                  )}
+                </div>
+              </div>
+            ) : (
+              <div className="text-gray-400 text-sm">选择或新建一个助手</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
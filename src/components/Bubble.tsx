@@ -2,13 +2,28 @@ import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import rehypeHighlight from 'rehype-highlight';
 import 'highlight.js/styles/atom-one-dark.css';
-import { useRef, useState } from 'react';
-import { Copy, Check, Terminal } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { Copy, Check, Terminal, Wrench, AlertTriangle, RotateCcw, RefreshCw, Pencil, ChevronLeft, ChevronRight } from 'lucide-react';
+import { ImageAttachment, imageToDataUrl } from '../services/AIService';
+import { AIErrorInfo, ERROR_KIND_LABELS } from '../services/AIError';
+import { ToolCallRecord } from '../services/ChatRecord';
 
 interface BubbleProps {
   content: string;
   isUser: boolean;
   isStreaming?: boolean;
+  isStopped?: boolean;
+  images?: ImageAttachment[];
+  toolCalls?: ToolCallRecord[];
+  error?: AIErrorInfo;
+  onRetry?: () => void;
+  onRegenerate?: () => void;
+  // Position among sibling branches (edited prompts or candidate replies); navigation is shown when count > 1
+  branch?: { index: number; count: number };
+  onBranchChange?: (offset: number) => void;
+  onEdit?: (content: string) => void;
+  // Scrolled into view and outlined, e.g. when opened from search
+  highlighted?: boolean;
 }
 
 const CopyButton = ({ el }: { el: React.RefObject<HTMLElement> }) => {
@@ -73,20 +88,123 @@ const CodeBlockWithCopy = ({ node, className, children, ...props }: any) => {
 };
 
 
-export default function Bubble({ content, isUser, isStreaming = false }: BubbleProps) {
+const ToolCallList = ({ toolCalls }: { toolCalls: ToolCallRecord[] }) => (
+  <div className="space-y-1 mb-2">
+    {toolCalls.map(call => (
+      <details key={call.id} className="text-xs bg-gray-100 rounded border border-gray-300">
+        <summary className="flex items-center gap-1 px-2 py-1 cursor-pointer text-gray-600">
+          <Wrench size={12} />
+          <span className="font-mono">{call.name}</span>
+          <span className="ml-auto text-gray-400">{call.result === undefined ? '调用中...' : '已完成'}</span>
+        </summary>
+        <pre className="px-2 py-1 whitespace-pre-wrap break-all text-gray-700">{JSON.stringify(call.arguments, null, 2)}</pre>
+        {call.result !== undefined && (
+          <pre className="px-2 py-1 whitespace-pre-wrap break-all text-gray-500 border-t border-gray-300 max-h-40 overflow-y-auto">{call.result}</pre>
+        )}
+      </details>
+    ))}
+  </div>
+);
+
+export default function Bubble({
+  content,
+  isUser,
+  isStreaming = false,
+  isStopped = false,
+  images,
+  toolCalls,
+  error,
+  onRetry,
+  onRegenerate,
+  branch,
+  onBranchChange,
+  onEdit,
+  highlighted = false
+}: BubbleProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(content);
+  const [copied, setCopied] = useState(false);
+  const wrapperRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (highlighted) wrapperRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [highlighted]);
+
   const bubbleClasses = isUser
-    ? "bg-blue-500 text-white self-end"
-    : "bg-gray-200 text-gray-800 self-start";
+    ? "bg-blue-500 text-white"
+    : "bg-gray-200 text-gray-800";
+
+  const startEditing = () => {
+    setDraft(content);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    setIsEditing(false);
+    if (draft !== content) onEdit?.(draft);
+  };
+
+  const copyContent = async () => {
+    try {
+      await navigator.clipboard.writeText(content);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1000);
+    } catch (error) {
+      console.error('复制失败:', error);
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <div className="self-end w-full max-w-xl mb-2">
+        <textarea
+          className="w-full p-2 border rounded-lg resize-none"
+          rows={4}
+          value={draft}
+          autoFocus
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) submitEdit();
+            if (e.key === 'Escape') setIsEditing(false);
+          }}
+        />
+        <div className="flex justify-end gap-2 mt-1 text-sm">
+          <button onClick={() => setIsEditing(false)} className="px-3 py-1 rounded border hover:bg-gray-100">
+            取消
+          </button>
+          <button onClick={submitEdit} className="px-3 py-1 rounded bg-blue-500 text-white hover:bg-blue-600">
+            保存并发送
+          </button>
+        </div>
+      </div>
+    );
+  }
 
-  // Removed the console.log added for debugging previously
+  const showBranchNav = branch && branch.count > 1;
+  const branchLabel = isUser ? '分支' : '候选回复';
+  const canCopy = !isStreaming && content.length > 0;
 
   return (
-    <div className={`p-3 rounded-lg max-w-xl mb-2 relative ${bubbleClasses}`}>
+    <div ref={wrapperRef} className={`flex flex-col max-w-xl mb-2 ${isUser ? 'self-end items-end' : 'self-start items-start'}`}>
+    <div className={`p-3 rounded-lg relative ${bubbleClasses} ${highlighted ? 'ring-2 ring-yellow-400' : ''}`}>
       {isStreaming && (
         <div className="absolute -bottom-1 left-0 w-full h-1 bg-gray-300 rounded-full overflow-hidden">
           <div className="h-full bg-blue-500 animate-pulse" style={{width: '50%'}}></div>
          </div>
        )}
+       {images && images.length > 0 && (
+         <div className="flex flex-wrap gap-2 mb-2">
+           {images.map(image => (
+             <img
+               key={image.id}
+               src={imageToDataUrl(image)}
+               alt={image.name}
+               className="max-h-32 max-w-[12rem] object-contain rounded bg-white/20"
+             />
+           ))}
+         </div>
+       )}
+       {toolCalls && toolCalls.length > 0 && <ToolCallList toolCalls={toolCalls} />}
        {/* Restore ReactMarkdown */}
        <ReactMarkdown
          remarkPlugins={[remarkGfm]}
@@ -107,6 +225,68 @@ export default function Bubble({ content, isUser, isStreaming = false }: BubbleP
        >
          {content}
        </ReactMarkdown>
+       {isStopped && (
+         <div className="mt-1 text-xs text-gray-500">已停止生成</div>
+       )}
+       {error && (
+         <div className="mt-2 rounded border border-red-300 bg-red-50 px-3 py-2 text-sm text-red-700">
+           <div className="flex items-center gap-1 font-medium">
+             <AlertTriangle size={14} />
+             {ERROR_KIND_LABELS[error.kind]}
+             {error.status && <span className="text-xs font-normal text-red-500">({error.status})</span>}
+           </div>
+           <div className="mt-1 break-words">{error.message}</div>
+           {onRetry && (
+             <button
+               onClick={onRetry}
+               className="mt-2 flex items-center gap-1 text-xs text-red-700 hover:text-red-900"
+             >
+               <RotateCcw size={12} /> 重试
+             </button>
+           )}
+         </div>
+       )}
      </div>
+     {(showBranchNav || onEdit || onRegenerate || canCopy) && (
+       <div className="flex items-center gap-1 mt-1 text-xs text-gray-500">
+         {showBranchNav && (
+           <>
+             <button
+               onClick={() => onBranchChange?.(-1)}
+               disabled={!onBranchChange || branch.index === 0}
+               className="p-0.5 rounded hover:bg-gray-200 disabled:opacity-40"
+               title={`上一个${branchLabel}`}
+             >
+               <ChevronLeft size={14} />
+             </button>
+             <span>{branch.index + 1}/{branch.count}</span>
+             <button
+               onClick={() => onBranchChange?.(1)}
+               disabled={!onBranchChange || branch.index === branch.count - 1}
+               className="p-0.5 rounded hover:bg-gray-200 disabled:opacity-40"
+               title={`下一个${branchLabel}`}
+             >
+               <ChevronRight size={14} />
+             </button>
+           </>
+         )}
+         {canCopy && (
+           <button onClick={copyContent} className="p-0.5 rounded hover:bg-gray-200" title="复制">
+             {copied ? <Check size={14} className="text-green-500" /> : <Copy size={14} />}
+           </button>
+         )}
+         {onEdit && (
+           <button onClick={startEditing} className="p-0.5 rounded hover:bg-gray-200" title="编辑后重新发送">
+             <Pencil size={14} />
+           </button>
+         )}
+         {onRegenerate && (
+           <button onClick={onRegenerate} className="p-0.5 rounded hover:bg-gray-200" title="重新生成">
+             <RefreshCw size={14} />
+           </button>
+         )}
+       </div>
+     )}
+    </div>
    );
 }
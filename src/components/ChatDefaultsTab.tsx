@@ -0,0 +1,103 @@
+import { AIConfig } from '../services/AIService';
+import { Settings, useSettings } from '../services/Settings';
+
+interface FieldSpec {
+  key: keyof AIConfig;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  // Whole numbers get a number box, the rest a slider
+  integer?: boolean;
+}
+
+const FIELDS: FieldSpec[] = [
+  { key: 'temperature', label: '温度 (Temperature)', min: 0, max: 2, step: 0.1 },
+  { key: 'max_tokens', label: '最大长度 (Max Tokens)', min: 1, max: 1_000_000, step: 1, integer: true },
+  { key: 'top_p', label: 'Top P', min: 0, max: 1, step: 0.1 },
+  { key: 'frequency_penalty', label: '频率惩罚 (Frequency Penalty)', min: 0, max: 2, step: 0.1 },
+  { key: 'presence_penalty', label: '存在惩罚 (Presence Penalty)', min: 0, max: 2, step: 0.1 },
+  { key: 'candidate_count', label: '候选回复数', min: 1, max: 4, step: 1, integer: true }
+];
+
+const titleModelValue = (providerId: string, model: string) => `${providerId}|${model}`;
+
+// Defaults for every chat; parameters changed inside a chat keep overriding these
+// A cheaper model can be picked for naming chats
+export default function ChatDefaultsTab() {
+  const { chatDefaults, providers, autoTitle, titleModel } = useSettings();
+
+  const update = (key: keyof AIConfig, value: number) => {
+    if (isNaN(value)) return;
+    Settings.update({ chatDefaults: { ...chatDefaults, [key]: value } });
+  };
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="text-xs text-gray-400">
+        修改后立即应用到所有对话中未单独调整过的参数
+      </div>
+      {FIELDS.map(field => (
+        <div key={field.key}>
+          <div className="flex justify-between mb-1">
+            <label className="font-medium text-gray-300">{field.label}</label>
+            <span className="text-gray-400">{chatDefaults[field.key]}</span>
+          </div>
+          {field.integer ? (
+            <input
+              type="number"
+              min={field.min}
+              max={field.max}
+              value={chatDefaults[field.key]}
+              onChange={(e) => update(field.key, parseInt(e.target.value))}
+              className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-white"
+            />
+          ) : (
+            <input
+              type="range"
+              min={field.min}
+              max={field.max}
+              step={field.step}
+              value={chatDefaults[field.key]}
+              onChange={(e) => update(field.key, parseFloat(e.target.value))}
+              className="w-full"
+            />
+          )}
+        </div>
+      ))}
+
+      <div className="pt-4 border-t border-gray-700 space-y-2">
+        <label className="flex items-center gap-2 font-medium text-gray-300">
+          <input
+            type="checkbox"
+            checked={autoTitle}
+            onChange={(e) => Settings.update({ autoTitle: e.target.checked })}
+          />
+          自动生成对话标题
+        </label>
+        <div className="text-xs text-gray-400">
+          第一轮问答后用模型生成简短标题；手动重命名过的对话不会被替换。未指定模型且服务商没有小模型时不生成标题
+        </div>
+        <select
+          disabled={!autoTitle}
+          value={titleModel ? titleModelValue(titleModel.providerId, titleModel.model) : ''}
+          onChange={(e) => {
+            // Model names may contain the separator, provider ids don't
+            const index = e.target.value.indexOf('|');
+            Settings.update({
+              titleModel: index === -1 ? null : { providerId: e.target.value.slice(0, index), model: e.target.value.slice(index + 1) }
+            });
+          }}
+          className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-white disabled:opacity-50"
+        >
+          <option value="">自动选择对话服务商的小模型</option>
+          {providers.map(provider => provider.availableModels.map(model => (
+            <option key={titleModelValue(provider.id, model)} value={titleModelValue(provider.id, model)}>
+              {provider.name} · {model}
+            </option>
+          )))}
+        </select>
+      </div>
+    </div>
+  );
+}
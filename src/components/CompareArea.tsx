@@ -0,0 +1,363 @@
+import { useParams, useLocation, Link } from 'react-router-dom';
+import { useState, useRef, useEffect } from 'react';
+import Bubble from './Bubble';
+import { AIServiceFactory, ChatMessage, isAbortError, toApiOptions } from '../services/AIService';
+import { AIError } from '../services/AIError';
+import { ProviderConfig, isProviderReady } from '../services/ProviderConfig';
+import { UsageService } from '../services/UsageService';
+import { estimateConversationTokens, estimateTokens } from '../services/ContextManager';
+import { SearchService, comparisonDocuments } from '../services/SearchService';
+import { ChatDatabase, STREAM_SAVE_INTERVAL_MS } from '../services/Database';
+import { ChatRecord } from '../services/ChatRecord';
+import { useSettings } from '../services/Settings';
+import {
+  CompareColumn,
+  CompareTarget,
+  Comparison,
+  MAX_COMPARE_TARGETS,
+  MIN_COMPARE_TARGETS,
+  comparisonToChat,
+  createComparison,
+  runCompareColumn
+} from '../services/Comparison';
+
+const formatDuration = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const targetKey = (target: CompareTarget) => `${target.providerId}::${target.model}`;
+
+interface CompareAreaProps {
+  isSidebarOpen: boolean;
+  toggleSidebar: () => void;
+  providerConfigs: ProviderConfig[];
+  // Creates the history item and opens /compare/:id, which starts the run
+  onStart: (title: string, comparison: Comparison) => void;
+  // Saves a column as a new normal chat and opens it
+  onPromote: (title: string, chat: ChatRecord) => void;
+}
+
+export default function CompareArea({ isSidebarOpen, toggleSidebar, providerConfigs, onStart, onPromote }: CompareAreaProps) {
+  const { compareId } = useParams<{ compareId: string }>();
+  const location = useLocation();
+  const { chatDefaults, prices, budget } = useSettings();
+
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [targets, setTargets] = useState<CompareTarget[]>([]);
+  const [prompt, setPrompt] = useState('');
+  const [isRunning, setIsRunning] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Only providers that can actually be called are offered
+  const usableProviders = providerConfigs.filter(isProviderReady);
+  const options = usableProviders.flatMap(provider =>
+    provider.availableModels.map(model => ({ providerId: provider.id, model, label: `${provider.name} · ${model}` }))
+  );
+
+  // Preselect the first few models on a blank comparison
+  useEffect(() => {
+    if (targets.length === 0 && options.length > 0) {
+      setTargets(options.slice(0, MIN_COMPARE_TARGETS).map(({ providerId, model }) => ({ providerId, model })));
+    }
+  }, [providerConfigs]);
+
+  useEffect(() => {
+    const loadComparison = async () => {
+      setComparison(null);
+      if (!compareId) return;
+      try {
+        const saved = await ChatDatabase.loadComparison(compareId);
+        if (saved) {
+          setComparison(saved);
+        } else if (location.state) {
+          runComparison(location.state as Comparison);
+        }
+      } catch (error) {
+        console.error('Failed to load comparison from database:', compareId, error);
+      }
+    };
+
+    loadComparison();
+    // Stop in-flight requests when switching to another comparison
+    return () => abortControllerRef.current?.abort();
+  }, [compareId]);
+
+  // Saved on every change like chats, throttled to once per STREAM_SAVE_INTERVAL_MS while columns stream;
+  // the end of the run flushes it and updates the search index
+  const lastSaveRef = useRef(0);
+  useEffect(() => {
+    if (!compareId || !comparison) return;
+
+    const saveComparison = () => {
+      lastSaveRef.current = Date.now();
+      ChatDatabase.saveComparison(compareId, comparison)
+        // Comparisons moved to the trash are not saved or indexed
+        .then(saved => saved && !isRunning ? SearchService.updateChat(compareId, comparisonDocuments(compareId, comparison)) : undefined)
+        .catch(error => console.error('Failed to save comparison to database:', compareId, error));
+    };
+
+    if (!isRunning) {
+      saveComparison();
+      return;
+    }
+    const timer = setTimeout(saveComparison, Math.max(0, lastSaveRef.current + STREAM_SAVE_INTERVAL_MS - Date.now()));
+    return () => clearTimeout(timer);
+  }, [compareId, comparison, isRunning]);
+
+  const patchColumn = (columnId: string, update: (column: CompareColumn) => CompareColumn) => {
+    setComparison(prev => prev && { ...prev, columns: prev.columns.map(c => c.id === columnId ? update(c) : c) });
+  };
+
+  const runComparison = async (initial: Comparison) => {
+    setComparison(initial);
+    setIsRunning(true);
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const messages: ChatMessage[] = [{ role: 'user', content: initial.prompt }];
+
+    // Warn once per provider when this month's spending is close to or over budget; the columns of declined
+    // providers are not sent. The same warning (such as the monthly total) is only asked once
+    const declined = new Set<string>();
+    const answered = new Map<string, boolean>();
+    for (const config of providerConfigs.filter(c => isProviderReady(c) && initial.columns.some(column => column.providerId === c.id))) {
+      const warning = await UsageService.checkBudget(config.id, config.name, budget).catch(() => null);
+      if (!warning) continue;
+      if (!answered.has(warning)) answered.set(warning, confirm(warning));
+      if (!answered.get(warning)) declined.add(config.id);
+    }
+
+    // All columns are requested at the same time and settle independently
+    Promise.all(initial.columns.map(async column => {
+      const config = providerConfigs.find(c => c.id === column.providerId);
+      if (!config) {
+        patchColumn(column.id, c => ({ ...c, error: { kind: 'unknown', message: '未找到提供者配置。' } }));
+        return;
+      }
+      if (!isProviderReady(config)) {
+        patchColumn(column.id, c => ({
+          ...c,
+          error: { kind: 'auth', message: `${config.name} 的 API Key 未配置。请在设置中添加。`, provider: config.name, model: column.model }
+        }));
+        return;
+      }
+
+      if (declined.has(config.id)) {
+        patchColumn(column.id, c => ({
+          ...c,
+          error: { kind: 'quota', message: '已按预算提醒取消发送。', provider: config.name, model: column.model }
+        }));
+        return;
+      }
+
+      try {
+        const service = await AIServiceFactory.fromConfig(config, column.model);
+        const { response, latencyMs, firstTokenMs } = await runCompareColumn(
+          service,
+          messages,
+          toApiOptions(config.protocol, initial.aiConfig),
+          (chunk, firstToken) => patchColumn(column.id, c => ({
+            ...c,
+            content: c.content + chunk,
+            firstTokenMs: firstToken ?? c.firstTokenMs
+          })),
+          abortController.signal
+        );
+        // Fall back to a local estimate when the provider doesn't report usage
+        const usage = response.usage ?? {
+          inputTokens: estimateConversationTokens(messages, config.protocol),
+          outputTokens: estimateTokens(response.content, config.protocol)
+        };
+        const estimated = !response.usage || undefined;
+        patchColumn(column.id, c => ({ ...c, latencyMs, firstTokenMs, usage, estimated }));
+        UsageService.record({
+          providerId: config.id,
+          providerName: config.name,
+          model: column.model,
+          chatId: compareId,
+          ...usage,
+          estimated
+        }, prices).catch(error => console.error('记录用量失败:', error));
+      } catch (error) {
+        if (isAbortError(error)) {
+          patchColumn(column.id, c => ({ ...c, status: 'stopped' }));
+          return;
+        }
+        console.error('对比请求失败:', error);
+        patchColumn(column.id, c => ({
+          ...c,
+          error: error instanceof AIError
+            ? error.toInfo()
+            : { kind: 'unknown', message: error instanceof Error ? error.message : String(error) }
+        }));
+      }
+    })).finally(() => {
+      abortControllerRef.current = null;
+      setIsRunning(false);
+    });
+  };
+
+  const handleStart = () => {
+    if (!prompt.trim() || targets.length < MIN_COMPARE_TARGETS) return;
+    const comparison = createComparison(prompt, chatDefaults, targets.map(target => ({
+      ...target,
+      providerName: providerConfigs.find(c => c.id === target.providerId)?.name ?? target.providerId
+    })));
+    setPrompt('');
+    onStart(prompt.trim(), comparison);
+  };
+
+  const handlePromote = (column: CompareColumn) => {
+    if (!comparison) return;
+    onPromote(comparison.prompt, comparisonToChat(comparison, column));
+  };
+
+  const updateTarget = (index: number, key: string) => {
+    const option = options.find(o => targetKey(o) === key);
+    if (!option) return;
+    setTargets(prev => prev.map((t, i) => i === index ? { providerId: option.providerId, model: option.model } : t));
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-w-0">
+      {/* Top Bar */}
+      <div className="h-14 border-b border-gray-200 flex items-center px-4 flex-shrink-0">
+        {!isSidebarOpen && (
+          <button
+            className="p-1 rounded hover:bg-gray-100 text-gray-500 mr-2"
+            title="打开侧边栏"
+            onClick={toggleSidebar}
+          >
+            →
+          </button>
+        )}
+        <div className="text-lg font-semibold">模型对比</div>
+        <div className="flex items-center space-x-3 ml-auto">
+          {isRunning && (
+            <button
+              className="text-sm border border-gray-300 rounded px-3 py-1 hover:bg-gray-50"
+              onClick={() => abortControllerRef.current?.abort()}
+            >
+              ■ 停止
+            </button>
+          )}
+          {comparison && (
+            <Link to="/compare" className="text-sm border border-gray-300 rounded px-3 py-1 hover:bg-gray-50">
+              新建对比
+            </Link>
+          )}
+        </div>
+      </div>
+
+      {comparison ? (
+        <div className="flex-1 p-6 overflow-y-auto bg-white flex flex-col">
+          <div className="self-end bg-blue-500 text-white p-3 rounded-lg max-w-xl mb-4 whitespace-pre-wrap">
+            {comparison.prompt}
+          </div>
+          <div
+            className="grid gap-4 items-start"
+            style={{ gridTemplateColumns: `repeat(${comparison.columns.length}, minmax(0, 1fr))` }}
+          >
+            {comparison.columns.map(column => {
+              const isStreaming = isRunning && column.latencyMs === undefined && !column.error && !column.status;
+              return (
+                <div key={column.id} className="border border-gray-200 rounded-lg p-3 flex flex-col min-w-0">
+                  <div className="text-sm font-medium truncate" title={`${column.providerName} · ${column.model}`}>
+                    {column.providerName} · {column.model}
+                  </div>
+                  <div className="text-xs text-gray-500 mb-2 space-x-2">
+                    {column.firstTokenMs !== undefined && <span>首字 {formatDuration(column.firstTokenMs)}</span>}
+                    {column.latencyMs !== undefined && <span>总耗时 {formatDuration(column.latencyMs)}</span>}
+                    {column.usage && (
+                      <span>
+                        输入 {column.usage.inputTokens.toLocaleString()} / 输出 {column.usage.outputTokens.toLocaleString()} tokens
+                        {column.estimated && '（估算）'}
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex flex-col">
+                    <Bubble
+                      content={column.content}
+                      isUser={false}
+                      isStreaming={isStreaming || undefined}
+                      isStopped={column.status === 'stopped'}
+                      error={column.error}
+                    />
+                  </div>
+                  {!isStreaming && column.content && (
+                    <button
+                      className="self-start text-sm text-blue-600 hover:underline mt-1"
+                      onClick={() => handlePromote(column)}
+                    >
+                      转为对话
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ) : (
+        <div className="flex-1 p-6 overflow-y-auto bg-white">
+          <div className="max-w-2xl mx-auto space-y-4">
+            <div className="text-sm text-gray-500">
+              把同一个问题同时发给 {MIN_COMPARE_TARGETS}–{MAX_COMPARE_TARGETS} 个模型，并排比较回复、耗时和用量。
+            </div>
+            <div className="space-y-2">
+              {targets.map((target, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <select
+                    className="flex-1 border border-gray-300 rounded px-2 py-1 text-sm"
+                    value={targetKey(target)}
+                    onChange={(e) => updateTarget(index, e.target.value)}
+                  >
+                    {options.map(option => (
+                      <option key={targetKey(option)} value={targetKey(option)}>{option.label}</option>
+                    ))}
+                  </select>
+                  <button
+                    className="p-1 text-gray-400 hover:text-red-500 disabled:opacity-30"
+                    disabled={targets.length <= MIN_COMPARE_TARGETS}
+                    onClick={() => setTargets(prev => prev.filter((_, i) => i !== index))}
+                    title="移除"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+              {targets.length < MAX_COMPARE_TARGETS && options.length > 0 && (
+                <button
+                  className="text-sm text-blue-600 hover:underline"
+                  onClick={() => setTargets(prev => [...prev, { providerId: options[0].providerId, model: options[0].model }])}
+                >
+                  ➕ 添加模型
+                </button>
+              )}
+              {options.length === 0 && (
+                <div className="text-sm text-red-500">没有可用的模型，请先在设置中配置服务商。</div>
+              )}
+            </div>
+            <textarea
+              className="w-full border border-gray-300 rounded-lg p-3 text-sm resize-none focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+              rows={4}
+              placeholder="输入要对比的问题..."
+              value={prompt}
+              onChange={(e) => setPrompt(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  handleStart();
+                }
+              }}
+            />
+            <button
+              className="px-4 py-2 rounded bg-black text-white text-sm hover:bg-gray-800 disabled:opacity-50"
+              disabled={!prompt.trim() || targets.length < MIN_COMPARE_TARGETS}
+              onClick={handleStart}
+            >
+              开始对比
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
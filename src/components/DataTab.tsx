@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { save, open } from '@tauri-apps/plugin-dialog';
+import { readTextFile, writeTextFile } from '@tauri-apps/plugin-fs';
+import { HistoryItem } from '../services/ChatRecord';
+import { ProviderConfig } from '../services/ProviderConfig';
+import {
+  EXPORT_EXTENSIONS,
+  EXPORT_FORMAT_LABELS,
+  ExportFormat,
+  exportChats,
+  loadExportedChats,
+  parseImportFile,
+  saveImportedChats
+} from '../services/ChatExport';
+
+interface DataTabProps {
+  historyItems: HistoryItem[];
+  providerConfigs: ProviderConfig[];
+  onImport: (items: HistoryItem[]) => void;
+}
+
+export default function DataTab({ historyItems, providerConfigs, onImport }: DataTabProps) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [format, setFormat] = useState<ExportFormat>('markdown');
+  const [status, setStatus] = useState('');
+
+  const allSelected = historyItems.length > 0 && historyItems.every(item => selectedIds.has(item.id));
+
+  const toggle = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleExport = async () => {
+    const items = historyItems.filter(item => selectedIds.has(item.id));
+    if (items.length === 0) return;
+    try {
+      const extension = EXPORT_EXTENSIONS[format];
+      const baseName = items.length === 1 ? items[0].text.replace(/[\\/:*?"<>|\s]+/g, '_').slice(0, 40) : 'yunchat-export';
+      const path = await save({
+        defaultPath: `${baseName}.${extension}`,
+        filters: [{ name: EXPORT_FORMAT_LABELS[format], extensions: [extension] }]
+      });
+      if (!path) return;
+      const chats = await loadExportedChats(items, providerConfigs);
+      await writeTextFile(path, exportChats(chats, format));
+      setStatus(`已导出 ${chats.length} 个对话到 ${path}`);
+    } catch (error) {
+      setStatus(`导出失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      const path = await open({
+        multiple: false,
+        filters: [{ name: 'JSON', extensions: ['json'] }]
+      });
+      if (!path) return;
+      const chats = parseImportFile(await readTextFile(path));
+      const items = await saveImportedChats(chats, new Set(historyItems.map(item => item.id)));
+      onImport(items);
+      setStatus(`已导入 ${items.length} 个对话`);
+    } catch (error) {
+      setStatus(`导入失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="font-medium text-gray-300">选择要导出的对话</label>
+          <button
+            className="text-blue-400 hover:underline"
+            onClick={() => setSelectedIds(allSelected ? new Set() : new Set(historyItems.map(item => item.id)))}
+          >
+            {allSelected ? '取消全选' : '全选'}
+          </button>
+        </div>
+        <div className="h-64 overflow-y-auto border border-gray-700 rounded p-2 space-y-1">
+          {historyItems.map(item => (
+            <label key={item.id} className="flex items-center gap-2 p-1 rounded hover:bg-gray-700 text-white cursor-pointer">
+              <input type="checkbox" checked={selectedIds.has(item.id)} onChange={() => toggle(item.id)} />
+              <span>{item.icon}</span>
+              <span className="truncate">{item.text}</span>
+            </label>
+          ))}
+          {historyItems.length === 0 && <div className="text-gray-400">还没有对话</div>}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <select
+          className="bg-gray-700 border border-gray-600 rounded px-3 py-2 text-white"
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ExportFormat)}
+        >
+          {Object.entries(EXPORT_FORMAT_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleExport}
+          disabled={selectedIds.size === 0}
+          className="px-3 py-2 bg-blue-600 hover:bg-blue-700 rounded text-white disabled:opacity-50"
+        >
+          导出 {selectedIds.size > 0 ? `(${selectedIds.size})` : ''}
+        </button>
+        <button
+          onClick={handleImport}
+          className="px-3 py-2 bg-gray-600 hover:bg-gray-500 rounded text-white"
+        >
+          导入
+        </button>
+      </div>
+      <div className="text-xs text-gray-400">
+        可导入本应用导出的 JSON 或 ChatGPT 导出的 conversations.json
+      </div>
+      {status && <div className="text-gray-400 break-all">{status}</div>}
+    </div>
+  );
+}
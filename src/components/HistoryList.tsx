@@ -0,0 +1,300 @@
+import { useEffect, useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { ChatFolder, HistoryItem } from '../services/ChatRecord';
+import { DATE_GROUP_LABELS, collectTags, groupByDate, parseTags, sortByRecent } from '../services/HistoryGroups';
+
+interface HistoryListProps {
+  items: HistoryItem[];
+  folders: ChatFolder[];
+  onOpen: (item: HistoryItem) => void;
+  onUpdate: (item: HistoryItem) => void;
+  onDelete: (item: HistoryItem) => void;
+  onFoldersChange: (folders: ChatFolder[]) => void;
+}
+
+// Something being renamed or tagged in place; `id` is a chat or folder id
+interface InlineEdit {
+  id: string;
+  field: 'title' | 'tags' | 'folder' | 'newFolder';
+  value: string;
+}
+
+// Marks a chat dragged inside the sidebar, so file drags are ignored
+const DRAG_TYPE = 'application/x-yunchat-chat';
+// Drop target for chats outside any folder
+const ROOT_TARGET = '';
+
+// The sidebar's chat list: pinned chats, folders, date groups and the archive
+export default function HistoryList({ items, folders, onOpen, onUpdate, onDelete, onFoldersChange }: HistoryListProps) {
+  const [menuId, setMenuId] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const [editing, setEditing] = useState<InlineEdit | null>(null);
+  // Escape leaves the field without saving
+  const discardEditRef = useRef(false);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [collapsedFolders, setCollapsedFolders] = useState<Set<string>>(new Set());
+  const [isArchiveOpen, setIsArchiveOpen] = useState(false);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+
+  // Close the item menu when clicking elsewhere
+  useEffect(() => {
+    if (!menuId) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setMenuId(null);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [menuId]);
+
+  const tags = collectTags(items);
+  // A filter whose last chat lost the tag shows everything again
+  const activeTag = tagFilter && tags.includes(tagFilter) ? tagFilter : null;
+  const visible = activeTag ? items.filter(item => item.tags.includes(activeTag)) : items;
+  const folderIds = new Set(folders.map(folder => folder.id));
+  const active = visible.filter(item => !item.archived);
+  const pinned = sortByRecent(active.filter(item => item.pinned));
+  const unpinned = active.filter(item => !item.pinned);
+  // Chats of a deleted folder fall back to the date groups
+  const rootItems = unpinned.filter(item => !item.folderId || !folderIds.has(item.folderId));
+  const archived = sortByRecent(visible.filter(item => item.archived));
+
+  const startEdit = (edit: InlineEdit) => {
+    setMenuId(null);
+    setEditing(edit);
+  };
+
+  const commitEdit = () => {
+    if (!editing) return;
+    const value = editing.value.trim();
+    const item = items.find(i => i.id === editing.id);
+    switch (editing.field) {
+      case 'title':
+        if (item && value && value !== item.text) onUpdate({ ...item, text: value, titleSource: 'user' });
+        break;
+      case 'tags':
+        if (item) onUpdate({ ...item, tags: parseTags(value) });
+        break;
+      case 'folder':
+        if (value) onFoldersChange(folders.map(folder => folder.id === editing.id ? { ...folder, name: value } : folder));
+        break;
+      case 'newFolder':
+        if (value) onFoldersChange([...folders, { id: editing.id, name: value }]);
+        break;
+    }
+  };
+
+  const renderEditor = (placeholder: string) => (
+    <input
+      autoFocus
+      value={editing?.value ?? ''}
+      placeholder={placeholder}
+      onChange={(e) => setEditing(prev => prev && { ...prev, value: e.target.value })}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') discardEditRef.current = true;
+        if (e.key === 'Enter' || e.key === 'Escape') e.currentTarget.blur();
+      }}
+      onBlur={() => {
+        if (!discardEditRef.current) commitEdit();
+        discardEditRef.current = false;
+        setEditing(null);
+      }}
+      className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+    />
+  );
+
+  const isEditing = (id: string, field: InlineEdit['field']) => editing?.id === id && editing.field === field;
+
+  const deleteFolder = (folder: ChatFolder) => {
+    if (!confirm(`删除文件夹“${folder.name}”？其中的对话会移到文件夹外。`)) return;
+    items.filter(item => item.folderId === folder.id).forEach(item => onUpdate({ ...item, folderId: undefined }));
+    onFoldersChange(folders.filter(f => f.id !== folder.id));
+  };
+
+  // Dropping a chat shows it where it was dropped, so it also leaves the pinned list and the archive
+  const dropHandlers = (target: string) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+      e.preventDefault();
+      setDropTarget(target);
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+        setDropTarget(prev => prev === target ? null : prev);
+      }
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTarget(null);
+      const item = items.find(i => i.id === e.dataTransfer.getData(DRAG_TYPE));
+      if (item) onUpdate({ ...item, folderId: target || undefined, pinned: false, archived: false });
+    }
+  });
+
+  const dropHighlight = (target: string) => dropTarget === target ? 'bg-gray-700/60 ring-1 ring-gray-500' : '';
+
+  const menuButton = (label: string, action: () => void, danger = false) => (
+    <button
+      className={`block w-full text-left px-3 py-1.5 hover:bg-gray-700 ${danger ? 'text-red-400' : 'text-gray-300'}`}
+      onClick={() => {
+        setMenuId(null);
+        action();
+      }}
+    >
+      {label}
+    </button>
+  );
+
+  const renderItem = (item: HistoryItem) => {
+    if (isEditing(item.id, 'title')) {
+      return <div key={item.id} className="p-1">{renderEditor('对话标题')}</div>;
+    }
+    return (
+      <div key={item.id} className="group relative">
+        <button
+          draggable
+          onDragStart={(e) => {
+            e.dataTransfer.setData(DRAG_TYPE, item.id);
+            e.dataTransfer.effectAllowed = 'move';
+          }}
+          onDragEnd={() => setDropTarget(null)}
+          onClick={() => onOpen(item)}
+          onDoubleClick={() => startEdit({ id: item.id, field: 'title', value: item.text })}
+          className="flex items-center w-full p-2 pr-7 rounded hover:bg-gray-700 text-sm text-gray-300 text-left"
+        >
+          <span className="mr-2">{item.icon}</span>
+          <span className="min-w-0 flex-1">
+            <span className="block truncate">{item.text}</span>
+            {item.tags.length > 0 && (
+              <span className="block truncate text-xs text-gray-500">{item.tags.map(tag => `#${tag}`).join(' ')}</span>
+            )}
+          </span>
+        </button>
+        {isEditing(item.id, 'tags') && <div className="px-1 pb-1">{renderEditor('标签，用逗号分隔')}</div>}
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            setMenuId(menuId === item.id ? null : item.id);
+          }}
+          className={`absolute right-1 top-1 p-1 rounded text-gray-400 hover:text-white transition-opacity ${menuId === item.id ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+          title="更多"
+        >
+          ⋯
+        </button>
+        {menuId === item.id && (
+          <div ref={menuRef} className="absolute right-1 top-8 w-36 bg-gray-800 border border-gray-700 rounded shadow-lg py-1 z-20 text-sm">
+            {menuButton(item.pinned ? '📌 取消置顶' : '📌 置顶', () => onUpdate({ ...item, pinned: !item.pinned }))}
+            {menuButton('✏️ 重命名', () => startEdit({ id: item.id, field: 'title', value: item.text }))}
+            {menuButton('🏷️ 编辑标签', () => startEdit({ id: item.id, field: 'tags', value: item.tags.join(', ') }))}
+            {item.folderId && folderIds.has(item.folderId) && menuButton('📤 移出文件夹', () => onUpdate({ ...item, folderId: undefined }))}
+            {menuButton(item.archived ? '🗄️ 取消归档' : '🗄️ 归档', () => onUpdate({ ...item, archived: !item.archived }))}
+            {menuButton('🗑️ 移到回收站', () => onDelete(item), true)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const sectionTitle = 'px-2 pt-3 pb-1 text-xs font-medium text-gray-500';
+
+  return (
+    <div className="space-y-1">
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 px-1 pb-1">
+          {tags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => setTagFilter(activeTag === tag ? null : tag)}
+              className={`px-2 py-0.5 rounded-full text-xs ${activeTag === tag ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'}`}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {pinned.length > 0 && (
+        <div>
+          <div className={sectionTitle}>已置顶</div>
+          {pinned.map(renderItem)}
+        </div>
+      )}
+
+      <div>
+        <div className={`${sectionTitle} flex items-center`}>
+          <span>文件夹</span>
+          <button
+            className="ml-auto px-1 rounded hover:bg-gray-700 hover:text-gray-300"
+            title="新建文件夹"
+            onClick={() => startEdit({ id: uuidv4(), field: 'newFolder', value: '' })}
+          >
+            ＋
+          </button>
+        </div>
+        {folders.map(folder => {
+          const folderItems = sortByRecent(unpinned.filter(item => item.folderId === folder.id));
+          const isCollapsed = collapsedFolders.has(folder.id);
+          return (
+            <div key={folder.id} className={`rounded ${dropHighlight(folder.id)}`} {...dropHandlers(folder.id)}>
+              {isEditing(folder.id, 'folder') ? (
+                <div className="p-1">{renderEditor('文件夹名称')}</div>
+              ) : (
+                <div className="group relative">
+                  <button
+                    onClick={() => setCollapsedFolders(prev => {
+                      const next = new Set(prev);
+                      if (!next.delete(folder.id)) next.add(folder.id);
+                      return next;
+                    })}
+                    onDoubleClick={() => startEdit({ id: folder.id, field: 'folder', value: folder.name })}
+                    className="flex items-center w-full p-2 pr-12 rounded hover:bg-gray-700 text-sm text-gray-300 text-left"
+                  >
+                    <span className="mr-2">{isCollapsed ? '📁' : '📂'}</span>
+                    <span className="truncate">{folder.name}</span>
+                    <span className="ml-1 text-xs text-gray-500">{folderItems.length}</span>
+                  </button>
+                  <div className="absolute right-1 top-1/2 -translate-y-1/2 flex opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      className="p-1 rounded text-gray-400 hover:text-white"
+                      title="重命名"
+                      onClick={() => startEdit({ id: folder.id, field: 'folder', value: folder.name })}
+                    >
+                      ✏️
+                    </button>
+                    <button className="p-1 rounded text-gray-400 hover:text-red-400" title="删除文件夹" onClick={() => deleteFolder(folder)}>
+                      ×
+                    </button>
+                  </div>
+                </div>
+              )}
+              {!isCollapsed && <div className="pl-3">{folderItems.map(renderItem)}</div>}
+            </div>
+          );
+        })}
+        {editing?.field === 'newFolder' && <div className="p-1">{renderEditor('文件夹名称')}</div>}
+        {folders.length === 0 && editing?.field !== 'newFolder' && (
+          <div className="px-2 py-1 text-xs text-gray-600">把对话拖到文件夹中整理</div>
+        )}
+      </div>
+
+      <div className={`min-h-[3rem] rounded ${dropHighlight(ROOT_TARGET)}`} {...dropHandlers(ROOT_TARGET)}>
+        {groupByDate(rootItems).map(({ group, items: groupItems }) => (
+          <div key={group}>
+            <div className={sectionTitle}>{DATE_GROUP_LABELS[group]}</div>
+            {groupItems.map(renderItem)}
+          </div>
+        ))}
+      </div>
+
+      {archived.length > 0 && (
+        <div>
+          <button className={`${sectionTitle} w-full text-left hover:text-gray-300`} onClick={() => setIsArchiveOpen(!isArchiveOpen)}>
+            {isArchiveOpen ? '▾' : '▸'} 已归档 ({archived.length})
+          </button>
+          {isArchiveOpen && archived.map(renderItem)}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,122 +1,254 @@
-import { useParams } from 'react-router-dom';
-import { useState, useRef, useEffect } from 'react';
-import { Store } from '@tauri-apps/plugin-store';
+import { useParams, useLocation } from 'react-router-dom';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import Bubble from './Bubble';
-import { AIServiceFactory } from '../services/AIService';
+import { v4 as uuidv4 } from 'uuid';
+import { AIConfig, AIServiceFactory, ChatMessage, ChatResponse, ImageAttachment, imageToDataUrl, isAbortError, toApiOptions } from '../services/AIService';
+import { McpService } from '../services/McpService';
+import { AIError, AIErrorInfo } from '../services/AIError';
+import { UsageService } from '../services/UsageService';
+import { Assistant, DEFAULT_ASSISTANT_ID } from '../services/Assistant';
+import { PromptTemplate, extractVariables, searchTemplates } from '../services/PromptTemplate';
+import TemplatePicker from './TemplatePicker';
+import TemplateVariableForm from './TemplateVariableForm';
+import { ProviderConfig, isProviderReady } from '../services/ProviderConfig';
+import { ChatRecord, Message, ToolCallRecord } from '../services/ChatRecord';
+import { ChatDatabase, STREAM_SAVE_INTERVAL_MS } from '../services/Database';
+import { useSettings } from '../services/Settings';
+import { MessageTree, activePath, addMessage, branchInfo, emptyTree, pathTo, revealMessage, selectMessage, selectSibling, updateMessage } from '../services/MessageTree';
+import { SearchService, chatDocuments } from '../services/SearchService';
+import {
+  CONTEXT_STRATEGY_LABELS,
+  ContextSettings,
+  ContextStrategy,
+  ContextSummary,
+  DEFAULT_CONTEXT_SETTINGS,
+  SUMMARY_RESERVE_TOKENS,
+  estimateConversationTokens,
+  estimateTokens,
+  getContextWindow,
+  planContext,
+  summarizeMessages,
+  summaryMessage
+} from '../services/ContextManager';
 
-// Store 会在 JavaScript 绑定时自动加载。
-const store = await Store.load('store.bin');
+// Replies that failed without producing any output are not part of the conversation
+const isSendable = (m: Message) => !(m.role === 'assistant' && m.error && !m.content);
 
-interface Provider {
-  name: string;
-  models: string[];
+const toChatMessage = (m: Message): ChatMessage => m.role === 'user'
+  ? { role: m.role, content: m.content, images: m.images }
+  : { role: m.role, content: m.content };
+
+// Carried through navigation when the first message of a new chat creates its history item
+export interface NewChatState {
+  assistantId: string;
+  providerId: string;
+  model: string;
+  aiConfigOverrides: Partial<AIConfig>;
+  message: string;
+  images?: ImageAttachment[];
+}
+
+// A finished reply, reported so the sidebar can reorder the chat and name it after the first one
+export interface ReplyExchange {
+  question: string;
+  answer: string;
+  providerId: string;
+  model: string;
+  isFirst: boolean;
 }
 
-interface ProviderConfig {
-  apiKey: string;
-  baseUrl: string;
-  modelName: string;
-  availableModels: string[];
+// Carried through navigation when a search result opens a message in this chat
+export interface FocusMessageState {
+  focusMessageId: string;
 }
 
 interface MainAreaProps {
   isSidebarOpen: boolean;
   toggleSidebar: () => void;
-  providers: Provider[];
-  providerConfigs: {
-    openai: ProviderConfig;
-    anthropic: ProviderConfig;
-    google: ProviderConfig;
-  };
+  providerConfigs: ProviderConfig[];
+  assistants: Assistant[];
+  templates: PromptTemplate[];
+  // Assistant used for chats started from '/'
+  startAssistantId: string;
   // Update the return type to Promise<string> to match App.tsx
-  onFirstMessage: (title: string) => Promise<string>; 
+  onFirstMessage: (title: string, newChat: NewChatState) => Promise<string>; 
+  onReply: (chatId: string, exchange: ReplyExchange) => void;
 }
 
-export default function MainArea({ isSidebarOpen, toggleSidebar, providers, providerConfigs, onFirstMessage }: MainAreaProps) {
+export default function MainArea({ isSidebarOpen, toggleSidebar, providerConfigs, assistants, templates, startAssistantId, onFirstMessage, onReply }: MainAreaProps) {
   const [isModelDropdownOpen, setIsModelDropdownOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const { itemId } = useParams<{ itemId: string }>();
+  const location = useLocation();
+
+  // All branches of the chat; `messages` is the path currently shown
+  const [tree, setTree] = useState<MessageTree<Message>>(emptyTree);
+  const messages = useMemo(() => activePath(tree), [tree]);
+
+  const patchMessage = (id: string, update: (message: Message) => Message) => {
+    setTree(prev => updateMessage(prev, id, update));
+  };
+
+  // A message opened from search; applied once it is present in the loaded tree
+  const [pendingFocusId, setPendingFocusId] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
 
-  const [messages, setMessages] = useState<
-    Array<{
-      id: string; // Add id property
-      role: "user" | "assistant";
-      content: string;
-    }>
-  >([]);
+  useEffect(() => {
+    const focusMessageId = (location.state as Partial<FocusMessageState> | null)?.focusMessageId;
+    if (focusMessageId) setPendingFocusId(focusMessageId);
+  }, [location.key]);
+
+  useEffect(() => {
+    if (!pendingFocusId || !tree.nodes[pendingFocusId]) return;
+    setTree(prev => revealMessage(prev, pendingFocusId));
+    setHighlightedMessageId(pendingFocusId);
+    setPendingFocusId(null);
+    const timer = setTimeout(() => setHighlightedMessageId(null), 3000);
+    return () => clearTimeout(timer);
+  }, [tree, pendingFocusId]);
   const [isConfigSidebarOpen, setIsConfigSidebarOpen] = useState(false);
-  const [aiConfig, setAiConfig] = useState({
-    temperature: 0.7,
-    max_tokens: 1000,
-    top_p: 1,
-    frequency_penalty: 0,
-    presence_penalty: 0,
-  });
-  const [selectedProvider, setSelectedProvider] = useState(providers[0].name);
-  const [selectedModel, setSelectedModel] = useState(providers[0].models[0]);
-
-  // Load chat data from store
+  // Parameters changed in this chat; everything else follows the defaults in settings
+  const [aiConfigOverrides, setAiConfigOverrides] = useState<Partial<AIConfig>>({});
+  const { chatDefaults, prices, budget: usageBudget } = useSettings();
+  const aiConfig = useMemo(() => ({ ...chatDefaults, ...aiConfigOverrides }), [chatDefaults, aiConfigOverrides]);
+  const updateAiConfig = (patch: Partial<AIConfig>) => setAiConfigOverrides(prev => ({ ...prev, ...patch }));
+  const [selectedProviderId, setSelectedProviderId] = useState(providerConfigs[0]?.id ?? '');
+  const [selectedModel, setSelectedModel] = useState(providerConfigs[0]?.modelName ?? '');
+  const [contextSettings, setContextSettings] = useState<ContextSettings>(DEFAULT_CONTEXT_SETTINGS);
+  const [contextSummary, setContextSummary] = useState<ContextSummary | undefined>(undefined);
+  const [activeAssistantId, setActiveAssistantId] = useState(DEFAULT_ASSISTANT_ID);
+  const [pendingFirstMessage, setPendingFirstMessage] = useState<{ content: string; images?: ImageAttachment[] } | null>(null);
+  const activeAssistant = assistants.find(a => a.id === activeAssistantId);
+
+  // Use an assistant's default provider, model and parameters for a fresh chat
+  const applyAssistant = (assistant: Assistant | undefined) => {
+    setActiveAssistantId(assistant?.id ?? DEFAULT_ASSISTANT_ID);
+    setAiConfigOverrides({ ...assistant?.aiConfig });
+    const provider = providerConfigs.find(c => c.id === assistant?.providerId);
+    if (provider) {
+      setSelectedProviderId(provider.id);
+      setSelectedModel(assistant?.model || provider.modelName);
+    }
+  };
+
+  // A reply is streaming
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Chat the current tree belongs to, and the messages as last written to the database.
+  // Saves are skipped until the chat has loaded and only send messages that changed since.
+  const loadedChatIdRef = useRef<string | undefined>(undefined);
+  const savedNodesRef = useRef<Record<string, Message>>({});
+
+  // Load chat data from the database
   useEffect(() => {
     const loadChatData = async () => {
+      loadedChatIdRef.current = undefined;
       try {
         // Clear messages when itemId changes to avoid showing old chat
-        setMessages([]);
-        const savedChatData = await store.get(itemId || "default"); // Use "default" or a specific key if itemId is undefined
-        if (savedChatData && itemId) { // Only load if itemId exists and data was found
-          const {
-            messages: savedMessages,
-            aiConfig: savedAiConfig,
-            selectedProvider: savedSelectedProvider,
-            selectedModel: savedSelectedModel,
-          } = JSON.parse(savedChatData as string);
-
-          setMessages(savedMessages || []); // Ensure messages is an array
-          setAiConfig(savedAiConfig || { temperature: 0.7, max_tokens: 1000, top_p: 1, frequency_penalty: 0, presence_penalty: 0 });
-          setSelectedProvider(savedSelectedProvider || providers[0].name);
-          setSelectedModel(savedSelectedModel || providers[0].models[0]);
+        setTree(emptyTree());
+        const chat = itemId ? await ChatDatabase.loadChat(itemId) : null;
+        savedNodesRef.current = chat?.tree.nodes ?? {};
+        loadedChatIdRef.current = itemId;
+        if (chat) {
+          setTree(chat.tree);
+          setAiConfigOverrides(chat.aiConfigOverrides);
+          setSelectedProviderId(chat.selectedProviderId || providerConfigs[0]?.id || '');
+          setSelectedModel(chat.selectedModel || providerConfigs[0]?.modelName || '');
+          setContextSettings(chat.contextSettings);
+          setContextSummary(chat.contextSummary);
+          setActiveAssistantId(chat.assistantId || DEFAULT_ASSISTANT_ID);
+        } else if (itemId && location.state) {
+          // A chat just created from '/': keep the choices made there and send its first message
+          const newChat = location.state as NewChatState;
+          setTree(emptyTree());
+          setActiveAssistantId(newChat.assistantId);
+          setAiConfigOverrides(newChat.aiConfigOverrides);
+          setSelectedProviderId(newChat.providerId);
+          setSelectedModel(newChat.model);
+          setContextSettings(DEFAULT_CONTEXT_SETTINGS);
+          setContextSummary(undefined);
+          setPendingFirstMessage({ content: newChat.message, images: newChat.images });
         } else {
           // Reset to defaults if no saved data for this itemId or if itemId is undefined (new chat)
-          setMessages([]);
-          setAiConfig({ temperature: 0.7, max_tokens: 1000, top_p: 1, frequency_penalty: 0, presence_penalty: 0 });
-          setSelectedProvider(providers[0].name);
-          setSelectedModel(providers[0].models[0]);
+          setTree(emptyTree());
+          setSelectedProviderId(providerConfigs[0]?.id ?? '');
+          setSelectedModel(providerConfigs[0]?.modelName ?? '');
+          setContextSettings(DEFAULT_CONTEXT_SETTINGS);
+          setContextSummary(undefined);
+          applyAssistant(itemId ? undefined : assistants.find(a => a.id === startAssistantId));
         }
       } catch (error) {
-        console.error("Failed to load chat data from store for itemId:", itemId, error);
+        console.error("Failed to load chat data from database for itemId:", itemId, error);
          // Reset to defaults on error
-         setMessages([]);
-         setAiConfig({ temperature: 0.7, max_tokens: 1000, top_p: 1, frequency_penalty: 0, presence_penalty: 0 });
-         setSelectedProvider(providers[0].name);
-         setSelectedModel(providers[0].models[0]);
+         setTree(emptyTree());
+         setAiConfigOverrides({});
+         setSelectedProviderId(providerConfigs[0]?.id ?? '');
+         setSelectedModel(providerConfigs[0]?.modelName ?? '');
+         setContextSettings(DEFAULT_CONTEXT_SETTINGS);
+         setContextSummary(undefined);
+         setActiveAssistantId(DEFAULT_ASSISTANT_ID);
       }
     };
 
     loadChatData();
-  }, [itemId, providers]); // Rerun when itemId changes
+  }, [itemId]); // Rerun when itemId changes
+
+  // Picking another assistant from the sidebar while on a blank new chat
+  useEffect(() => {
+    if (!itemId && messages.length === 0) {
+      applyAssistant(assistants.find(a => a.id === startAssistantId));
+    }
+  }, [startAssistantId]);
+
+  // Fall back to the first provider once configs load or if the selected one was deleted
+  useEffect(() => {
+    if (providerConfigs.length > 0 && !providerConfigs.some(c => c.id === selectedProviderId)) {
+      setSelectedProviderId(providerConfigs[0].id);
+      setSelectedModel(providerConfigs[0].modelName);
+    }
+  }, [providerConfigs, selectedProviderId]);
 
-  // Save chat data to store when data changes
+  // Save chat data to the database when data changes. While a reply streams, the chat is written at most
+  // once per STREAM_SAVE_INTERVAL_MS; the end of the reply flushes it and updates the search index.
+  const lastSaveRef = useRef(0);
   useEffect(() => {
+    // Only save if there's an itemId, its chat has loaded and messages exist
+    if (!itemId || loadedChatIdRef.current !== itemId || messages.length === 0) return;
+
     const saveChatData = async () => {
-      // Only save if there's an itemId and messages exist
-      if (itemId && messages.length > 0) {
-        try {
-          const chatData = {
-            messages,
-            aiConfig,
-            selectedProvider,
-            selectedModel,
-          };
-          await store.set(itemId, JSON.stringify(chatData));
-          await store.save();
-        } catch (error) {
-          console.error("Failed to save chat data to store for itemId:", itemId, error);
+      try {
+        const chatData: ChatRecord = {
+          tree,
+          aiConfigOverrides,
+          selectedProviderId,
+          selectedModel,
+          contextSettings,
+          contextSummary,
+          assistantId: activeAssistantId,
+        };
+        const changed = Object.values(tree.nodes).filter(node => savedNodesRef.current[node.id] !== node);
+        savedNodesRef.current = tree.nodes;
+        lastSaveRef.current = Date.now();
+        const saved = await ChatDatabase.saveChat(itemId, chatData, changed);
+        // A chat moved to the trash mid-reply stays out of search
+        if (saved && !isLoading) {
+          await SearchService.updateChat(itemId, chatDocuments(itemId, chatData));
         }
+      } catch (error) {
+        console.error("Failed to save chat data to database for itemId:", itemId, error);
+        // Send every message again on the next save
+        savedNodesRef.current = {};
       }
     };
-    // Debounce or throttle might be better, but save on change for now.
-    saveChatData();
 
-  }, [itemId, messages, aiConfig, selectedProvider, selectedModel]); // Save when these change
+    if (!isLoading) {
+      saveChatData();
+      return;
+    }
+    // Each chunk replaces the pending timer, which still fires one interval after the last write
+    const timer = setTimeout(saveChatData, Math.max(0, lastSaveRef.current + STREAM_SAVE_INTERVAL_MS - Date.now()));
+    return () => clearTimeout(timer);
+  }, [itemId, tree, aiConfigOverrides, selectedProviderId, selectedModel, contextSettings, contextSummary, activeAssistantId, isLoading]); // Save when these change
 
   // 点击外部关闭下拉菜单
   useEffect(() => {
@@ -133,23 +265,80 @@ export default function MainArea({ isSidebarOpen, toggleSidebar, providers, prov
   }, []);
 
   const [inputMessage, setInputMessage] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
-  const messageIdCounter = useRef(0); // Simple counter for unique IDs
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const handleStopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
 
-  const handleSendMessage = async () => {
-    if (!inputMessage.trim() || isLoading) return;
+  const [pendingImages, setPendingImages] = useState<ImageAttachment[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // Typing "/command" at the start of an empty composer opens the template picker
+  const [pickerIndex, setPickerIndex] = useState(0);
+  const [isPickerDismissed, setIsPickerDismissed] = useState(false);
+  const [formTemplate, setFormTemplate] = useState<PromptTemplate | null>(null);
+  const slashQuery = /^\/(\S*)$/.exec(inputMessage)?.[1];
+  const pickerTemplates = slashQuery !== undefined && !isPickerDismissed ? searchTemplates(templates, slashQuery) : [];
+
+  const handleSelectTemplate = (template: PromptTemplate) => {
+    if (extractVariables(template.content).length > 0) {
+      setInputMessage('');
+      setFormTemplate(template);
+    } else {
+      setInputMessage(template.content);
+      textareaRef.current?.focus();
+    }
+  };
+
+  const addImageFiles = async (files: File[]) => {
+    const images = await Promise.all(files
+      .filter(file => file.type.startsWith('image/'))
+      .map(file => new Promise<ImageAttachment>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve({
+          id: uuidv4(),
+          mimeType: file.type,
+          // Strip the "data:<mime>;base64," prefix
+          data: (reader.result as string).split(',')[1],
+          name: file.name
+        });
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+      })));
+    setPendingImages(prev => [...prev, ...images]);
+  };
+
+  // Stop an in-flight reply when switching to another chat
+  useEffect(() => () => abortControllerRef.current?.abort(), [itemId]);
+
+  const handleSendMessage = () => {
+    const images = pendingImages.length > 0 ? pendingImages : undefined;
+    sendMessage(inputMessage, images);
+  };
+
+  const sendMessage = async (content: string, images?: ImageAttachment[]) => {
+    if ((!content.trim() && !images) || isLoading) return;
 
     // If it's the first message and there's no itemId (meaning it's a new chat started from '/')
     if (messages.length === 0 && !itemId) {
       setIsLoading(true);
       try {
-        // First create the history item and wait for it to complete
-        await onFirstMessage(inputMessage);
+        // First create the history item; the new route sends the message once it has loaded
+        await onFirstMessage(content.trim() || '图片', {
+          assistantId: activeAssistantId,
+          providerId: selectedProviderId,
+          model: selectedModel,
+          aiConfigOverrides,
+          message: content,
+          images
+        });
         // Clear the input after successfully initiating the new chat
         setInputMessage('');
+        setPendingImages([]);
         setIsLoading(false)
-        // Now proceed with sending the message with the new itemId
-        return; // Recursively call with the new itemId context
+        return;
       } catch (error) {
         console.error("Error handling first message:", error);
         setIsLoading(false);
@@ -160,117 +349,301 @@ export default function MainArea({ isSidebarOpen, toggleSidebar, providers, prov
     // Proceed with sending message for existing chats OR for the first message of a new chat
 
     // Generate unique IDs for the new messages
-    const userId = `user-${messageIdCounter.current++}`;
-    const assistantId = `assistant-${messageIdCounter.current++}`;
+    const userId = `user-${uuidv4()}`;
 
-    const currentUserMessage = {
+    const currentUserMessage: Message = {
       id: userId, // Add id
-      role: 'user' as const,
-      content: inputMessage
-    };
-    const assistantMessagePlaceholder = {
-      id: assistantId, // Add id
-      role: 'assistant' as const,
-      content: ''
+      parentId: messages[messages.length - 1]?.id ?? null,
+      role: 'user',
+      content,
+      images,
+      createdAt: Date.now()
     };
+    const placeholders = createReplyPlaceholders(userId);
 
     // Prepare messages to send to AI. 
     // If it was the first message of a new chat, 'messages' state was empty, 
     // so messagesToSendToAI will correctly contain only the currentUserMessage.
     const messagesToSendToAI = [...messages, currentUserMessage]; 
 
-    // Update UI state: add user message and placeholder
-    setMessages(prev => [...prev, currentUserMessage, assistantMessagePlaceholder]);
+    // Update UI state: add user message and placeholders
+    setTree(prev => addReplies(addMessage(prev, currentUserMessage), placeholders));
 
     // Clear input and set loading state immediately *after* scheduling state update
     setInputMessage('');
+    setPendingImages([]);
+    generateReply(messagesToSendToAI, placeholders.map(p => p.id));
+  };
+
+  // One empty assistant message per requested candidate
+  const createReplyPlaceholders = (parentId: string): Message[] =>
+    Array.from({ length: Math.max(1, aiConfig.candidate_count) }, () => ({
+      id: `assistant-${uuidv4()}`,
+      parentId,
+      role: 'assistant',
+      content: '',
+      createdAt: Date.now()
+    }));
+
+  // Candidates become siblings; the first one is shown while they stream
+  const addReplies = (prev: MessageTree<Message>, placeholders: Message[]) =>
+    selectMessage(placeholders.reduce((next, placeholder) => addMessage(next, placeholder), prev), placeholders[0].id);
+
+  // Send the first message of a chat created from '/' once its state has loaded
+  useEffect(() => {
+    if (pendingFirstMessage) {
+      setPendingFirstMessage(null);
+      sendMessage(pendingFirstMessage.content, pendingFirstMessage.images);
+    }
+  }, [pendingFirstMessage]);
+
+  // Re-run a failed (or any) assistant turn using the conversation before it
+  const handleRetry = (assistantId: string) => {
+    const index = messages.findIndex(m => m.id === assistantId);
+    if (index === -1 || isLoading) return;
+
+    patchMessage(assistantId, msg => ({ id: msg.id, parentId: msg.parentId, role: 'assistant', content: '', createdAt: msg.createdAt }));
+    generateReply(messages.slice(0, index), [assistantId]);
+  };
+
+  // Ask for new candidates for an assistant turn; earlier replies stay as siblings to flip back to
+  const handleRegenerate = (assistantId: string) => {
+    const original = tree.nodes[assistantId];
+    if (!original?.parentId || isLoading) return;
+
+    const placeholders = createReplyPlaceholders(original.parentId);
+    setTree(prev => addReplies(prev, placeholders));
+    generateReply(pathTo(tree, original.parentId), placeholders.map(p => p.id));
+  };
+
+  // Editing a user turn forks a new branch next to the original instead of overwriting it
+  const handleEditMessage = (messageId: string, content: string) => {
+    const original = tree.nodes[messageId];
+    if (!original || isLoading || (!content.trim() && !original.images)) return;
+
+    const editedMessage: Message = {
+      id: `user-${uuidv4()}`,
+      parentId: original.parentId,
+      role: 'user',
+      content,
+      images: original.images,
+      createdAt: Date.now()
+    };
+    const placeholders = createReplyPlaceholders(editedMessage.id);
+    const history = original.parentId ? pathTo(tree, original.parentId) : [];
+
+    setTree(prev => addReplies(addMessage(prev, editedMessage), placeholders));
+    generateReply([...history, editedMessage], placeholders.map(p => p.id));
+  };
+
+  const setReplyError = (assistantId: string, error: AIErrorInfo) => {
+    patchMessage(assistantId, msg => ({ ...msg, error }));
+  };
+
+  // The chat's assistant keeps applying its system prompt, including after the chat is reopened
+  const assistantSystemMessages = (): ChatMessage[] => {
+    const systemPrompt = activeAssistant?.systemPrompt.trim();
+    return systemPrompt ? [{ role: 'system', content: systemPrompt }] : [];
+  };
+
+  // Stream a reply for `history` into the assistant message `assistantId`
+  // Streams one reply into each placeholder; several ids mean several candidates for the same turn
+  const generateReply = (history: Message[], assistantIds: string[]) => {
     setIsLoading(true);
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    const failReply = (assistantId: string, error: unknown) => {
+      if (isAbortError(error)) {
+        // Keep whatever was streamed so far and mark the reply as stopped
+        patchMessage(assistantId, msg => ({ ...msg, status: 'stopped' }));
+        return;
+      }
+      console.error('AI聊天错误:', error);
+      setReplyError(assistantId, error instanceof AIError
+        ? error.toInfo()
+        : { kind: 'unknown', message: error instanceof Error ? error.message : String(error) });
+    };
 
     // --- Call AI service *after* scheduling the state update ---
     (async () => {
       try {
-        const currentProvider = providers.find(p => p.name === selectedProvider);
-        if (!currentProvider) {
+        const config = providerConfigs.find(c => c.id === selectedProviderId);
+        if (!config) {
            console.error("Selected provider not found!");
-           setMessages(latestMessages => latestMessages.map(msg =>
-             msg.id === assistantId ? { ...msg, content: '错误：未找到提供者配置。' } : msg
-           ));
-           setIsLoading(false);
+           assistantIds.forEach(id => setReplyError(id, { kind: 'unknown', message: '未找到提供者配置。' }));
            return;
         }
 
-        const providerName = currentProvider.name.toLowerCase() as 'openai'|'anthropic'|'google';
-        const config = providerConfigs[providerName];
+        const protocol = config.protocol;
 
-        // Ensure API key exists
-        if (!config.apiKey || config.apiKey.trim() === '') {
-          console.error(`API key for ${providerName} is missing!`);
-          setMessages(latestMessages => latestMessages.map(msg =>
-            msg.id === assistantId ? { ...msg, content: `错误：${providerName} 的 API Key 未配置。请在设置中添加。` } : msg
-          ));
-          setIsLoading(false);
+        // Ensure API key exists (local servers such as Ollama don't need one)
+        if (!isProviderReady(config)) {
+          console.error(`API key for ${config.name} is missing!`);
+          assistantIds.forEach(id => setReplyError(id, {
+            kind: 'auth',
+            message: `${config.name} 的 API Key 未配置。请在设置中添加。`,
+            provider: config.name,
+            model: selectedModel
+          }));
           return;
         }
 
-        const aiService = AIServiceFactory.createService(
-          providerName, config.apiKey, selectedModel, config.baseUrl
-        );
-
-        // Filter options based on the provider
-        let apiOptions: any = {};
-        if (providerName === 'openai') {
-          apiOptions = {
-            temperature: aiConfig.temperature,
-            max_tokens: aiConfig.max_tokens,
-            top_p: aiConfig.top_p,
-            frequency_penalty: aiConfig.frequency_penalty,
-            presence_penalty: aiConfig.presence_penalty,
-          };
-        } else if (providerName === 'anthropic') {
-           apiOptions = {
-            temperature: aiConfig.temperature,
-            max_tokens: aiConfig.max_tokens, // Anthropic uses max_tokens
-            top_p: aiConfig.top_p,
-            // top_k: aiConfig.top_k // Assuming top_k might be in aiConfig later
-          };
-        } else if (providerName === 'google') {
-           apiOptions = {
-            temperature: aiConfig.temperature,
-            topP: aiConfig.top_p, // Google uses topP
-            maxOutputTokens: aiConfig.max_tokens, // Google uses maxOutputTokens
-            // topK: aiConfig.top_k // Google uses topK
-          };
-           // Remove undefined values for Google as its API might be stricter
-           Object.keys(apiOptions).forEach(key => apiOptions[key] === undefined && delete apiOptions[key]);
+        // Warn when this month's spending is close to or over budget; declining leaves a failed reply to retry later
+        const budgetWarning = await UsageService.checkBudget(config.id, config.name, usageBudget).catch(() => null);
+        if (budgetWarning && !confirm(budgetWarning)) {
+          assistantIds.forEach(id => setReplyError(id, {
+            kind: 'quota',
+            message: '已按预算提醒取消发送。',
+            provider: config.name,
+            model: selectedModel
+          }));
+          return;
         }
 
+        const aiService = await AIServiceFactory.fromConfig(config, selectedModel);
 
-        // Use the messages prepared *before* the UI update
-        await aiService.chat(
-          messagesToSendToAI.map(m => ({ role: m.role, content: m.content })), // Use the captured state
-          apiOptions, // Pass filtered options
-          (chunk) => {
-            if (chunk && chunk.trim() !== '') {
-              setMessages(latestMessages =>
-                latestMessages.map(msg =>
-                  msg.id === assistantId ? { ...msg, content: msg.content + chunk } : msg
-                )
-              );
-            }
+        // Fall back to a local estimate when the provider doesn't report usage
+        const recordUsage = (response: ChatResponse, sent: ChatMessage[]) => {
+          UsageService.record({
+            providerId: config.id,
+            providerName: config.name,
+            model: selectedModel,
+            chatId: itemId,
+            ...(response.usage ?? {
+              inputTokens: estimateConversationTokens(sent, protocol),
+              outputTokens: estimateTokens(response.content, protocol)
+            }),
+            estimated: !response.usage || undefined
+          }, prices).catch(error => console.error('记录用量失败:', error));
+        };
+
+        const apiOptions = toApiOptions(protocol, aiConfig);
+
+        // Offer the tools of all running MCP servers to the model
+        const mcpTools = await McpService.listAllTools().catch(error => {
+          console.error('获取 MCP 工具失败:', error);
+          return [];
+        });
+        const updateToolCall = (assistantId: string, callId: string, patch: Partial<ToolCallRecord>) => {
+          patchMessage(assistantId, msg => ({
+            ...msg,
+            toolCalls: (msg.toolCalls || []).map(c => c.id === callId ? { ...c, ...patch } : c)
+          }));
+        };
+
+        const onStream = (index: number, chunk: string) => {
+          if (chunk) {
+            patchMessage(assistantIds[index], msg => ({ ...msg, content: msg.content + chunk }));
+          }
+        };
+
+        // Use the messages prepared *before* the UI update, trimmed to fit the model's context window
+        const sendable = history.filter(isSendable);
+        const conversation = sendable.map(toChatMessage);
+        const systemMessages = assistantSystemMessages();
+        const budget = getContextWindow(config, selectedModel) - aiConfig.max_tokens
+          - estimateConversationTokens(systemMessages, protocol)
+          - (contextSettings.strategy === 'summarize' ? SUMMARY_RESERVE_TOKENS : 0);
+        const start = planContext(conversation, contextSettings, budget, protocol);
+        let messagesToSend = conversation.slice(start);
+
+        if (start > 0 && contextSettings.strategy === 'summarize') {
+          // Older turns are folded into a summary, extending the previous one when possible
+          const throughMessageId = sendable[start - 1].id;
+          let summary = contextSummary;
+          if (summary?.throughMessageId !== throughMessageId) {
+            const covered = summary ? sendable.findIndex(m => m.id === summary!.throughMessageId) : -1;
+            const extendPrevious = covered !== -1 && covered < start - 1;
+            const summarized = conversation.slice(extendPrevious ? covered + 1 : 0, start);
+            const response = await summarizeMessages(
+              aiService,
+              summarized,
+              apiOptions,
+              extendPrevious ? summary!.content : undefined,
+              abortController.signal
+            );
+            recordUsage(response, summarized);
+            summary = { throughMessageId, content: response.content.trim() };
+            setContextSummary(summary);
           }
+          messagesToSend = [summaryMessage(summary.content), ...messagesToSend];
+        }
+        messagesToSend = [...systemMessages, ...messagesToSend];
+
+        // Tools are offered under their per-server callName and mapped back when called
+        const tools = mcpTools.map(tool => ({ name: tool.callName, description: tool.description, parameters: tool.inputSchema }));
+        const results = await aiService.chatCandidates(
+          messagesToSend,
+          apiOptions, // Pass filtered options
+          assistantIds.length,
+          (index) => ({
+            tools,
+            executeTool: async (call) => {
+              const tool = mcpTools.find(t => t.callName === call.name);
+              if (!tool) throw new Error(`未找到工具 ${call.name}`);
+              return McpService.resultToText(await McpService.callTool(tool.serverId, tool.name, call.arguments));
+            },
+            onToolCall: (call) => {
+              patchMessage(assistantIds[index], msg => ({
+                ...msg,
+                toolCalls: [...(msg.toolCalls || []), { id: call.id, name: call.name, arguments: call.arguments }]
+              }));
+            },
+            onToolResult: (call, result) => updateToolCall(assistantIds[index], call.id, { result }),
+            signal: abortController.signal
+          }),
+          onStream
         );
+        results.forEach((result, index) => {
+          if (result.status === 'fulfilled') {
+            recordUsage(result.value, messagesToSend);
+          } else {
+            failReply(assistantIds[index], result.reason);
+          }
+        });
+        const answered = results.find(result => result.status === 'fulfilled');
+        if (itemId && answered?.status === 'fulfilled') {
+          onReply(itemId, {
+            question: conversation[conversation.length - 1].content,
+            answer: answered.value.content,
+            providerId: config.id,
+            model: selectedModel,
+            isFirst: conversation.length === 1
+          });
+        }
       } catch (error) {
-        console.error('AI聊天错误:', error);
-        setMessages(latestMessages => latestMessages.map(msg =>
-          msg.id === assistantId ? { ...msg, content: '抱歉，发生错误: ' + (error instanceof Error ? error.message : String(error)) } : msg
-        ));
+        assistantIds.forEach(id => failReply(id, error));
       } finally {
+        abortControllerRef.current = null;
         setIsLoading(false);
       }
     })(); // Immediately invoke the async function
   };
 
+  // Live estimate of what the next request would carry, after trimming
+  const selectedConfig = providerConfigs.find(c => c.id === selectedProviderId);
+  const contextUsage = useMemo(() => {
+    if (!selectedConfig) return null;
+    const protocol = selectedConfig.protocol;
+    const conversation = messages.filter(isSendable).map(toChatMessage);
+    if (inputMessage.trim() || pendingImages.length > 0) {
+      conversation.push({ role: 'user', content: inputMessage, images: pendingImages });
+    }
+
+    const limit = getContextWindow(selectedConfig, selectedModel);
+    const summarize = contextSettings.strategy === 'summarize';
+    const systemTokens = estimateConversationTokens(assistantSystemMessages(), protocol);
+    const budget = limit - aiConfig.max_tokens - systemTokens - (summarize ? SUMMARY_RESERVE_TOKENS : 0);
+    const start = planContext(conversation, contextSettings, budget, protocol);
+    const summaryTokens = summarize && start > 0
+      ? (contextSummary ? estimateTokens(contextSummary.content, protocol) : SUMMARY_RESERVE_TOKENS)
+      : 0;
+    const keptTokens = estimateConversationTokens(conversation.slice(start), protocol);
+    return { used: keptTokens + summaryTokens + systemTokens, limit, omitted: start, overflow: keptTokens > budget };
+  }, [selectedConfig, selectedModel, messages, inputMessage, pendingImages, contextSettings, contextSummary, aiConfig.max_tokens, activeAssistant]);
+
   return (
     <div className="flex-1 flex flex-col">
       {/* Top Bar */}
@@ -301,37 +674,37 @@ export default function MainArea({ isSidebarOpen, toggleSidebar, providers, prov
           </button>
           {isModelDropdownOpen && (
             <div
-              className="absolute top-full left-0 mt-1 w-48 bg-white rounded-md shadow-lg py-1 z-20"
+              className="absolute top-full left-0 mt-1 w-56 max-h-96 overflow-y-auto bg-white rounded-md shadow-lg py-1 z-20"
               ref={dropdownRef}
             >
             <div className="px-4 py-2 text-sm font-medium text-gray-700 border-b border-gray-200">
               选择模型
             </div>
-            {/* Filter providers to only show those with an API key configured */}
-            {providers
-              .filter(provider => {
-                const providerId = provider.name.toLowerCase() as keyof typeof providerConfigs;
-                return providerConfigs[providerId]?.apiKey?.trim() !== '';
-              })
+            {/* Hide providers that still need an API key */}
+            {providerConfigs
+              .filter(isProviderReady)
               .map((provider) => (
-              <div key={provider.name}>
+              <div key={provider.id}>
                 <div className="px-4 py-2 text-sm font-medium text-gray-500">
                   {provider.name}
                 </div>
-                {provider.models.map((model) => (
+                {provider.availableModels.map((model) => {
+                  const isSelected = provider.id === selectedProviderId && model === selectedModel;
+                  return (
                   <button
                     key={model}
-                    className={`block w-full text-left px-6 py-2 text-sm ${model === selectedModel ? 'bg-gray-100 font-medium' : 'text-gray-700 hover:bg-gray-50'}`}
+                    className={`block w-full text-left px-6 py-2 text-sm ${isSelected ? 'bg-gray-100 font-medium' : 'text-gray-700 hover:bg-gray-50'}`}
                     onClick={() => {
-                      setSelectedProvider(provider.name);
+                      setSelectedProviderId(provider.id);
                       setSelectedModel(model);
                       setIsModelDropdownOpen(false); // Close dropdown on selection
                     }}
                   >
-                    {model}
-                    {model === selectedModel && <span className="float-right">✓</span>}
+                    {provider.modelInfo?.[model]?.displayName ?? model}
+                    {isSelected && <span className="float-right">✓</span>}
                   </button>
-                ))}
+                  );
+                })}
               </div>
             ))}
           </div>
@@ -351,6 +724,28 @@ export default function MainArea({ isSidebarOpen, toggleSidebar, providers, prov
 
       {/* Content Area */}
       <div className="flex-1 p-6 overflow-y-auto bg-white flex flex-col">
+      {messages.length === 0 && activeAssistant && (
+        <div className="m-auto text-center max-w-lg">
+          <div className="text-4xl mb-2">{activeAssistant.icon}</div>
+          <div className="text-xl font-semibold">{activeAssistant.name}</div>
+          {activeAssistant.description && (
+            <div className="text-sm text-gray-500 mt-1">{activeAssistant.description}</div>
+          )}
+          {activeAssistant.starterMessages.length > 0 && (
+            <div className="grid grid-cols-2 gap-2 mt-6">
+              {activeAssistant.starterMessages.map(starter => (
+                <button
+                  key={starter}
+                  className="border border-gray-200 rounded-lg px-3 py-2 text-sm text-left text-gray-700 hover:bg-gray-50"
+                  onClick={() => sendMessage(starter)}
+                >
+                  {starter}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
       <div className="flex flex-col space-y-4">
         {messages.map((message) => { // No need for index if using message.id as key
           const isLastAssistant = message.id === messages[messages.length - 1]?.id && message.role === 'assistant';
@@ -358,8 +753,18 @@ export default function MainArea({ isSidebarOpen, toggleSidebar, providers, prov
             <Bubble
               key={message.id} // Use stable message.id as key
               content={message.content}
+              images={message.images}
+              toolCalls={message.toolCalls}
+              isStopped={message.status === 'stopped'}
+              error={message.error}
+              onRetry={message.role === 'assistant' && !isLoading ? () => handleRetry(message.id) : undefined}
               isUser={message.role === 'user'}
               isStreaming={isLastAssistant && isLoading || undefined} // Optional: for visual indicator
+              onRegenerate={message.role === 'assistant' && !isLoading ? () => handleRegenerate(message.id) : undefined}
+              branch={branchInfo(tree, message.id)}
+              highlighted={message.id === highlightedMessageId}
+              onBranchChange={isLoading ? undefined : (offset) => setTree(prev => selectSibling(prev, message.id, offset))}
+              onEdit={message.role === 'user' && !isLoading ? (content) => handleEditMessage(message.id, content) : undefined}
             />
           );
         })}
@@ -372,6 +777,15 @@ export default function MainArea({ isSidebarOpen, toggleSidebar, providers, prov
         <div className="fixed right-0 top-0 h-full w-64 bg-white border-l border-gray-200 shadow-lg z-10">
           <div className="p-4 border-b border-gray-200">
             <h3 className="font-semibold">模型配置</h3>
+            {Object.keys(aiConfigOverrides).length > 0 && (
+              <button
+                className="text-xs text-blue-600 hover:underline"
+                onClick={() => setAiConfigOverrides({})}
+                title="使用设置中的默认参数"
+              >
+                恢复默认参数
+              </button>
+            )}
             <button
               className="absolute top-2 right-2 p-1 rounded hover:bg-gray-100"
               onClick={() => setIsConfigSidebarOpen(false)}
@@ -388,7 +802,7 @@ export default function MainArea({ isSidebarOpen, toggleSidebar, providers, prov
                 max="2"
                 step="0.1"
                 value={aiConfig.temperature}
-                onChange={(e) => setAiConfig({...aiConfig, temperature: parseFloat(e.target.value)})}
+                onChange={(e) => updateAiConfig({ temperature: parseFloat(e.target.value) })}
                 className="w-full"
               />
               <div className="flex justify-between text-xs text-gray-500">
@@ -407,7 +821,7 @@ export default function MainArea({ isSidebarOpen, toggleSidebar, providers, prov
                 min="1"
                 max="4000" // Consider adjusting based on model limits
                 value={aiConfig.max_tokens}
-                onChange={(e) => setAiConfig({...aiConfig, max_tokens: parseInt(e.target.value)})}
+                onChange={(e) => updateAiConfig({ max_tokens: parseInt(e.target.value) })}
                 className="w-full border border-gray-300 rounded px-2 py-1"
               />
               <div className="text-xs text-gray-500 text-center mt-1">
@@ -422,7 +836,7 @@ export default function MainArea({ isSidebarOpen, toggleSidebar, providers, prov
                 max="1"
                 step="0.1"
                 value={aiConfig.top_p}
-                onChange={(e) => setAiConfig({...aiConfig, top_p: parseFloat(e.target.value)})}
+                onChange={(e) => updateAiConfig({ top_p: parseFloat(e.target.value) })}
                 className="w-full"
               />
               <div className="text-xs text-gray-500 text-center mt-1">
@@ -437,7 +851,7 @@ export default function MainArea({ isSidebarOpen, toggleSidebar, providers, prov
                 max="2"
                 step="0.1"
                 value={aiConfig.frequency_penalty}
-                onChange={(e) => setAiConfig({...aiConfig, frequency_penalty: parseFloat(e.target.value)})}
+                onChange={(e) => updateAiConfig({ frequency_penalty: parseFloat(e.target.value) })}
                 className="w-full"
               />
               <div className="text-xs text-gray-500 text-center mt-1">
@@ -452,13 +866,51 @@ export default function MainArea({ isSidebarOpen, toggleSidebar, providers, prov
                 max="2"
                 step="0.1"
                 value={aiConfig.presence_penalty}
-                onChange={(e) => setAiConfig({...aiConfig, presence_penalty: parseFloat(e.target.value)})}
+                onChange={(e) => updateAiConfig({ presence_penalty: parseFloat(e.target.value) })}
                 className="w-full"
               />
               <div className="text-xs text-gray-500 text-center mt-1">
                 当前值: {aiConfig.presence_penalty}
               </div>
             </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">候选回复数</label>
+              <input
+                type="number"
+                min="1"
+                max="4"
+                value={aiConfig.candidate_count}
+                onChange={(e) => updateAiConfig({ candidate_count: Math.min(4, Math.max(1, parseInt(e.target.value) || 1)) })}
+                className="w-full border border-gray-300 rounded px-2 py-1"
+              />
+              <div className="text-xs text-gray-500 mt-1">
+                OpenAI 使用 n 参数一次生成，其他服务商并行请求
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">上下文策略</label>
+              <select
+                value={contextSettings.strategy}
+                onChange={(e) => setContextSettings({ ...contextSettings, strategy: e.target.value as ContextStrategy })}
+                className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+              >
+                {Object.entries(CONTEXT_STRATEGY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              {contextSettings.strategy === 'last_n' && (
+                <input
+                  type="number"
+                  min="1"
+                  value={contextSettings.lastTurns}
+                  onChange={(e) => setContextSettings({ ...contextSettings, lastTurns: Math.max(1, parseInt(e.target.value) || 1) })}
+                  className="w-full border border-gray-300 rounded px-2 py-1 mt-2"
+                />
+              )}
+              <div className="text-xs text-gray-500 mt-1">
+                超出模型上下文时始终会丢弃最早的消息
+              </div>
+            </div>
             {/* Removed the save button as config is saved on change via useEffect */}
           </div>
         </div>
@@ -466,14 +918,96 @@ export default function MainArea({ isSidebarOpen, toggleSidebar, providers, prov
 
       {/* Input Area */}
       <div className="p-4 border-t border-gray-200 flex-shrink-0">
+        {pendingImages.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-2">
+            {pendingImages.map(image => (
+              <div key={image.id} className="relative group">
+                <img
+                  src={imageToDataUrl(image)}
+                  alt={image.name}
+                  className="h-16 w-16 object-cover rounded border border-gray-300"
+                />
+                <button
+                  className="absolute -top-1 -right-1 w-5 h-5 rounded-full bg-gray-700 text-white text-xs opacity-0 group-hover:opacity-100"
+                  onClick={() => setPendingImages(prev => prev.filter(i => i.id !== image.id))}
+                  title="移除"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        {contextUsage && (
+          <div className={`text-xs mb-1 text-right ${contextUsage.overflow ? 'text-red-500' : 'text-gray-400'}`}>
+            上下文 ≈ {contextUsage.used.toLocaleString()} / {contextUsage.limit.toLocaleString()} tokens
+            {contextUsage.omitted > 0 && (
+              <span className="ml-2">
+                （{contextSettings.strategy === 'summarize' ? '已摘要' : '已省略'} {contextUsage.omitted} 条较早消息）
+              </span>
+            )}
+          </div>
+        )}
         <div className="relative">
+          {pickerTemplates.length > 0 && (
+            <TemplatePicker
+              templates={pickerTemplates}
+              highlightedIndex={Math.min(pickerIndex, pickerTemplates.length - 1)}
+              onHighlight={setPickerIndex}
+              onSelect={handleSelectTemplate}
+            />
+          )}
+          {formTemplate && (
+            <TemplateVariableForm
+              template={formTemplate}
+              onSubmit={(text) => {
+                setInputMessage(text);
+                setFormTemplate(null);
+                textareaRef.current?.focus();
+              }}
+              onCancel={() => {
+                setFormTemplate(null);
+                textareaRef.current?.focus();
+              }}
+            />
+          )}
           <textarea
+            ref={textareaRef}
             className="w-full border border-gray-300 rounded-lg p-3 pr-20 text-sm resize-none focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
             rows={1}
             placeholder="询问任何问题..."
             value={inputMessage}
-            onChange={(e) => setInputMessage(e.target.value)}
+            onChange={(e) => {
+              setInputMessage(e.target.value);
+              setIsPickerDismissed(false);
+              setPickerIndex(0);
+            }}
+            onPaste={(e) => {
+              const files = Array.from(e.clipboardData.files).filter(file => file.type.startsWith('image/'));
+              if (files.length > 0) {
+                e.preventDefault();
+                addImageFiles(files);
+              }
+            }}
             onKeyDown={(e) => {
+              if (pickerTemplates.length > 0) {
+                const index = Math.min(pickerIndex, pickerTemplates.length - 1);
+                if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                  e.preventDefault();
+                  const step = e.key === 'ArrowDown' ? 1 : -1;
+                  setPickerIndex((index + step + pickerTemplates.length) % pickerTemplates.length);
+                  return;
+                }
+                if (e.key === 'Enter' || e.key === 'Tab') {
+                  e.preventDefault();
+                  handleSelectTemplate(pickerTemplates[index]);
+                  return;
+                }
+                if (e.key === 'Escape') {
+                  setIsPickerDismissed(true);
+                  return;
+                }
+              }
               if (e.key === 'Enter' && !e.shiftKey) {
                 e.preventDefault();
                 handleSendMessage();
@@ -481,17 +1015,44 @@ export default function MainArea({ isSidebarOpen, toggleSidebar, providers, prov
             }}
           ></textarea>
           <div className="absolute bottom-2 right-3 flex items-center space-x-2">
-            <button className="p-1 rounded-full hover:bg-gray-100 text-gray-500">➕</button>
-            <button className="p-1 rounded-full hover:bg-gray-100 text-gray-500">🔍</button>
-            <button className="p-1 rounded-full hover:bg-gray-100 text-gray-500">💡</button>
-            <button className="p-1 rounded-full hover:bg-gray-100 text-gray-500">...</button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                addImageFiles(Array.from(e.target.files || []));
+                e.target.value = '';
+              }}
+            />
             <button
-              className={`w-8 h-8 rounded-full flex items-center justify-center ${isLoading ? 'bg-gray-400 cursor-not-allowed' : 'bg-black text-white hover:bg-gray-800'}`}
-              onClick={handleSendMessage}
-              disabled={isLoading}
+              className="p-1 rounded-full hover:bg-gray-100 text-gray-500"
+              title="添加图片"
+              onClick={() => fileInputRef.current?.click()}
             >
-              {isLoading ? '...' : '▲'} {/* Send icon or loading indicator */}
+              ➕
             </button>
+            <button className="p-1 rounded-full hover:bg-gray-100 text-gray-500">🔍</button>
+            <button className="p-1 rounded-full hover:bg-gray-100 text-gray-500">💡</button>
+            <button className="p-1 rounded-full hover:bg-gray-100 text-gray-500">...</button>
+            {isLoading ? (
+              <button
+                className="w-8 h-8 rounded-full flex items-center justify-center bg-black text-white hover:bg-gray-800"
+                onClick={handleStopGeneration}
+                title="停止生成"
+              >
+                ■
+              </button>
+            ) : (
+              <button
+                className="w-8 h-8 rounded-full flex items-center justify-center bg-black text-white hover:bg-gray-800"
+                onClick={handleSendMessage}
+                title="发送"
+              >
+                ▲
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,219 @@
+import { useState, useEffect } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { McpService, McpServerConfig, McpTool } from '../services/McpService';
+
+interface McpConfigTabProps {
+  servers: McpServerConfig[];
+  onServersChange: (servers: McpServerConfig[]) => void;
+}
+
+// env 在界面上按每行 KEY=VALUE 编辑
+const envToText = (env: Record<string, string>) =>
+  Object.entries(env).map(([key, value]) => `${key}=${value}`).join('\n');
+
+const textToEnv = (text: string) => {
+  const env: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const index = line.indexOf('=');
+    if (index > 0) {
+      env[line.slice(0, index).trim()] = line.slice(index + 1).trim();
+    }
+  }
+  return env;
+};
+
+export default function McpConfigTab({ servers, onServersChange }: McpConfigTabProps) {
+  const [activeServerId, setActiveServerId] = useState<string | null>(servers[0]?.id ?? null);
+  const [runningIds, setRunningIds] = useState<string[]>([]);
+  const [tools, setTools] = useState<McpTool[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [argsText, setArgsText] = useState('');
+  const [envText, setEnvText] = useState('');
+
+  const activeServer = servers.find(s => s.id === activeServerId);
+  const isRunning = activeServerId !== null && runningIds.includes(activeServerId);
+
+  useEffect(() => {
+    McpService.runningServers().then(setRunningIds).catch(console.error);
+  }, []);
+
+  // Sync the free-text fields when switching servers
+  useEffect(() => {
+    setArgsText(activeServer?.args.join('\n') ?? '');
+    setEnvText(envToText(activeServer?.env ?? {}));
+    setError('');
+    setTools([]);
+  }, [activeServerId]);
+
+  useEffect(() => {
+    if (activeServerId && isRunning) {
+      McpService.listTools(activeServerId).then(setTools).catch(e => setError(String(e)));
+    }
+  }, [activeServerId, isRunning]);
+
+  const updateServer = (patch: Partial<McpServerConfig>) => {
+    if (!activeServer) return;
+    onServersChange(servers.map(s => s.id === activeServer.id ? { ...s, ...patch } : s));
+  };
+
+  const handleAddServer = () => {
+    const newServer: McpServerConfig = {
+      id: uuidv4(),
+      name: '新的 MCP 服务',
+      command: '',
+      args: [],
+      env: {},
+      enabled: true
+    };
+    onServersChange([...servers, newServer]);
+    setActiveServerId(newServer.id);
+  };
+
+  const handleRemoveServer = async () => {
+    if (!activeServer) return;
+    await McpService.stopServer(activeServer.id).catch(console.error);
+    const remaining = servers.filter(s => s.id !== activeServer.id);
+    onServersChange(remaining);
+    setRunningIds(prev => prev.filter(id => id !== activeServer.id));
+    setActiveServerId(remaining[0]?.id ?? null);
+  };
+
+  const handleToggleRunning = async () => {
+    if (!activeServer) return;
+    setIsBusy(true);
+    setError('');
+    try {
+      if (isRunning) {
+        await McpService.stopServer(activeServer.id);
+        setTools([]);
+      } else {
+        await McpService.startServer(activeServer);
+      }
+      setRunningIds(await McpService.runningServers());
+    } catch (e) {
+      console.error('MCP 服务操作失败:', e);
+      setError(String(e));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex h-[400px]">
+      {/* 左侧服务列表 */}
+      <div className="w-48 border-r border-gray-700 overflow-y-auto">
+        <div className="p-2 space-y-1">
+          {servers.map(server => (
+            <button
+              key={server.id}
+              className={`text-white w-full text-left p-2 rounded text-sm flex items-center ${
+                activeServerId === server.id ? 'bg-gray-700' : 'hover:bg-gray-700'
+              }`}
+              onClick={() => setActiveServerId(server.id)}
+            >
+              <span className={`w-2 h-2 rounded-full mr-2 ${runningIds.includes(server.id) ? 'bg-green-400' : 'bg-gray-500'}`}></span>
+              <span className="truncate">{server.name}</span>
+            </button>
+          ))}
+          <button
+            className="w-full text-left p-2 rounded text-sm text-blue-400 hover:bg-gray-700"
+            onClick={handleAddServer}
+          >
+            ➕ 添加服务
+          </button>
+        </div>
+      </div>
+
+      {/* 右侧配置面板 */}
+      <div className="flex-1 p-4 overflow-y-auto">
+        {activeServer ? (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">名称</label>
+              <input
+                type="text"
+                className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm text-white"
+                value={activeServer.name}
+                onChange={(e) => updateServer({ name: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">命令</label>
+              <input
+                type="text"
+                className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm text-white"
+                placeholder="例如 npx 或 /usr/local/bin/my-mcp-server"
+                value={activeServer.command}
+                onChange={(e) => updateServer({ command: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">参数（每行一个）</label>
+              <textarea
+                rows={3}
+                className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm text-white font-mono"
+                value={argsText}
+                onChange={(e) => setArgsText(e.target.value)}
+                onBlur={() => updateServer({ args: argsText.split('\n').map(a => a.trim()).filter(Boolean) })}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">环境变量（KEY=VALUE）</label>
+              <textarea
+                rows={3}
+                className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm text-white font-mono"
+                value={envText}
+                onChange={(e) => setEnvText(e.target.value)}
+                onBlur={() => updateServer({ env: textToEnv(envText) })}
+              />
+            </div>
+            <label className="flex items-center text-sm text-gray-300">
+              <input
+                type="checkbox"
+                className="mr-2"
+                checked={activeServer.enabled}
+                onChange={(e) => updateServer({ enabled: e.target.checked })}
+              />
+              启动应用时自动运行
+            </label>
+
+            {error && <div className="text-sm text-red-400 break-all">{error}</div>}
+
+            <div className="flex gap-2">
+              <button
+                onClick={handleToggleRunning}
+                disabled={isBusy || !activeServer.command.trim()}
+                className={`flex-1 px-3 py-2 rounded text-sm text-white disabled:opacity-50 ${isRunning ? 'bg-gray-600 hover:bg-gray-500' : 'bg-green-600 hover:bg-green-700'}`}
+              >
+                {isBusy ? '处理中...' : isRunning ? '停止' : '启动'}
+              </button>
+              <button
+                onClick={handleRemoveServer}
+                className="px-3 py-2 bg-red-600 hover:bg-red-700 rounded text-sm text-white"
+              >
+                删除
+              </button>
+            </div>
+
+            {isRunning && (
+              <div>
+                <h3 className="text-sm font-medium text-gray-300 mb-2">可用工具（{tools.length}）</h3>
+                <ul className="space-y-1">
+                  {tools.map(tool => (
+                    <li key={tool.name} className="text-xs text-gray-400">
+                      <span className="font-mono text-gray-200">{tool.name}</span>
+                      {tool.description && <span> — {tool.description}</span>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="text-sm text-gray-400">尚未添加 MCP 服务</div>
+        )}
+      </div>
+    </div>
+  );
+}
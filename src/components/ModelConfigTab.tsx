@@ -1,78 +1,174 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import { AIServiceFactory, OllamaService } from '../services/AIService';
+import { ProviderConfig, ProviderProtocol, PROTOCOL_LABELS, createProviderConfig, isProviderReady, mergeFetchedModels, requiresApiKey } from '../services/ProviderConfig';
+import { getContextWindow } from '../services/ContextManager';
+import { KeyVault, VaultStatus } from '../services/KeyVault';
 
-interface Provider {
-  id: string;
-  name: string;
+interface ModelConfigTabProps {
+  providerConfigs: ProviderConfig[];
+  activeProviderId: string | null;
+  onProviderChange: (providerId: string) => void;
+  onProviderConfigsChange: (configs: ProviderConfig[]) => void;
+  vaultStatus: VaultStatus;
+  // Opens the passphrase prompt; API keys can only be saved while the vault is unlocked
+  onRequestUnlock: () => void;
 }
 
-interface ProviderConfig {
-  apiKey: string;
-  baseUrl: string;
-  modelName: string;
-  availableModels: string[];
-}
+// Extra request headers are edited as one "Name: value" per line
+const headersToText = (headers: Record<string, string>) =>
+  Object.entries(headers).map(([name, value]) => `${name}: ${value}`).join('\n');
 
-interface ModelConfigTabProps {
-  providers: Provider[];
-  activeProvider: string;
-  onProviderChange: (provider: string) => void;
-  config: ProviderConfig;
-  onConfigChange: (newConfig: ProviderConfig) => void;
-}
+const textToHeaders = (text: string) => {
+  const headers: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const index = line.indexOf(':');
+    if (index > 0) {
+      headers[line.slice(0, index).trim()] = line.slice(index + 1).trim();
+    }
+  }
+  return headers;
+};
 
 export default function ModelConfigTab({
-  providers,
-  activeProvider,
+  providerConfigs,
+  activeProviderId,
   onProviderChange,
-  config,
-  onConfigChange
+  onProviderConfigsChange,
+  vaultStatus,
+  onRequestUnlock
 }: ModelConfigTabProps) {
   const [customModelName, setCustomModelName] = useState('');
   const [isLoadingModels, setIsLoadingModels] = useState(false);
   const [showApiKey, setShowApiKey] = useState(false);
+  // A newly typed key; saved keys are never read back into the form
+  const [apiKeyDraft, setApiKeyDraft] = useState('');
+  const [fetchError, setFetchError] = useState('');
+  const [headersText, setHeadersText] = useState('');
+  const [newProtocol, setNewProtocol] = useState<ProviderProtocol>('openai');
+  const [pullModelName, setPullModelName] = useState('');
+  const [pullStatus, setPullStatus] = useState('');
+  const [isPulling, setIsPulling] = useState(false);
+
+  const config = providerConfigs.find(c => c.id === activeProviderId);
 
-  // Removed useEffect for loading config based on activeProvider, as it's now handled in App.tsx
+  useEffect(() => {
+    setHeadersText(headersToText(config?.headers ?? {}));
+    setApiKeyDraft('');
+    setFetchError('');
+  }, [activeProviderId]);
+
+  const onConfigChange = (newConfig: ProviderConfig) => {
+    onProviderConfigsChange(providerConfigs.map(c => c.id === newConfig.id ? newConfig : c));
+  };
+
+  const handleAddProvider = () => {
+    const newConfig = createProviderConfig(newProtocol);
+    onProviderConfigsChange([...providerConfigs, newConfig]);
+    onProviderChange(newConfig.id);
+  };
+
+  const handleRemoveProvider = () => {
+    if (!config || !confirm(`确定删除服务商「${config.name}」吗？`)) return;
+    KeyVault.deleteSecret(config.id).catch(error => console.error('删除 API Key 失败:', error));
+    const remaining = providerConfigs.filter(c => c.id !== config.id);
+    onProviderConfigsChange(remaining);
+    if (remaining[0]) onProviderChange(remaining[0].id);
+  };
 
   const handleFetchModels = async () => {
-    if (!config.apiKey) return;
+    if (!config || !isProviderReady(config)) return;
     
     setIsLoadingModels(true);
+    setFetchError('');
     try {
-      // 模拟API调用获取模型列表
-      const mockModels = {
-        openai: ['gpt-3.5-turbo', 'gpt-4', 'gpt-4-turbo'],
-        anthropic: ['claude-3-opus', 'claude-3-sonnet', 'claude-3-haiku'],
-        google: ['gemini-pro', 'gemini-ultra']
-      };
-      
-      onConfigChange({
-        ...config,
-        availableModels: mockModels[activeProvider as keyof typeof mockModels] || [],
-      });
+      const service = await AIServiceFactory.fromConfig(config);
+      const fetched = (await service.listModels()).filter(m => m.capabilities.includes('chat'));
+      onConfigChange(mergeFetchedModels(config, fetched));
     } catch (error) {
       console.error('获取模型列表失败:', error);
+      setFetchError(error instanceof Error ? error.message : String(error));
     } finally {
       setIsLoadingModels(false);
     }
   };
 
+  // Other fields are saved as they change; a new API key goes into the encrypted vault
+  const handleSave = async () => {
+    if (!config) return;
+    const apiKey = apiKeyDraft.trim();
+    if (apiKey) {
+      if (!vaultStatus.unlocked) {
+        onRequestUnlock();
+        return;
+      }
+      try {
+        await KeyVault.setSecret(config.id, apiKey);
+      } catch (error) {
+        alert(`保存 API Key 失败: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+      }
+      setApiKeyDraft('');
+      onConfigChange({ ...config, hasApiKey: true });
+    }
+    alert('配置已保存');
+  };
+
+  const handleClearApiKey = async () => {
+    if (!config || !confirm(`确定清除「${config.name}」的 API Key 吗？`)) return;
+    try {
+      await KeyVault.deleteSecret(config.id);
+      onConfigChange({ ...config, hasApiKey: false });
+    } catch (error) {
+      alert(`清除 API Key 失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handlePullModel = async () => {
+    const name = pullModelName.trim();
+    if (!config || !name) return;
+
+    setIsPulling(true);
+    setPullStatus('准备下载...');
+    try {
+      const service = await AIServiceFactory.fromConfig(config) as OllamaService;
+      await service.pullModel(name, ({ status, completed, total }) => {
+        setPullStatus(total && completed !== undefined
+          ? `${status} ${Math.floor(completed / total * 100)}%`
+          : status);
+      });
+      setPullStatus('下载完成');
+      setPullModelName('');
+      if (!config.availableModels.includes(name)) {
+        onConfigChange({ ...config, availableModels: [...config.availableModels, name], modelName: name });
+      }
+    } catch (error) {
+      console.error('拉取模型失败:', error);
+      setPullStatus(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsPulling(false);
+    }
+  };
+
   const handleAddModel = () => {
-    if (customModelName.trim()) {
+    const name = customModelName.trim();
+    if (config && name && !config.availableModels.includes(name)) {
       onConfigChange({
         ...config,
-        availableModels: [...config.availableModels, customModelName.trim()],
-        modelName: customModelName.trim()
+        availableModels: [...config.availableModels, name],
+        customModels: [...(config.customModels ?? []), name],
+        modelName: name
       });
       setCustomModelName('');
     }
   };
 
   const handleRemoveModel = () => {
-    if (config.modelName && config.availableModels.length > 1) {
+    if (config && config.modelName && config.availableModels.length > 1) {
       const newModels = config.availableModels.filter(m => m !== config.modelName);
       onConfigChange({
         ...config,
         availableModels: newModels,
+        customModels: config.customModels?.filter(m => m !== config.modelName),
         modelName: newModels[0]
       });
     }
@@ -83,26 +179,72 @@ export default function ModelConfigTab({
       {/* 左侧服务商菜单 */}
       <div className="w-48 border-r border-gray-700 overflow-y-auto">
         <div className="p-2 space-y-1">
-          {providers.map(provider => (
+          {providerConfigs.map(provider => (
             <button
               key={provider.id}
               className={`text-white w-full text-left p-2 rounded text-sm ${
-                activeProvider === provider.id ? 'bg-gray-700' : 'hover:bg-gray-700'
+                activeProviderId === provider.id ? 'bg-gray-700' : 'hover:bg-gray-700'
               }`}
               onClick={() => onProviderChange(provider.id)}
             >
-              {provider.name}
+              <div className="truncate">{provider.name}</div>
+              <div className="text-xs text-gray-400">{PROTOCOL_LABELS[provider.protocol]}</div>
             </button>
           ))}
+          <div className="pt-2 space-y-1">
+            <select
+              value={newProtocol}
+              onChange={(e) => setNewProtocol(e.target.value as ProviderProtocol)}
+              className="w-full bg-gray-700 border border-gray-600 rounded px-2 py-1 text-xs text-white"
+            >
+              {Object.entries(PROTOCOL_LABELS).map(([protocol, label]) => (
+                <option key={protocol} value={protocol}>{label}</option>
+              ))}
+            </select>
+            <button
+              className="w-full text-left p-2 rounded text-sm text-blue-400 hover:bg-gray-700"
+              onClick={handleAddProvider}
+            >
+              ➕ 添加服务商
+            </button>
+          </div>
         </div>
       </div>
 
       {/* 右侧配置面板 */}
       <div className="flex-1 p-4 overflow-y-auto">
+        {!config ? (
+          <div className="text-sm text-gray-400">请选择或添加一个服务商</div>
+        ) : (
         <div className="space-y-4">
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-300 mb-1">名称</label>
+              <input
+                type="text"
+                className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm text-white"
+                value={config.name}
+                onChange={(e) => onConfigChange({...config, name: e.target.value})}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">协议</label>
+              <select
+                value={config.protocol}
+                onChange={(e) => onConfigChange({...config, protocol: e.target.value as ProviderProtocol})}
+                className="bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm text-white"
+              >
+                {Object.entries(PROTOCOL_LABELS).map(([protocol, label]) => (
+                  <option key={protocol} value={protocol}>{label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
           <div>
                   <div className="flex items-center justify-between mb-1">
-                    <label className="block text-sm font-medium text-gray-300">API Key</label>
+                    <label className="block text-sm font-medium text-gray-300">
+                      API Key{!requiresApiKey(config) && <span className="text-gray-500">（可选）</span>}
+                    </label>
                     <button 
                       onClick={() => setShowApiKey(!showApiKey)}
                       className="text-xs text-blue-400 hover:text-blue-300"
@@ -110,12 +252,32 @@ export default function ModelConfigTab({
                       {showApiKey ? '隐藏' : '显示'}
                     </button>
                   </div>
-                  <input
-                    type={showApiKey ? "text" : "password"}
-                    className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm text-white"
-                    value={config.apiKey}
-                    onChange={(e) => onConfigChange({...config, apiKey: e.target.value})}
-                  />
+                  <div className="flex gap-2">
+                    <input
+                      type={showApiKey ? "text" : "password"}
+                      className="flex-1 bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm text-white"
+                      value={apiKeyDraft}
+                      onChange={(e) => setApiKeyDraft(e.target.value)}
+                      placeholder={config.hasApiKey ? '已加密保存，输入新的 Key 可替换' : ''}
+                    />
+                    {config.hasApiKey && (
+                      <button
+                        onClick={handleClearApiKey}
+                        className="px-3 py-2 bg-gray-600 hover:bg-gray-500 rounded text-sm"
+                      >
+                        清除
+                      </button>
+                    )}
+                  </div>
+                  {!vaultStatus.unlocked && (
+                    <div className="text-xs text-yellow-400 mt-1">
+                      {vaultStatus.initialized ? '密钥库已锁定，' : '尚未设置主密码，'}
+                      <button onClick={onRequestUnlock} className="text-blue-400 hover:underline">
+                        {vaultStatus.initialized ? '解锁' : '设置主密码'}
+                      </button>
+                      后才能保存或使用 API Key
+                    </div>
+                  )}
           </div>
           <div>
             <label className="block text-sm font-medium text-gray-300 mb-1">Base URL</label>
@@ -126,6 +288,16 @@ export default function ModelConfigTab({
               onChange={(e) => onConfigChange({...config, baseUrl: e.target.value})}
             />
           </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">自定义请求头（每行 Name: value）</label>
+            <textarea
+              rows={2}
+              className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm text-white font-mono"
+              value={headersText}
+              onChange={(e) => setHeadersText(e.target.value)}
+              onBlur={() => onConfigChange({...config, headers: textToHeaders(headersText)})}
+            />
+          </div>
           <div className="space-y-2">
             <div className="flex items-end gap-2">
               <div className="flex-1">
@@ -135,19 +307,65 @@ export default function ModelConfigTab({
                   onChange={(e) => onConfigChange({...config, modelName: e.target.value})}
                   className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm text-white"
                 >
+                  {config.availableModels.length === 0 && <option value="">请先获取或添加模型</option>}
                   {config.availableModels.map(model => (
-                    <option key={model} value={model}>{model}</option>
+                    <option key={model} value={model}>{config.modelInfo?.[model]?.displayName ?? model}</option>
                   ))}
                 </select>
               </div>
               <button
                 onClick={handleFetchModels}
-                disabled={!config.apiKey || isLoadingModels}
+                disabled={!isProviderReady(config) || isLoadingModels}
                 className="px-3 py-2 bg-blue-600 hover:bg-blue-700 rounded text-sm disabled:opacity-50"
               >
                 {isLoadingModels ? '获取中...' : '获取模型'}
               </button>
             </div>
+            {fetchError && <div className="text-xs text-red-400 break-all">{fetchError}</div>}
+            {config.protocol === 'ollama' && (
+              <div>
+                <div className="flex gap-2">
+                  <input
+                    value={pullModelName}
+                    onChange={(e) => setPullModelName(e.target.value)}
+                    className="flex-1 bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm text-white"
+                    placeholder="拉取模型，例如 qwen2.5:7b"
+                  />
+                  <button
+                    onClick={handlePullModel}
+                    disabled={isPulling || !pullModelName.trim()}
+                    className="px-3 py-2 bg-blue-600 hover:bg-blue-700 rounded text-sm disabled:opacity-50"
+                  >
+                    {isPulling ? '拉取中...' : '拉取'}
+                  </button>
+                </div>
+                {pullStatus && <div className="text-xs text-gray-400 mt-1 break-all">{pullStatus}</div>}
+              </div>
+            )}
+            {config.modelInfo?.[config.modelName] && (
+              <div className="text-xs text-gray-400">
+                <span>能力: {config.modelInfo[config.modelName].capabilities.join(', ')}</span>
+              </div>
+            )}
+            <div className="flex items-center gap-2 text-xs text-gray-400">
+              <span>上下文上限</span>
+              <input
+                type="number"
+                min="1"
+                value={config.contextWindows?.[config.modelName] ?? ''}
+                onChange={(e) => {
+                  const { [config.modelName]: _removed, ...rest } = config.contextWindows ?? {};
+                  const value = parseInt(e.target.value);
+                  onConfigChange({
+                    ...config,
+                    contextWindows: value > 0 ? { ...rest, [config.modelName]: value } : rest
+                  });
+                }}
+                className="w-32 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-white"
+                placeholder={getContextWindow(config, config.modelName).toLocaleString()}
+              />
+              <span>tokens（留空使用{config.modelInfo?.[config.modelName]?.contextWindow ? '服务商返回的值' : '默认估计'}）</span>
+            </div>
             <div className="flex gap-2">
               <input
                 value={customModelName}
@@ -174,21 +392,20 @@ export default function ModelConfigTab({
           <div className="mt-6">
             <button 
               className="w-full bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded text-sm"
-              onClick={() => {
-                // 保存配置到本地存储，确保包含baseUrl
-                localStorage.setItem(`aiConfig_${activeProvider}`, JSON.stringify({
-                  ...config,
-                  baseUrl: config.baseUrl
-                }));
-                // 通知父组件配置已保存
-                alert('配置已保存');
-              }}
+              onClick={handleSave}
             >
               保存配置
             </button>
+            <button
+              className="w-full mt-2 bg-red-600 hover:bg-red-700 text-white py-2 px-4 rounded text-sm"
+              onClick={handleRemoveProvider}
+            >
+              删除服务商
+            </button>
           </div>
         </div>
       </div>
+        )}
     </div>
     </div>
   );
@@ -0,0 +1,171 @@
+import { useState, useRef } from 'react';
+import {
+  PromptTemplate,
+  createTemplate,
+  exportTemplates,
+  extractVariables,
+  mergeTemplates,
+  parseTemplates
+} from '../services/PromptTemplate';
+
+interface PromptTemplatesTabProps {
+  templates: PromptTemplate[];
+  onTemplatesChange: (templates: PromptTemplate[]) => void;
+}
+
+export default function PromptTemplatesTab({ templates, onTemplatesChange }: PromptTemplatesTabProps) {
+  const [activeId, setActiveId] = useState<string | null>(templates[0]?.id ?? null);
+  const [status, setStatus] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const active = templates.find(t => t.id === activeId);
+
+  const updateTemplate = (patch: Partial<PromptTemplate>) => {
+    if (!active) return;
+    onTemplatesChange(templates.map(t => t.id === active.id ? { ...t, ...patch } : t));
+  };
+
+  const handleAdd = () => {
+    const template = createTemplate();
+    onTemplatesChange([...templates, template]);
+    setActiveId(template.id);
+  };
+
+  const handleRemove = () => {
+    if (!active) return;
+    const remaining = templates.filter(t => t.id !== active.id);
+    onTemplatesChange(remaining);
+    setActiveId(remaining[0]?.id ?? null);
+  };
+
+  const handleExport = async () => {
+    try {
+      await navigator.clipboard.writeText(exportTemplates(templates));
+      setStatus(`已复制 ${templates.length} 个模板的 JSON 到剪贴板`);
+    } catch (error) {
+      setStatus(`导出失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseTemplates(await file.text());
+      onTemplatesChange(mergeTemplates(templates, imported));
+      setStatus(`已导入 ${imported.length} 个模板`);
+    } catch (error) {
+      setStatus(`导入失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex h-[400px]">
+        {/* 左侧模板列表 */}
+        <div className="w-48 border-r border-gray-700 overflow-y-auto">
+          <div className="p-2 space-y-1">
+            {templates.map(template => (
+              <button
+                key={template.id}
+                className={`text-white w-full text-left p-2 rounded text-sm ${
+                  activeId === template.id ? 'bg-gray-700' : 'hover:bg-gray-700'
+                }`}
+                onClick={() => setActiveId(template.id)}
+              >
+                <div className="truncate">{template.name}</div>
+                {template.command && <div className="text-xs text-gray-400 truncate">/{template.command}</div>}
+              </button>
+            ))}
+            <button
+              className="w-full text-left p-2 rounded text-sm text-blue-400 hover:bg-gray-700"
+              onClick={handleAdd}
+            >
+              ➕ 添加模板
+            </button>
+          </div>
+        </div>
+
+        {/* 右侧编辑面板 */}
+        <div className="flex-1 p-4 overflow-y-auto">
+          {active ? (
+            <div className="space-y-4 text-sm">
+              <div className="flex gap-2">
+                <div className="flex-1">
+                  <label className="block font-medium text-gray-300 mb-1">名称</label>
+                  <input
+                    className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-white"
+                    value={active.name}
+                    onChange={(e) => updateTemplate({ name: e.target.value })}
+                  />
+                </div>
+                <div className="w-36">
+                  <label className="block font-medium text-gray-300 mb-1">命令</label>
+                  <input
+                    className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-white"
+                    placeholder="例如 review"
+                    value={active.command}
+                    onChange={(e) => updateTemplate({ command: e.target.value.replace(/[\s/]/g, '') })}
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block font-medium text-gray-300 mb-1">说明</label>
+                <input
+                  className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-white"
+                  value={active.description}
+                  onChange={(e) => updateTemplate({ description: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block font-medium text-gray-300 mb-1">内容（用 {'{{变量名}}'} 表示需要填写的部分）</label>
+                <textarea
+                  rows={8}
+                  className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-white font-mono"
+                  value={active.content}
+                  onChange={(e) => updateTemplate({ content: e.target.value })}
+                />
+                <div className="text-xs text-gray-400 mt-1">
+                  变量: {extractVariables(active.content).join(', ') || '无'}
+                </div>
+              </div>
+              <button
+                onClick={handleRemove}
+                className="px-3 py-2 bg-red-600 hover:bg-red-700 rounded text-white"
+              >
+                删除
+              </button>
+            </div>
+          ) : (
+            <div className="text-gray-400 text-sm">选择或添加一个模板</div>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 mt-3 text-sm">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = '';
+          }}
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-3 py-2 bg-gray-600 hover:bg-gray-500 rounded text-white"
+        >
+          导入 JSON
+        </button>
+        <button
+          onClick={handleExport}
+          className="px-3 py-2 bg-gray-600 hover:bg-gray-500 rounded text-white"
+        >
+          导出 JSON
+        </button>
+        {status && <span className="text-gray-400">{status}</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useState, useEffect } from 'react';
+import { ProviderConfig } from '../services/ProviderConfig';
+import { SearchDoc, SearchResult, SearchService } from '../services/SearchService';
+
+interface SearchPanelProps {
+  providerConfigs: ProviderConfig[];
+  // Titles of chats still in the sidebar; results from deleted chats are hidden
+  chatTitles: Record<string, string>;
+  onOpen: (doc: SearchDoc) => void;
+  onClose: () => void;
+}
+
+// Date inputs give "YYYY-MM-DD"; interpret them in local time
+const dayStart = (value: string) => value ? new Date(`${value}T00:00:00`).getTime() : undefined;
+const dayEnd = (value: string) => value ? new Date(`${value}T23:59:59.999`).getTime() : undefined;
+
+export default function SearchPanel({ providerConfigs, chatTitles, onOpen, onClose }: SearchPanelProps) {
+  // The first search after upgrading indexes every existing chat once
+  const [isReady, setIsReady] = useState(false);
+  const [models, setModels] = useState<string[]>([]);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [query, setQuery] = useState('');
+  const [providerId, setProviderId] = useState('');
+  const [model, setModel] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  useEffect(() => {
+    SearchService.models()
+      .then(next => {
+        setModels(next);
+        setIsReady(true);
+      })
+      .catch(error => {
+        console.error('加载搜索索引失败:', error);
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!isReady) return;
+    // Ignore results of a query that was typed over before it returned
+    let isCurrent = true;
+    SearchService.search(query, { providerId: providerId || undefined, model: model || undefined, from: dayStart(from), to: dayEnd(to) })
+      .then(next => {
+        if (isCurrent) setResults(next.filter(result => result.doc.chatId in chatTitles));
+      })
+      .catch(error => console.error('搜索失败:', error));
+    return () => {
+      isCurrent = false;
+    };
+  }, [isReady, query, providerId, model, from, to, chatTitles]);
+
+  return (
+    <div className="fixed inset-0 bg-gray-900/80 bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg p-6 w-2/3">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-white">搜索对话</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            ×
+          </button>
+        </div>
+
+        <input
+          autoFocus
+          className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-white text-sm"
+          placeholder='输入关键词，用引号搜索完整短语，如 "context window"'
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => e.key === 'Escape' && onClose()}
+        />
+        {/* The index only looks words up from their start */}
+        <div className="text-xs text-gray-500 mt-1">
+          英文等按词首匹配：stream 可以找到 streaming，但 script 找不到 TypeScript；中文可以匹配任意位置
+        </div>
+
+        <div className="flex gap-2 mt-2 text-sm">
+          <select
+            className="flex-1 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-white"
+            value={providerId}
+            onChange={(e) => setProviderId(e.target.value)}
+          >
+            <option value="">全部服务商</option>
+            {providerConfigs.map(provider => (
+              <option key={provider.id} value={provider.id}>{provider.name}</option>
+            ))}
+          </select>
+          <select
+            className="flex-1 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-white"
+            value={model}
+            onChange={(e) => setModel(e.target.value)}
+          >
+            <option value="">全部模型</option>
+            {models.map(m => (
+              <option key={m} value={m}>{m}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-white"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            title="开始日期"
+          />
+          <input
+            type="date"
+            className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-white"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            title="结束日期"
+          />
+        </div>
+
+        <div className="h-[400px] overflow-y-auto mt-3 space-y-1">
+          {!isReady && <div className="text-gray-400 text-sm">正在建立索引...</div>}
+          {isReady && query.trim() && results.length === 0 && (
+            <div className="text-gray-400 text-sm">没有找到匹配的消息</div>
+          )}
+          {results.map(({ doc, snippet }) => (
+            <button
+              key={`${doc.chatId}/${doc.messageId}`}
+              className="w-full text-left p-2 rounded hover:bg-gray-700"
+              onClick={() => onOpen(doc)}
+            >
+              <div className="flex items-center gap-2 text-xs text-gray-400">
+                <span className="text-gray-200 truncate">{chatTitles[doc.chatId]}</span>
+                <span>{doc.role === 'user' ? '提问' : '回复'}</span>
+                {doc.model && <span className="truncate">{doc.model}</span>}
+                {doc.timestamp && <span className="ml-auto flex-shrink-0">{new Date(doc.timestamp).toLocaleString()}</span>}
+              </div>
+              <div className="text-sm text-gray-300 mt-1 break-words">
+                {snippet.map((part, i) => part.highlight
+                  ? <mark key={i} className="bg-yellow-500/40 text-white rounded-sm">{part.text}</mark>
+                  : <span key={i}>{part.text}</span>
+                )}
+              </div>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
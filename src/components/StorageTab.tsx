@@ -0,0 +1,159 @@
+import { useEffect, useState } from 'react';
+import { ChatUsage, LegacyOrphan, StorageCleanup, StorageStats } from '../services/Database';
+
+interface StorageTabProps {
+  // Moves the selected chats to the trash
+  onTrash: (ids: string[]) => Promise<void>;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+// Space used per chat, plus cleanup of data no chat points to
+export default function StorageTab({ onTrash }: StorageTabProps) {
+  const [usage, setUsage] = useState<ChatUsage[]>([]);
+  const [stats, setStats] = useState<StorageStats | null>(null);
+  const [legacyOrphans, setLegacyOrphans] = useState<LegacyOrphan[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isBusy, setIsBusy] = useState(false);
+  const [status, setStatus] = useState('');
+
+  const refresh = async () => {
+    try {
+      const [nextUsage, nextStats] = await Promise.all([StorageCleanup.chatUsage(), StorageCleanup.stats()]);
+      setUsage(nextUsage);
+      setStats(nextStats);
+      setLegacyOrphans(await StorageCleanup.findLegacyOrphans());
+    } catch (error) {
+      setStatus(`读取存储信息失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  // Run a cleanup step, then show the new numbers
+  const run = async (task: () => Promise<string>) => {
+    setIsBusy(true);
+    try {
+      setStatus(await task());
+      await refresh();
+    } catch (error) {
+      setStatus(`操作失败: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const activeChats = usage.filter(chat => chat.deletedAt === null);
+  const allSelected = activeChats.length > 0 && activeChats.every(chat => selectedIds.has(chat.id));
+  const totalChatBytes = usage.reduce((sum, chat) => sum + chat.bytes, 0);
+  const legacyOrphanBytes = legacyOrphans.reduce((sum, orphan) => sum + orphan.bytes, 0);
+
+  const toggle = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleTrash = () => run(async () => {
+    const ids = [...selectedIds];
+    await onTrash(ids);
+    setSelectedIds(new Set());
+    return `已把 ${ids.length} 个对话移到回收站`;
+  });
+
+  const handleRemoveOrphans = () => run(async () => {
+    await StorageCleanup.deleteLegacyOrphans(legacyOrphans.map(orphan => orphan.key));
+    return `已删除 ${legacyOrphans.length} 项旧版数据`;
+  });
+
+  const handleCompact = () => run(async () => {
+    await StorageCleanup.compact();
+    return '数据库已压缩';
+  });
+
+  return (
+    <div className="space-y-4 text-sm">
+      {stats && (
+        <div className="flex items-center gap-2 text-gray-300">
+          <span>
+            数据库 {formatBytes(stats.fileBytes)}，对话占用 {formatBytes(totalChatBytes)}，可释放 {formatBytes(stats.freeBytes)}
+          </span>
+          <button
+            onClick={handleCompact}
+            disabled={isBusy || stats.freeBytes === 0}
+            className="ml-auto px-3 py-1 bg-gray-600 hover:bg-gray-500 rounded text-white disabled:opacity-50"
+          >
+            压缩
+          </button>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 text-gray-300">
+        <span>
+          {legacyOrphans.length > 0
+            ? `孤立数据：旧版 store.bin 中 ${legacyOrphans.length} 项（${formatBytes(legacyOrphanBytes)}）`
+            : '没有找到孤立数据'}
+        </span>
+        <button
+          onClick={handleRemoveOrphans}
+          disabled={isBusy || legacyOrphans.length === 0}
+          className="ml-auto px-3 py-1 bg-gray-600 hover:bg-gray-500 rounded text-white disabled:opacity-50"
+        >
+          清理
+        </button>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="font-medium text-gray-300">各对话占用的空间</label>
+          <button
+            className="text-blue-400 hover:underline"
+            onClick={() => setSelectedIds(allSelected ? new Set() : new Set(activeChats.map(chat => chat.id)))}
+          >
+            {allSelected ? '取消全选' : '全选'}
+          </button>
+        </div>
+        <div className="h-64 overflow-y-auto border border-gray-700 rounded p-2 space-y-1">
+          {usage.map(chat => (
+            <label key={chat.id} className="flex items-center gap-2 p-1 rounded hover:bg-gray-700 text-white cursor-pointer">
+              <input
+                type="checkbox"
+                disabled={chat.deletedAt !== null}
+                checked={selectedIds.has(chat.id)}
+                onChange={() => toggle(chat.id)}
+              />
+              <span>{chat.icon}</span>
+              <span className="truncate flex-1">{chat.title}</span>
+              {chat.deletedAt !== null && <span className="text-xs text-gray-500">回收站中</span>}
+              <span className="text-xs text-gray-400 flex-shrink-0">
+                {chat.messageCount} 条消息 · {formatBytes(chat.bytes)}
+              </span>
+            </label>
+          ))}
+          {usage.length === 0 && <div className="text-gray-400">还没有对话</div>}
+        </div>
+      </div>
+
+      <button
+        onClick={handleTrash}
+        disabled={isBusy || selectedIds.size === 0}
+        className="px-3 py-2 bg-red-600 hover:bg-red-700 rounded text-white disabled:opacity-50"
+      >
+        移到回收站 {selectedIds.size > 0 ? `(${selectedIds.size})` : ''}
+      </button>
+      {status && <div className="text-gray-400">{status}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { PromptTemplate } from '../services/PromptTemplate';
+
+interface TemplatePickerProps {
+  templates: PromptTemplate[];
+  highlightedIndex: number;
+  onHighlight: (index: number) => void;
+  onSelect: (template: PromptTemplate) => void;
+}
+
+// Slash-command list shown above the composer
+export default function TemplatePicker({ templates, highlightedIndex, onHighlight, onSelect }: TemplatePickerProps) {
+  return (
+    <div className="absolute bottom-full left-0 mb-2 w-80 max-h-64 overflow-y-auto bg-white rounded-md shadow-lg border border-gray-200 py-1 z-20">
+      {templates.map((template, index) => (
+        <button
+          key={template.id}
+          className={`block w-full text-left px-3 py-2 text-sm ${index === highlightedIndex ? 'bg-gray-100' : 'hover:bg-gray-50'}`}
+          onMouseEnter={() => onHighlight(index)}
+          // Keep focus in the textarea
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onSelect(template)}
+        >
+          <div className="flex items-center">
+            <span className="font-medium text-gray-800">{template.name}</span>
+            {template.command && <span className="ml-2 text-xs text-gray-400">/{template.command}</span>}
+          </div>
+          {template.description && (
+            <div className="text-xs text-gray-500 truncate">{template.description}</div>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+}
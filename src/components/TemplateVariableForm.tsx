@@ -0,0 +1,56 @@
+import { useState } from 'react';
+import { PromptTemplate, extractVariables, renderTemplate } from '../services/PromptTemplate';
+
+interface TemplateVariableFormProps {
+  template: PromptTemplate;
+  onSubmit: (text: string) => void;
+  onCancel: () => void;
+}
+
+// Fills in a template's {{variables}} before it goes into the composer
+export default function TemplateVariableForm({ template, onSubmit, onCancel }: TemplateVariableFormProps) {
+  const variables = extractVariables(template.content);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  return (
+    <form
+      className="absolute bottom-full left-0 mb-2 w-96 bg-white rounded-md shadow-lg border border-gray-200 p-3 z-20 space-y-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit(renderTemplate(template.content, values));
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') onCancel();
+      }}
+    >
+      <div className="text-sm font-medium text-gray-800">{template.name}</div>
+      {variables.map((name, index) => (
+        <div key={name}>
+          <label className="block text-xs text-gray-500 mb-1">{name}</label>
+          <textarea
+            rows={2}
+            autoFocus={index === 0}
+            className="w-full border border-gray-300 rounded px-2 py-1 text-sm resize-y focus:outline-none focus:ring-1 focus:ring-blue-500"
+            value={values[name] ?? ''}
+            onChange={(e) => setValues({ ...values, [name]: e.target.value })}
+            onKeyDown={(e) => {
+              // Ctrl/Cmd+Enter submits, plain Enter adds a line
+              if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                e.preventDefault();
+                onSubmit(renderTemplate(template.content, values));
+              }
+            }}
+          />
+        </div>
+      ))}
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-3 py-1 text-sm text-gray-600 hover:bg-gray-100 rounded">
+          取消
+        </button>
+        <button type="submit" className="px-3 py-1 text-sm bg-black text-white rounded hover:bg-gray-800">
+          插入
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+import { HistoryItem } from '../services/ChatRecord';
+import { ChatDatabase, TRASH_RETENTION_DAYS } from '../services/Database';
+
+interface TrashModalProps {
+  // Restored chats go back into the sidebar
+  onRestored: (items: HistoryItem[]) => void;
+  onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysLeft = (deletedAt: number) =>
+  Math.max(0, Math.ceil((deletedAt + TRASH_RETENTION_DAYS * DAY_MS - Date.now()) / DAY_MS));
+
+// Deleted chats, restorable until they are purged after TRASH_RETENTION_DAYS
+export default function TrashModal({ onRestored, onClose }: TrashModalProps) {
+  const [items, setItems] = useState<HistoryItem[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [status, setStatus] = useState('');
+
+  useEffect(() => {
+    ChatDatabase.listTrash().then(setItems).catch(error => {
+      setStatus(`读取回收站失败: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  }, []);
+
+  const allSelected = items.length > 0 && items.every(item => selectedIds.has(item.id));
+  const selected = items.filter(item => selectedIds.has(item.id));
+
+  const toggle = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const forget = (ids: string[]) => {
+    setItems(prev => prev.filter(item => !ids.includes(item.id)));
+    setSelectedIds(new Set());
+  };
+
+  const handleRestore = async () => {
+    const ids = selected.map(item => item.id);
+    try {
+      await ChatDatabase.restoreChats(ids);
+      forget(ids);
+      onRestored(selected.map(item => ({ ...item, deletedAt: undefined })));
+      setStatus(`已恢复 ${ids.length} 个对话`);
+    } catch (error) {
+      setStatus(`恢复失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleDelete = async () => {
+    const ids = selected.map(item => item.id);
+    if (!confirm(`彻底删除选中的 ${ids.length} 个对话？删除后无法恢复。`)) return;
+    try {
+      await ChatDatabase.deleteChats(ids);
+      forget(ids);
+      setStatus(`已彻底删除 ${ids.length} 个对话`);
+    } catch (error) {
+      setStatus(`删除失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleEmpty = async () => {
+    if (!confirm(`清空回收站中的 ${items.length} 个对话？删除后无法恢复。`)) return;
+    try {
+      const count = await ChatDatabase.purgeTrash();
+      forget(items.map(item => item.id));
+      setStatus(`已彻底删除 ${count} 个对话`);
+    } catch (error) {
+      setStatus(`清空失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900/80 bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg p-6 w-1/2 space-y-3 text-sm">
+        <div className="flex justify-between items-center">
+          <h2 className="text-xl font-semibold text-white">回收站</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            ×
+          </button>
+        </div>
+        <div className="text-gray-400">删除的对话会在回收站中保留 {TRASH_RETENTION_DAYS} 天，之后自动彻底删除。</div>
+
+        <div className="flex items-center justify-between">
+          <button
+            className="text-blue-400 hover:underline disabled:opacity-50 disabled:no-underline"
+            disabled={items.length === 0}
+            onClick={() => setSelectedIds(allSelected ? new Set() : new Set(items.map(item => item.id)))}
+          >
+            {allSelected ? '取消全选' : '全选'}
+          </button>
+          <span className="text-gray-400">{items.length} 个对话</span>
+        </div>
+        <div className="h-72 overflow-y-auto border border-gray-700 rounded p-2 space-y-1">
+          {items.map(item => (
+            <label key={item.id} className="flex items-center gap-2 p-1 rounded hover:bg-gray-700 text-white cursor-pointer">
+              <input type="checkbox" checked={selectedIds.has(item.id)} onChange={() => toggle(item.id)} />
+              <span>{item.icon}</span>
+              <span className="truncate flex-1">{item.text}</span>
+              {item.deletedAt && (
+                <span className="text-xs text-gray-400 flex-shrink-0">
+                  {new Date(item.deletedAt).toLocaleDateString()} 删除 · {daysLeft(item.deletedAt)} 天后清除
+                </span>
+              )}
+            </label>
+          ))}
+          {items.length === 0 && <div className="text-gray-400">回收站是空的</div>}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleRestore}
+            disabled={selected.length === 0}
+            className="px-3 py-2 bg-blue-600 hover:bg-blue-700 rounded text-white disabled:opacity-50"
+          >
+            恢复 {selected.length > 0 ? `(${selected.length})` : ''}
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={selected.length === 0}
+            className="px-3 py-2 bg-gray-600 hover:bg-gray-500 rounded text-white disabled:opacity-50"
+          >
+            彻底删除 {selected.length > 0 ? `(${selected.length})` : ''}
+          </button>
+          <button
+            onClick={handleEmpty}
+            disabled={items.length === 0}
+            className="ml-auto px-3 py-2 bg-red-600 hover:bg-red-700 rounded text-white disabled:opacity-50"
+          >
+            清空回收站
+          </button>
+        </div>
+        {status && <div className="text-gray-400">{status}</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,277 @@
+import { useState, useEffect } from 'react';
+import { ProviderConfig } from '../services/ProviderConfig';
+import { Settings, useSettings } from '../services/Settings';
+import {
+  DEFAULT_PRICES,
+  PriceTable,
+  UsageBudget,
+  UsageGroupBy,
+  UsageService,
+  UsageSummary,
+  formatCost,
+  startOfMonth
+} from '../services/UsageService';
+
+interface UsageTabProps {
+  providerConfigs: ProviderConfig[];
+  // Chat titles by id, used to label the per-chat breakdown
+  chatTitles: Record<string, string>;
+}
+
+type UsagePeriod = 'month' | 'last30' | 'all';
+
+const GROUP_LABELS: Record<UsageGroupBy, string> = {
+  day: '按天',
+  provider: '按服务商',
+  model: '按模型',
+  chat: '按对话'
+};
+
+const GROUP_COLUMNS: Record<UsageGroupBy, string> = {
+  day: '日期',
+  provider: '服务商',
+  model: '模型',
+  chat: '对话'
+};
+
+const PERIOD_LABELS: Record<UsagePeriod, string> = {
+  month: '本月',
+  last30: '最近 30 天',
+  all: '全部'
+};
+
+const periodStart = (period: UsagePeriod) => {
+  if (period === 'month') return startOfMonth();
+  if (period === 'last30') return Date.now() - 30 * 24 * 60 * 60 * 1000;
+  return 0;
+};
+
+export default function UsageTab({ providerConfigs, chatTitles }: UsageTabProps) {
+  const { prices, budget } = useSettings();
+  const [rows, setRows] = useState<UsageSummary[]>([]);
+  const [period, setPeriod] = useState<UsagePeriod>('month');
+  const [groupBy, setGroupBy] = useState<UsageGroupBy>('day');
+  const [newPriceModel, setNewPriceModel] = useState('');
+
+  useEffect(() => {
+    // Ignore a summary that arrives after the period or grouping changed again
+    let current = true;
+    UsageService.summarize(groupBy, periodStart(period))
+      .then(next => current && setRows(next))
+      .catch(console.error);
+    return () => { current = false; };
+  }, [period, groupBy]);
+
+  const requests = rows.reduce((sum, row) => sum + row.requests, 0);
+  const totalCost = rows.reduce((sum, row) => sum + row.cost, 0);
+
+  const rowLabel = (key: string) => {
+    if (groupBy !== 'chat') return key;
+    if (!key) return '（无对话）';
+    return chatTitles[key] ?? '（已删除的对话）';
+  };
+
+  const updatePrices = (next: PriceTable) => {
+    Settings.update({ prices: next });
+  };
+
+  const updateBudget = (next: UsageBudget) => {
+    Settings.update({ budget: next });
+  };
+
+  const handleAddPrice = () => {
+    const model = newPriceModel.trim();
+    if (!model || prices[model]) return;
+    updatePrices({ ...prices, [model]: { input: 0, output: 0 } });
+    setNewPriceModel('');
+  };
+
+  const handleClearRecords = async () => {
+    if (!confirm('确定清空所有用量记录吗？')) return;
+    await UsageService.clearRecords();
+    setRows([]);
+  };
+
+  // Empty input clears the limit
+  const parseLimit = (value: string) => {
+    const limit = parseFloat(value);
+    return limit > 0 ? limit : undefined;
+  };
+
+  return (
+    <div className="h-[400px] overflow-y-auto space-y-6 text-sm text-gray-300">
+      {/* 用量汇总 */}
+      <div>
+        <div className="flex items-center gap-2 mb-3">
+          <select
+            value={period}
+            onChange={(e) => setPeriod(e.target.value as UsagePeriod)}
+            className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-white"
+          >
+            {Object.entries(PERIOD_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <select
+            value={groupBy}
+            onChange={(e) => setGroupBy(e.target.value as UsageGroupBy)}
+            className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-white"
+          >
+            {Object.entries(GROUP_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <span className="ml-auto text-white">
+            {requests > 0 ? `${requests} 次请求 · ${formatCost(totalCost)}` : '暂无用量'}
+          </span>
+        </div>
+        {rows.length > 0 && (
+          <table className="w-full text-left">
+            <thead className="text-xs text-gray-400 border-b border-gray-700">
+              <tr>
+                <th className="py-1 font-normal">{GROUP_COLUMNS[groupBy]}</th>
+                <th className="py-1 font-normal text-right">请求</th>
+                <th className="py-1 font-normal text-right">输入 tokens</th>
+                <th className="py-1 font-normal text-right">输出 tokens</th>
+                <th className="py-1 font-normal text-right">花费</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.key} className="border-b border-gray-700/50">
+                  <td className="py-1 pr-2 truncate max-w-[12rem] text-white">{rowLabel(row.key)}</td>
+                  <td className="py-1 text-right">{row.requests}</td>
+                  <td className="py-1 text-right">{row.inputTokens.toLocaleString()}</td>
+                  <td className="py-1 text-right">{row.outputTokens.toLocaleString()}</td>
+                  <td className="py-1 text-right">{formatCost(row.cost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {rows.some(row => row.estimatedRequests > 0) && (
+          <div className="text-xs text-gray-500 mt-1">部分服务商未返回用量，相应记录为估算值</div>
+        )}
+      </div>
+
+      {/* 每月预算 */}
+      <div>
+        <h3 className="font-medium text-white mb-2">每月预算（美元）</h3>
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="w-32">总预算</span>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={budget.monthlyLimit ?? ''}
+              onChange={(e) => updateBudget({ ...budget, monthlyLimit: parseLimit(e.target.value) })}
+              className="w-28 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-white"
+              placeholder="不限"
+            />
+          </div>
+          {providerConfigs.map(config => (
+            <div key={config.id} className="flex items-center gap-2">
+              <span className="w-32 truncate">{config.name}</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={budget.providerLimits[config.id] ?? ''}
+                onChange={(e) => {
+                  const { [config.id]: _removed, ...rest } = budget.providerLimits;
+                  const limit = parseLimit(e.target.value);
+                  updateBudget({ ...budget, providerLimits: limit ? { ...rest, [config.id]: limit } : rest });
+                }}
+                className="w-28 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-white"
+                placeholder="不限"
+              />
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <span className="w-32">提醒阈值</span>
+            <input
+              type="number"
+              min="1"
+              max="100"
+              value={Math.round(budget.warnRatio * 100)}
+              onChange={(e) => updateBudget({ ...budget, warnRatio: Math.min(100, Math.max(1, parseInt(e.target.value) || 80)) / 100 })}
+              className="w-28 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-white"
+            />
+            <span className="text-xs text-gray-400">% 时发送前提醒</span>
+          </div>
+        </div>
+      </div>
+
+      {/* 价格表 */}
+      <div>
+        <div className="flex items-center mb-2">
+          <h3 className="font-medium text-white">模型价格（美元 / 百万 tokens）</h3>
+          <button
+            onClick={() => confirm('恢复默认价格表吗？') && updatePrices({ ...DEFAULT_PRICES })}
+            className="ml-auto text-xs text-blue-400 hover:text-blue-300"
+          >
+            恢复默认
+          </button>
+        </div>
+        <div className="text-xs text-gray-400 mb-2">模型名按前缀匹配，修改只影响之后的记录</div>
+        <div className="space-y-1">
+          {Object.entries(prices).map(([model, price]) => (
+            <div key={model} className="flex items-center gap-2">
+              <span className="flex-1 truncate text-white">{model}</span>
+              <span className="text-xs text-gray-400">输入</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={price.input}
+                onChange={(e) => updatePrices({ ...prices, [model]: { ...price, input: parseFloat(e.target.value) || 0 } })}
+                className="w-20 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-white"
+              />
+              <span className="text-xs text-gray-400">输出</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={price.output}
+                onChange={(e) => updatePrices({ ...prices, [model]: { ...price, output: parseFloat(e.target.value) || 0 } })}
+                className="w-20 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-white"
+              />
+              <button
+                onClick={() => {
+                  const { [model]: _removed, ...rest } = prices;
+                  updatePrices(rest);
+                }}
+                className="text-gray-400 hover:text-red-400"
+                title="删除"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-2 mt-2">
+          <input
+            value={newPriceModel}
+            onChange={(e) => setNewPriceModel(e.target.value)}
+            className="flex-1 bg-gray-700 border border-gray-600 rounded px-3 py-1 text-white"
+            placeholder="模型名或前缀"
+          />
+          <button
+            onClick={handleAddPrice}
+            className="px-3 py-1 bg-green-600 hover:bg-green-700 rounded text-white"
+          >
+            添加
+          </button>
+        </div>
+      </div>
+
+      <button
+        onClick={handleClearRecords}
+        className="px-3 py-2 bg-red-600 hover:bg-red-700 rounded text-white"
+      >
+        清空用量记录
+      </button>
+    </div>
+  );
+}
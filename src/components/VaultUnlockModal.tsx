@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { KeyVault, VaultStatus } from '../services/KeyVault';
+
+interface VaultUnlockModalProps {
+  status: VaultStatus;
+  onUnlocked: () => void;
+  // The vault was wiped after a forgotten passphrase; every saved key is gone
+  onReset: () => void;
+  onClose: () => void;
+}
+
+// Sets the master passphrase on first use, or unlocks the existing vault
+export default function VaultUnlockModal({ status, onUnlocked, onReset, onClose }: VaultUnlockModalProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const isSetup = !status.initialized;
+
+  const handleSubmit = async () => {
+    if (!passphrase) return;
+    if (isSetup && passphrase !== confirmation) {
+      setError('两次输入的主密码不一致');
+      return;
+    }
+    setIsBusy(true);
+    setError('');
+    try {
+      await KeyVault.unlock(passphrase);
+      onUnlocked();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!confirm('清空密钥库后，所有服务商的 API Key 都需要重新填写。确定继续吗？')) return;
+    try {
+      await KeyVault.reset();
+      setPassphrase('');
+      onReset();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900/80 bg-opacity-50 flex items-center justify-center z-50">
+      <form
+        className="bg-gray-800 rounded-lg p-6 w-96 space-y-3 text-sm"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleSubmit();
+        }}
+      >
+        <div className="flex justify-between items-center">
+          <h2 className="text-xl font-semibold text-white">{isSetup ? '设置主密码' : '解锁密钥库'}</h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-white">
+            ×
+          </button>
+        </div>
+        <div className="text-gray-400">
+          {isSetup
+            ? 'API Key 会用主密码加密后保存，主密码本身不会被保存，忘记后只能清空密钥库重新填写。'
+            : '输入主密码后才能使用已保存的 API Key。'}
+        </div>
+        <input
+          type="password"
+          autoFocus
+          className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-white"
+          placeholder="主密码"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+        />
+        {isSetup && (
+          <input
+            type="password"
+            className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-white"
+            placeholder="再次输入主密码"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+          />
+        )}
+        {error && <div className="text-red-400">{error}</div>}
+        <div className="flex items-center gap-2">
+          {!isSetup && (
+            <button type="button" onClick={handleReset} className="text-gray-400 hover:text-red-400">
+              忘记主密码？
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={!passphrase || isBusy}
+            className="ml-auto px-3 py-2 bg-blue-600 hover:bg-blue-700 rounded text-white disabled:opacity-50"
+          >
+            {isBusy ? '处理中...' : isSetup ? '设置' : '解锁'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
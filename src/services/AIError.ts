@@ -0,0 +1,163 @@
+/**
+ * 模型调用错误的分类
+ */
+export type AIErrorKind =
+  | 'auth'
+  | 'rate_limit'
+  | 'quota'
+  | 'context_length'
+  | 'network'
+  | 'server'
+  | 'content_filter'
+  | 'unknown';
+
+/**
+ * 可序列化的错误信息，随消息一起保存
+ */
+export interface AIErrorInfo {
+  kind: AIErrorKind;
+  message: string;
+  provider?: string;
+  model?: string;
+  status?: number;
+}
+
+export const ERROR_KIND_LABELS: Record<AIErrorKind, string> = {
+  auth: '认证失败',
+  rate_limit: '请求过于频繁',
+  quota: '额度不足',
+  context_length: '上下文过长',
+  network: '网络错误',
+  server: '服务端错误',
+  content_filter: '内容被过滤',
+  unknown: '未知错误'
+};
+
+/**
+ * 带服务商信息的模型调用错误
+ */
+export class AIError extends Error {
+  readonly kind: AIErrorKind;
+  readonly provider: string;
+  readonly model: string;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    kind: AIErrorKind,
+    message: string,
+    meta: { provider: string; model: string; status?: number; retryAfterMs?: number }
+  ) {
+    super(`${meta.provider} API错误: ${message}`);
+    this.name = 'AIError';
+    this.kind = kind;
+    this.provider = meta.provider;
+    this.model = meta.model;
+    this.status = meta.status;
+    this.retryAfterMs = meta.retryAfterMs;
+  }
+
+  /**
+   * 限流、服务端错误和网络错误可以自动重试
+   */
+  get retryable(): boolean {
+    return this.kind === 'rate_limit' || this.kind === 'server' || this.kind === 'network';
+  }
+
+  toInfo(): AIErrorInfo {
+    return { kind: this.kind, message: this.message, provider: this.provider, model: this.model, status: this.status };
+  }
+}
+
+const QUOTA_PATTERN = /quota|billing|credit|insufficient_balance|余额/i;
+const CONTEXT_PATTERN = /context.?length|context window|maximum context|too long|too many tokens|token count/i;
+const FILTER_PATTERN = /content.?filter|content management|safety|blocked|moderation/i;
+
+/**
+ * 根据 HTTP 状态码和错误信息判断错误类型
+ */
+export function classifyError(status: number | undefined, message: string): AIErrorKind {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return QUOTA_PATTERN.test(message) ? 'quota' : 'rate_limit';
+  if (status === 402) return 'quota';
+  if (status !== undefined && status >= 500) return 'server';
+  if (CONTEXT_PATTERN.test(message)) return 'context_length';
+  if (FILTER_PATTERN.test(message)) return 'content_filter';
+  return 'unknown';
+}
+
+/**
+ * 解析 Retry-After（秒数或 HTTP 日期），以及部分服务商使用的 retry-after-ms
+ */
+export function parseRetryAfter(headers: Headers): number | undefined {
+  const ms = headers.get('retry-after-ms');
+  if (ms && !isNaN(Number(ms))) return Number(ms);
+
+  const value = headers.get('retry-after');
+  if (!value) return undefined;
+  if (!isNaN(Number(value))) return Number(value) * 1000;
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * 从错误响应构造 AIError，兼容 OpenAI、Anthropic、Gemini 和 Ollama 的错误结构
+ */
+export async function errorFromResponse(response: Response, provider: string, model: string): Promise<AIError> {
+  let message = response.statusText || `HTTP ${response.status}`;
+  try {
+    const body = await response.json();
+    const error = body.error ?? body;
+    message = typeof error === 'string' ? error : error.message || error.code || message;
+  } catch {
+    // 非 JSON 响应体，保留状态文本
+  }
+  return new AIError(classifyError(response.status, message), message, {
+    provider,
+    model,
+    status: response.status,
+    retryAfterMs: parseRetryAfter(response.headers)
+  });
+}
+
+/**
+ * 重试策略：指数退避，若服务端给出 Retry-After 则以其为准
+ */
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+export function retryDelay(policy: RetryPolicy, attempt: number, error: AIError): number {
+  if (error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, policy.maxDelayMs);
+  }
+  // 加入少量抖动，避免多个请求同时重试
+  const backoff = policy.baseDelayMs * 2 ** attempt;
+  return Math.min(backoff + Math.random() * policy.baseDelayMs, policy.maxDelayMs);
+}
+
+/**
+ * 可被 AbortSignal 打断的等待
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
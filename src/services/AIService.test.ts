@@ -0,0 +1,330 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  AnthropicService,
+  ChatContext,
+  ChatMessage,
+  DEFAULT_AI_CONFIG,
+  GoogleService,
+  OllamaService,
+  OpenAIService,
+  ToolCall,
+  normalizeConversation,
+  toApiOptions
+} from './AIService';
+
+const toolCall: ToolCall = { id: 'call-1', name: 'search', arguments: { q: 'tauri' } };
+const secondCall: ToolCall = { id: 'call-2', name: 'fetch', arguments: { url: 'https://tauri.app' } };
+
+// A tool round: the assistant asks for two tools, both results come back, then the user speaks again
+const toolRound: ChatMessage[] = [
+  { role: 'user', content: '查一下 Tauri' },
+  { role: 'assistant', content: '', toolCalls: [toolCall, secondCall] },
+  { role: 'tool', toolCallId: 'call-1', name: 'search', content: '结果一' },
+  { role: 'tool', toolCallId: 'call-2', name: 'fetch', content: '结果二' },
+  { role: 'user', content: '总结一下' }
+];
+
+describe('normalizeConversation', () => {
+  it('collects system prompts into one field', () => {
+    const conversation = normalizeConversation([
+      { role: 'system', content: '你是助手' },
+      { role: 'user', content: '你好' },
+      { role: 'system', content: '  用中文回答  ' },
+      { role: 'system', content: '   ' }
+    ]);
+    expect(conversation.system).toBe('你是助手\n\n用中文回答');
+    expect(conversation.messages).toEqual([{ role: 'user', content: '你好' }]);
+  });
+
+  it('merges consecutive turns of the same role', () => {
+    const image = { id: 'img', mimeType: 'image/png', data: 'AAAA' };
+    const conversation = normalizeConversation([
+      { role: 'user', content: '第一段' },
+      { role: 'user', content: '第二段', images: [image] },
+      { role: 'assistant', content: '回答', toolCalls: [toolCall] },
+      { role: 'assistant', content: '补充' }
+    ]);
+    expect(conversation.messages).toEqual([
+      { role: 'user', content: '第一段\n\n第二段', images: [image] },
+      { role: 'assistant', content: '回答\n\n补充', toolCalls: [toolCall] }
+    ]);
+  });
+
+  it('drops empty placeholder messages', () => {
+    const conversation = normalizeConversation([
+      { role: 'user', content: '问题' },
+      { role: 'assistant', content: '' },
+      { role: 'user', content: '  ' },
+      { role: 'user', content: '再问一次' }
+    ]);
+    expect(conversation.messages).toEqual([{ role: 'user', content: '问题\n\n再问一次' }]);
+  });
+
+  it('keeps assistant turns that only call tools', () => {
+    const conversation = normalizeConversation(toolRound);
+    expect(conversation.messages.map(m => m.role)).toEqual(['user', 'assistant', 'tool', 'tool', 'user']);
+  });
+});
+
+describe('OpenAIService.buildRequestBody', () => {
+  const service = new OpenAIService('key', 'gpt-4o');
+  const options = toApiOptions('openai', DEFAULT_AI_CONFIG);
+
+  it('sends the system prompt as the first message', () => {
+    const body = service.buildRequestBody(
+      [{ role: 'system', content: '你是助手' }, { role: 'user', content: '你好' }, { role: 'user', content: '在吗' }],
+      toApiOptions('openai', { ...DEFAULT_AI_CONFIG, temperature: 0.5 }),
+      false
+    );
+    expect(body.messages).toEqual([
+      { role: 'system', content: '你是助手' },
+      { role: 'user', content: '你好\n\n在吗' }
+    ]);
+    expect(body.temperature).toBe(0.5);
+    expect(body.stream_options).toBeUndefined();
+  });
+
+  it('sends tool calls and one tool message per result', () => {
+    const body = service.buildRequestBody(toolRound, options, true, [{ name: 'search', parameters: { type: 'object' } }]);
+    expect(body.messages[1]).toEqual({
+      role: 'assistant',
+      content: null,
+      tool_calls: [
+        { id: 'call-1', type: 'function', function: { name: 'search', arguments: '{"q":"tauri"}' } },
+        { id: 'call-2', type: 'function', function: { name: 'fetch', arguments: '{"url":"https://tauri.app"}' } }
+      ]
+    });
+    expect(body.messages.slice(2, 4)).toEqual([
+      { role: 'tool', tool_call_id: 'call-1', content: '结果一' },
+      { role: 'tool', tool_call_id: 'call-2', content: '结果二' }
+    ]);
+    expect(body.tools).toEqual([{ type: 'function', function: { name: 'search', description: undefined, parameters: { type: 'object' } } }]);
+    expect(body.stream_options).toEqual({ include_usage: true });
+    expect(body.tool_choice).toBeUndefined();
+  });
+
+  it('keeps the tools but forbids calling them when tool choice is none', () => {
+    const body = service.buildRequestBody(toolRound, options, false, [{ name: 'search', parameters: { type: 'object' } }], 'none');
+    expect(body.tools).toHaveLength(1);
+    expect(body.tool_choice).toBe('none');
+  });
+});
+
+describe('AnthropicService.buildRequestBody', () => {
+  const service = new AnthropicService('key', 'claude-3-5-haiku-latest');
+  const options = toApiOptions('anthropic', DEFAULT_AI_CONFIG);
+
+  it('puts the system prompt in the top-level field', () => {
+    const body = service.buildRequestBody(
+      [{ role: 'system', content: '你是助手' }, { role: 'user', content: '你好' }],
+      toApiOptions('anthropic', { ...DEFAULT_AI_CONFIG, max_tokens: 256 }),
+      false
+    );
+    expect(body.system).toBe('你是助手');
+    expect(body.messages).toEqual([{ role: 'user', content: [{ type: 'text', text: '你好' }] }]);
+    expect(body.max_tokens).toBe(256);
+  });
+
+  it('sends top_p only when it differs from the default', () => {
+    expect(service.buildRequestBody([{ role: 'user', content: '你好' }], options, false).top_p).toBeUndefined();
+    const body = service.buildRequestBody([{ role: 'user', content: '你好' }], toApiOptions('anthropic', { ...DEFAULT_AI_CONFIG, top_p: 0.9 }), false);
+    expect(body.top_p).toBe(0.9);
+  });
+
+  it('leaves the system field out when there is no system prompt', () => {
+    const body = service.buildRequestBody([{ role: 'user', content: '你好' }], options, false);
+    expect(body.system).toBeUndefined();
+  });
+
+  it('starts with a user message', () => {
+    const body = service.buildRequestBody(
+      [{ role: 'system', content: '你是助手' }, { role: 'assistant', content: '有什么可以帮你？' }, { role: 'user', content: '你好' }],
+      options,
+      false
+    );
+    expect(body.messages.map((m: any) => m.role)).toEqual(['user', 'assistant', 'user']);
+  });
+
+  it('merges tool results and the following user turn into one user message', () => {
+    const body = service.buildRequestBody(toolRound, options, false, [{ name: 'search', parameters: { type: 'object' } }]);
+    expect(body.messages).toHaveLength(3);
+    expect(body.messages[1]).toEqual({
+      role: 'assistant',
+      content: [
+        { type: 'tool_use', id: 'call-1', name: 'search', input: { q: 'tauri' } },
+        { type: 'tool_use', id: 'call-2', name: 'fetch', input: { url: 'https://tauri.app' } }
+      ]
+    });
+    expect(body.messages[2]).toEqual({
+      role: 'user',
+      content: [
+        { type: 'tool_result', tool_use_id: 'call-1', content: '结果一' },
+        { type: 'tool_result', tool_use_id: 'call-2', content: '结果二' },
+        { type: 'text', text: '总结一下' }
+      ]
+    });
+    expect(body.tools).toEqual([{ name: 'search', description: undefined, input_schema: { type: 'object' } }]);
+    expect(body.tool_choice).toBeUndefined();
+  });
+
+  it('keeps the tools but forbids calling them when tool choice is none', () => {
+    const body = service.buildRequestBody(toolRound, options, false, [{ name: 'search', parameters: { type: 'object' } }], 'none');
+    expect(body.tools).toHaveLength(1);
+    expect(body.tool_choice).toEqual({ type: 'none' });
+  });
+});
+
+describe('GoogleService.buildRequestBody', () => {
+  const service = new GoogleService('key', 'gemini-2.0-flash');
+  const options = toApiOptions('google', DEFAULT_AI_CONFIG);
+
+  it('puts the system prompt in systemInstruction', () => {
+    const body = service.buildRequestBody(
+      [{ role: 'system', content: '你是助手' }, { role: 'user', content: '你好' }],
+      toApiOptions('google', { ...DEFAULT_AI_CONFIG, temperature: 0.2, top_p: 0.9, max_tokens: 100 }),
+      false
+    );
+    expect(body.systemInstruction).toEqual({ parts: [{ text: '你是助手' }] });
+    expect(body.contents).toEqual([{ role: 'user', parts: [{ text: '你好' }] }]);
+    expect(body.generationConfig).toEqual({ temperature: 0.2, topP: 0.9, maxOutputTokens: 100 });
+  });
+
+  it('maps every role except assistant to user and merges the results', () => {
+    const body = service.buildRequestBody(toolRound, options, true);
+    expect(body.contents).toEqual([
+      { role: 'user', parts: [{ text: '查一下 Tauri' }] },
+      {
+        role: 'model',
+        parts: [
+          { functionCall: { name: 'search', args: { q: 'tauri' } } },
+          { functionCall: { name: 'fetch', args: { url: 'https://tauri.app' } } }
+        ]
+      },
+      {
+        role: 'user',
+        parts: [
+          { functionResponse: { name: 'search', response: { content: '结果一' } } },
+          { functionResponse: { name: 'fetch', response: { content: '结果二' } } },
+          { text: '总结一下' }
+        ]
+      }
+    ]);
+    expect(body.systemInstruction).toBeUndefined();
+  });
+
+  it('keeps the tools but forbids calling them when tool choice is none', () => {
+    const body = service.buildRequestBody(toolRound, options, false, [{ name: 'search', parameters: { type: 'object' } }], 'none');
+    expect(body.tools?.[0].functionDeclarations).toHaveLength(1);
+    expect(body.toolConfig).toEqual({ functionCallingConfig: { mode: 'NONE' } });
+  });
+});
+
+describe('OllamaService.buildRequestBody', () => {
+  const service = new OllamaService('', 'llama3.2');
+  const options = toApiOptions('ollama', DEFAULT_AI_CONFIG);
+
+  it('sends the system prompt as the first message and options separately', () => {
+    const body = service.buildRequestBody(
+      [{ role: 'user', content: '你好' }, { role: 'system', content: '你是助手' }, { role: 'assistant', content: '' }],
+      options,
+      true
+    );
+    expect(body.messages).toEqual([
+      { role: 'system', content: '你是助手' },
+      { role: 'user', content: '你好' }
+    ]);
+    expect(body.options).toEqual(options);
+    expect(body.stream).toBe(true);
+  });
+
+  it('sends tool results with the tool name', () => {
+    const body = service.buildRequestBody(toolRound, options, false);
+    expect(body.messages[1]).toEqual({
+      role: 'assistant',
+      content: '',
+      tool_calls: [
+        { function: { name: 'search', arguments: { q: 'tauri' } } },
+        { function: { name: 'fetch', arguments: { url: 'https://tauri.app' } } }
+      ]
+    });
+    expect(body.messages[2]).toEqual({ role: 'tool', content: '结果一', tool_name: 'search' });
+  });
+});
+
+describe('AIService.chatWithTools', () => {
+  const tools = [{ name: 'search', parameters: { type: 'object' } }];
+
+  it('stops executing tools after the last round but still sends their definitions', async () => {
+    const service = new OpenAIService('key', 'gpt-4o');
+    const contexts: ChatContext[] = [];
+    service.chat = async (_messages, _options, _onStream, context) => {
+      contexts.push(context!);
+      return { content: `第 ${contexts.length} 轮`, toolCalls: [toolCall] };
+    };
+    const executed: ToolCall[] = [];
+
+    const response = await service.chatWithTools([{ role: 'user', content: '查一下 Tauri' }], toApiOptions('openai', DEFAULT_AI_CONFIG), {
+      tools,
+      maxRounds: 2,
+      executeTool: async call => {
+        executed.push(call);
+        return '结果';
+      }
+    });
+
+    expect(executed).toHaveLength(2);
+    expect(contexts.map(context => context.toolChoice)).toEqual([undefined, undefined, 'none']);
+    expect(contexts.every(context => context.tools === tools)).toBe(true);
+    expect(response.content).toBe('第 1 轮第 2 轮第 3 轮');
+  });
+});
+
+describe('OpenAIService.chatCandidates', () => {
+  const messages: ChatMessage[] = [{ role: 'user', content: '你好' }];
+  const options = toApiOptions('openai', DEFAULT_AI_CONFIG);
+  const loopFor = () => ({ tools: [], executeTool: async () => '' });
+
+  // Answers the n request with the given SSE chunks
+  const serve = (chunks: object[]) => {
+    const body = chunks.map(chunk => `data: ${JSON.stringify(chunk)}\n\n`).join('') + 'data: [DONE]\n\n';
+    vi.stubGlobal('fetch', async () => new Response(body, { status: 200 }));
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('requests choices the provider never sent on their own', async () => {
+    serve([{ choices: [{ index: 0, delta: { content: '一' } }] }, { choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] }]);
+    const service = new OpenAIService('key', 'gpt-4o');
+    const fallbacks: number[] = [];
+    service.chatWithTools = async (_messages, fallbackOptions) => {
+      expect(fallbackOptions).toEqual(options);
+      fallbacks.push(fallbacks.length + 1);
+      return { content: `补${fallbacks.length}`, toolCalls: [] };
+    };
+
+    const results = await service.chatCandidates(messages, options, 3, loopFor, () => {});
+
+    expect(fallbacks).toHaveLength(2);
+    expect(results.map(result => result.status === 'fulfilled' && result.value.content)).toEqual(['一', '补1', '补2']);
+  });
+
+  it('fails only the choice stopped by the content filter', async () => {
+    serve([
+      { choices: [{ index: 0, delta: { content: '一' } }, { index: 1, delta: { content: '二' } }] },
+      { choices: [{ index: 0, delta: {}, finish_reason: 'content_filter' }, { index: 1, delta: {}, finish_reason: 'stop' }] },
+      { choices: [], usage: { prompt_tokens: 5, completion_tokens: 2 } }
+    ]);
+    const service = new OpenAIService('key', 'gpt-4o');
+
+    const [first, second] = await service.chatCandidates(messages, options, 2, loopFor, () => {});
+
+    expect(first.status === 'rejected' && first.reason.kind).toBe('content_filter');
+    expect(second.status === 'fulfilled' && second.value).toEqual({
+      content: '二',
+      toolCalls: [],
+      usage: { inputTokens: 5, outputTokens: 2 }
+    });
+  });
+});
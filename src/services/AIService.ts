@@ -1,13 +1,305 @@
+import { readSSE } from './SSEParser';
+import { readNDJSON } from './NDJSONParser';
+import { AIError, AIErrorKind, DEFAULT_RETRY_POLICY, RetryPolicy, classifyError, errorFromResponse, retryDelay, sleep } from './AIError';
+import { ProviderConfig, ProviderProtocol } from './ProviderConfig';
+import { KeyVault } from './KeyVault';
+
+/**
+ * 工具定义，参数使用 JSON Schema 描述，与具体服务商无关
+ */
+export interface ToolDefinition {
+  name: string;
+  description?: string;
+  parameters: Record<string, any>;
+}
+
+/**
+ * 模型发起的一次工具调用
+ */
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+/**
+ * 随消息发送的图片，data 为不含 data: 前缀的 base64
+ */
+export interface ImageAttachment {
+  id: string;
+  mimeType: string;
+  data: string;
+  name?: string;
+}
+
+export function imageToDataUrl(image: ImageAttachment): string {
+  return `data:${image.mimeType};base64,${image.data}`;
+}
+
+/**
+ * 统一的聊天消息格式，各服务实现负责转换成自己的请求结构
+ */
+export type ChatMessage =
+  | { role: 'system'; content: string }
+  | { role: 'user'; content: string; images?: ImageAttachment[] }
+  | { role: 'assistant'; content: string; toolCalls?: ToolCall[] }
+  | { role: 'tool'; toolCallId: string; name: string; content: string };
+
+/**
+ * 服务商返回的 token 用量
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export function addUsage(a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return { inputTokens: a.inputTokens + b.inputTokens, outputTokens: a.outputTokens + b.outputTokens };
+}
+
+/**
+ * 单次模型调用的结果，usage 在服务商未返回用量时为空
+ */
+export interface ChatResponse {
+  content: string;
+  toolCalls: ToolCall[];
+  usage?: TokenUsage;
+}
+
+/**
+ * 对话级别的通用模型参数，发送前按服务商映射成各自的字段名
+ */
+export interface AIConfig {
+  temperature: number;
+  max_tokens: number;
+  top_p: number;
+  frequency_penalty: number;
+  presence_penalty: number;
+  // 每轮生成的候选回复数
+  candidate_count: number;
+}
+
+export const DEFAULT_AI_CONFIG: AIConfig = {
+  temperature: 0.7,
+  max_tokens: 1000,
+  top_p: 1,
+  frequency_penalty: 0,
+  presence_penalty: 0,
+  candidate_count: 1
+};
+
+/**
+ * 各服务商请求中的模型参数字段，由 toApiOptions 从 AIConfig 映射得到
+ */
+export interface OpenAIOptions {
+  temperature?: number;
+  max_tokens?: number;
+  top_p?: number;
+  frequency_penalty?: number;
+  presence_penalty?: number;
+  // 一次请求生成的候选数，见 OpenAIService.chatCandidates
+  n?: number;
+}
+
+export interface AnthropicOptions {
+  temperature?: number;
+  max_tokens?: number;
+  top_p?: number;
+}
+
+export interface GeminiOptions {
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+}
+
+export interface OllamaOptions {
+  temperature?: number;
+  top_p?: number;
+  num_predict?: number;
+  frequency_penalty?: number;
+  presence_penalty?: number;
+}
+
+export interface ApiOptionsByProtocol {
+  openai: OpenAIOptions;
+  anthropic: AnthropicOptions;
+  google: GeminiOptions;
+  ollama: OllamaOptions;
+}
+
+export type ApiOptions = ApiOptionsByProtocol[ProviderProtocol];
+
+const API_OPTIONS: { [P in ProviderProtocol]: (config: AIConfig) => ApiOptionsByProtocol[P] } = {
+  openai: config => ({
+    temperature: config.temperature,
+    max_tokens: config.max_tokens,
+    top_p: config.top_p,
+    frequency_penalty: config.frequency_penalty,
+    presence_penalty: config.presence_penalty
+  }),
+  // Claude 4.5 起的模型不接受同时设置 temperature 和 top_p，top_p 为默认值 1 时不发送
+  anthropic: config => ({
+    temperature: config.temperature,
+    max_tokens: config.max_tokens,
+    top_p: config.top_p < 1 ? config.top_p : undefined
+  }),
+  google: config => ({
+    temperature: config.temperature,
+    topP: config.top_p,
+    maxOutputTokens: config.max_tokens
+  }),
+  ollama: config => ({
+    temperature: config.temperature,
+    top_p: config.top_p,
+    num_predict: config.max_tokens,
+    frequency_penalty: config.frequency_penalty,
+    presence_penalty: config.presence_penalty
+  })
+};
+
+/**
+ * 把对话参数映射成各服务商的请求字段
+ */
+export function toApiOptions<P extends ProviderProtocol>(protocol: P, config: AIConfig): ApiOptionsByProtocol[P] {
+  return API_OPTIONS[protocol](config);
+}
+
+/**
+ * 与模型参数无关的调用上下文
+ */
+export interface ChatContext {
+  tools?: ToolDefinition[];
+  // 'none' 时仍发送工具定义，但要求模型不再调用工具
+  toolChoice?: ToolChoice;
+  signal?: AbortSignal;
+}
+
+export type ToolChoice = 'auto' | 'none';
+
+/**
+ * 多轮工具调用的配置
+ */
+export interface ToolLoopOptions {
+  tools: ToolDefinition[];
+  executeTool: (call: ToolCall) => Promise<string>;
+  onToolCall?: (call: ToolCall) => void;
+  onToolResult?: (call: ToolCall, result: string) => void;
+  maxRounds?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * 模型能力标签
+ */
+export type ModelCapability = 'chat' | 'vision' | 'tools' | 'embedding';
+
+/**
+ * 各服务商模型列表归一化后的结果
+ */
+export interface ModelInfo {
+  id: string;
+  displayName: string;
+  contextWindow?: number;
+  capabilities: ModelCapability[];
+}
+
+/**
+ * 判断错误是否由 AbortSignal 取消引起
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * 解析模型返回的工具参数（流式时为拼接后的 JSON 字符串）
+ */
+export function parseToolArguments(raw: string | undefined): Record<string, any> {
+  if (!raw || raw.trim() === '') return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (e) {
+    console.error('Error parsing tool arguments:', raw, e);
+    return {};
+  }
+}
+
+/**
+ * 规范化后的对话：系统提示词单独存放，其余消息去掉空占位并合并相邻的同角色消息
+ * 各服务实现只需把它映射成自己的请求结构
+ */
+export type ConversationMessage = Exclude<ChatMessage, { role: 'system' }>;
+
+export interface Conversation {
+  system: string;
+  messages: ConversationMessage[];
+}
+
+function isEmptyMessage(m: ConversationMessage): boolean {
+  if (m.role === 'user') return !m.content.trim() && !m.images?.length;
+  if (m.role === 'assistant') return !m.content.trim() && !m.toolCalls?.length;
+  return false;
+}
+
+function joinContent(a: string, b: string): string {
+  return a && b ? `${a}\n\n${b}` : a || b;
+}
+
+export function normalizeConversation(messages: ChatMessage[]): Conversation {
+  const systemParts: string[] = [];
+  const result: ConversationMessage[] = [];
+
+  for (const m of messages) {
+    if (m.role === 'system') {
+      if (m.content.trim()) systemParts.push(m.content.trim());
+      continue;
+    }
+    if (isEmptyMessage(m)) continue;
+
+    const last = result[result.length - 1];
+    if (m.role === 'user' && last?.role === 'user') {
+      const images = [...(last.images || []), ...(m.images || [])];
+      result[result.length - 1] = {
+        role: 'user',
+        content: joinContent(last.content, m.content),
+        images: images.length ? images : undefined
+      };
+    } else if (m.role === 'assistant' && last?.role === 'assistant') {
+      const toolCalls = [...(last.toolCalls || []), ...(m.toolCalls || [])];
+      result[result.length - 1] = {
+        role: 'assistant',
+        content: joinContent(last.content, m.content),
+        toolCalls: toolCalls.length ? toolCalls : undefined
+      };
+    } else {
+      result.push(m);
+    }
+  }
+
+  return { system: systemParts.join('\n\n'), messages: result };
+}
+
 /**
  * AI模型服务基类，提供统一的模型调用接口
  */
 export abstract class AIService {
   protected modelName: string;
   protected apiKey: string;
+  protected headers: Record<string, string>;
+  protected retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+
+  /**
+   * 错误信息中显示的服务商名称
+   */
+  protected abstract readonly providerLabel: string;
   
-  constructor(modelName: string, apiKey: string) {
+  constructor(modelName: string, apiKey: string, headers: Record<string, string> = {}) {
     this.modelName = modelName;
     this.apiKey = apiKey;
+    this.headers = headers;
   }
 
   /**
@@ -15,19 +307,104 @@ export abstract class AIService {
    * @param messages 聊天消息历史
    * @param options 模型特定选项
    * @param onStream 流式消息回调函数
-   * @returns Promise<string> AI回复内容(完整内容)
+   * @param context 可用工具等调用上下文
+   * @returns Promise<ChatResponse> AI回复内容(完整内容)及工具调用
    */
   abstract chat(
-    messages: Array<{role: string, content: string}>, 
-    options?: any,
+    messages: ChatMessage[], 
+    options?: ApiOptions,
+    onStream?: (chunk: string) => void,
+    context?: ChatContext
+  ): Promise<ChatResponse>;
+
+  /**
+   * 多轮工具调用：执行模型请求的工具并回传结果，直到模型不再调用工具
+   * @returns 最后一轮的工具调用（通常为空）、所有轮次拼接的回复内容及累计用量
+   */
+  async chatWithTools(
+    messages: ChatMessage[],
+    options: ApiOptions,
+    loop: ToolLoopOptions,
     onStream?: (chunk: string) => void
-  ): Promise<string>;
+  ): Promise<ChatResponse> {
+    const conversation = [...messages];
+    const maxRounds = loop.maxRounds ?? 8;
+    let fullContent = '';
+    let usage: TokenUsage | undefined;
+
+    for (let round = 0; ; round++) {
+      // 达到轮数上限后禁止调用工具，迫使模型给出最终回复；历史中还有工具调用，工具定义仍要发送。
+      // 不支持禁止调用的服务商仍可能返回工具调用，这些调用不再执行
+      const lastRound = round >= maxRounds;
+      const response = await this.chat(conversation, options, onStream, {
+        tools: loop.tools,
+        toolChoice: lastRound ? 'none' : undefined,
+        signal: loop.signal
+      });
+      fullContent += response.content;
+      usage = addUsage(usage, response.usage);
+
+      if (response.toolCalls.length === 0 || lastRound) {
+        return { content: fullContent, toolCalls: response.toolCalls, usage };
+      }
+
+      conversation.push({ role: 'assistant', content: response.content, toolCalls: response.toolCalls });
+      for (const call of response.toolCalls) {
+        loop.signal?.throwIfAborted();
+        loop.onToolCall?.(call);
+        let result: string;
+        try {
+          result = await loop.executeTool(call);
+        } catch (error) {
+          result = `工具执行失败: ${error instanceof Error ? error.message : String(error)}`;
+        }
+        loop.onToolResult?.(call, result);
+        conversation.push({ role: 'tool', toolCallId: call.id, name: call.name, content: result });
+      }
+    }
+  }
+
+  /**
+   * 为同一段对话生成多条候选回复，默认并行发起 count 次请求
+   * 每条候选单独结算，其中一条失败不影响其他候选
+   * @param loopFor 按候选序号返回该候选的工具调用配置
+   * @param onStream 带候选序号的流式回调
+   */
+  async chatCandidates(
+    messages: ChatMessage[],
+    options: ApiOptions,
+    count: number,
+    loopFor: (index: number) => ToolLoopOptions,
+    onStream: (index: number, chunk: string) => void
+  ): Promise<PromiseSettledResult<ChatResponse>[]> {
+    return Promise.allSettled(
+      Array.from({ length: count }, (_, index) =>
+        this.chatWithTools(messages, options, loopFor(index), chunk => onStream(index, chunk))
+      )
+    );
+  }
+
+  /**
+   * 构造请求体（不含鉴权信息），消息先经过 normalizeConversation 规范化
+   */
+  abstract buildRequestBody(
+    messages: ChatMessage[],
+    options: ApiOptions | undefined,
+    stream: boolean,
+    tools?: ToolDefinition[],
+    toolChoice?: ToolChoice
+  ): Record<string, any>;
 
   /**
    * 获取模型支持的参数
    */
   abstract getModelOptions(): any;
 
+  /**
+   * 从服务商获取可用模型列表（自动翻页）
+   */
+  abstract listModels(): Promise<ModelInfo[]>;
+
   /**
    * 验证API密钥
    */
@@ -39,6 +416,38 @@ export abstract class AIService {
   getModelName(): string {
     return this.modelName;
   }
+
+  /**
+   * 发送请求并把失败响应转换为 AIError；限流、5xx 和网络错误按重试策略自动重试
+   * 只在拿到响应之前重试，已经开始输出的流不会重复
+   */
+  protected async request(url: string, init: RequestInit = {}): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      let error: AIError;
+      try {
+        const response = await fetch(url, init);
+        if (response.ok) return response;
+        error = await errorFromResponse(response, this.providerLabel, this.modelName);
+      } catch (e) {
+        if (isAbortError(e)) throw e;
+        error = this.error('network', e instanceof Error ? e.message : String(e));
+      }
+
+      if (!error.retryable || attempt >= this.retryPolicy.maxRetries) throw error;
+      await sleep(retryDelay(this.retryPolicy, attempt, error), init.signal ?? undefined);
+    }
+  }
+
+  /**
+   * 构造带当前服务商和模型信息的错误，用于流中途返回的错误事件
+   */
+  protected error(kind: AIErrorKind | undefined, message: string, status?: number): AIError {
+    return new AIError(kind ?? classifyError(status, message), message, {
+      provider: this.providerLabel,
+      model: this.modelName,
+      status
+    });
+  }
 }
 
 /**
@@ -46,76 +455,249 @@ export abstract class AIService {
  */
 export class OpenAIService extends AIService {
   private baseUrl: string;
+  protected readonly providerLabel = 'OpenAI';
 
-  constructor(apiKey: string, modelName: string = 'gpt-3.5-turbo', baseUrl?: string) {
-    super(modelName, apiKey);
+  constructor(apiKey: string, modelName: string = 'gpt-3.5-turbo', baseUrl?: string, headers?: Record<string, string>) {
+    super(modelName, apiKey, headers);
     this.baseUrl = baseUrl || 'https://api.openai.com/v1';
   }
 
-    async chat(
-    messages: Array<{role: string, content: string}>, 
-    options?: any,
-    onStream?: (chunk: string) => void
-  ): Promise<string> {
+  private toOpenAIMessages(conversation: Conversation) {
+    const messages = conversation.messages.map(m => {
+      if (m.role === 'tool') {
+        return { role: 'tool', tool_call_id: m.toolCallId, content: m.content };
+      }
+      if (m.role === 'assistant' && m.toolCalls?.length) {
+        return {
+          role: 'assistant',
+          content: m.content || null,
+          tool_calls: m.toolCalls.map(call => ({
+            id: call.id,
+            type: 'function',
+            function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+          }))
+        };
+      }
+      if (m.role === 'user' && m.images?.length) {
+        return {
+          role: 'user',
+          content: [
+            ...m.images.map(image => ({ type: 'image_url', image_url: { url: imageToDataUrl(image) } })),
+            ...(m.content ? [{ type: 'text', text: m.content }] : [])
+          ]
+        };
+      }
+      return { role: m.role, content: m.content };
+    });
+    return conversation.system ? [{ role: 'system', content: conversation.system }, ...messages] : messages;
+  }
+
+  buildRequestBody(messages: ChatMessage[], options: OpenAIOptions | undefined, stream: boolean, tools?: ToolDefinition[], toolChoice?: ToolChoice) {
+    return {
+      model: this.modelName,
+      messages: this.toOpenAIMessages(normalizeConversation(messages)),
+      stream,
+      // 流式响应默认不带用量，需要显式请求最后一个 chunk 返回 usage
+      stream_options: stream ? { include_usage: true } : undefined,
+      tools: tools?.length
+        ? tools.map(tool => ({
+            type: 'function',
+            function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+          }))
+        : undefined,
+      tool_choice: tools?.length ? toolChoice : undefined,
+      ...options
+    };
+  }
+
+  async chat(
+    messages: ChatMessage[], 
+    options?: OpenAIOptions,
+    onStream?: (chunk: string) => void,
+    context?: ChatContext
+  ): Promise<ChatResponse> {
     try {
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      const response = await this.request(`${this.baseUrl}/chat/completions`, {
         method: 'POST',
+        signal: context?.signal,
         headers: {
+          ...this.headers,
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${this.apiKey}`
         },
-        body: JSON.stringify({
-          model: this.modelName,
-          messages,
-          stream: onStream !== undefined,
-          ...options
-        })
+        body: JSON.stringify(this.buildRequestBody(messages, options, onStream !== undefined, context?.tools, context?.toolChoice))
       });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        if (errorData.error) {
-          throw new Error(`OpenAI API错误: ${errorData.error.message || errorData.error.code}`);
-        }
-        throw new Error(`OpenAI API错误: ${response.statusText}`);
-      }
-
       if (onStream) {
-        const reader = response.body?.getReader();
-        const decoder = new TextDecoder();
         let fullResponse = '';
+        // 流式工具调用按 index 分片到达，参数需要逐段拼接
+        const partialCalls: Array<{ id: string; name: string; arguments: string }> = [];
+        let usage: TokenUsage | undefined;
 
-        while (reader) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          const chunk = decoder.decode(value);
-          const lines = chunk.split('\n').filter(line => line.trim() !== '');
-
-          for (const line of lines) {
-            if (line.startsWith('data: ') && !line.includes('[DONE]')) {
-              try {
-                const data = JSON.parse(line.substring(6));
-                const content = data.choices[0]?.delta?.content || '';
-                fullResponse += content;
-                onStream(content);
-              } catch (e) {
-                console.error('Error parsing SSE data:', e);
-              }
-            }
+        for await (const event of readSSE(response, context?.signal)) {
+          let data: any;
+          try {
+            data = JSON.parse(event.data);
+          } catch (e) {
+            console.error('Error parsing SSE data:', event.data, e);
+            continue;
+          }
+          if (data.error) {
+            throw this.error(undefined, data.error.message || data.error.code, data.error.status);
+          }
+          if (data.choices?.[0]?.finish_reason === 'content_filter') {
+            throw this.error('content_filter', '回复被内容过滤器拦截');
+          }
+          if (data.usage) {
+            usage = this.toUsage(data.usage);
+          }
+
+          const delta = data.choices?.[0]?.delta;
+          const content = delta?.content || '';
+          if (content) {
+            fullResponse += content;
+            onStream(content);
+          }
+          for (const toolDelta of delta?.tool_calls || []) {
+            const call = partialCalls[toolDelta.index] ??= { id: '', name: '', arguments: '' };
+            if (toolDelta.id) call.id = toolDelta.id;
+            if (toolDelta.function?.name) call.name += toolDelta.function.name;
+            if (toolDelta.function?.arguments) call.arguments += toolDelta.function.arguments;
           }
         }
-        return fullResponse;
+        return {
+          content: fullResponse,
+          toolCalls: partialCalls.filter(Boolean).map(call => ({
+            id: call.id,
+            name: call.name,
+            arguments: parseToolArguments(call.arguments)
+          })),
+          usage
+        };
       } else {
         const data = await response.json();
-        return data.choices[0]?.message?.content || '';
+        if (data.choices?.[0]?.finish_reason === 'content_filter') {
+          throw this.error('content_filter', '回复被内容过滤器拦截');
+        }
+        const message = data.choices[0]?.message;
+        return {
+          content: message?.content || '',
+          toolCalls: (message?.tool_calls || []).map((call: any) => ({
+            id: call.id,
+            name: call.function.name,
+            arguments: parseToolArguments(call.function.arguments)
+          })),
+          usage: data.usage ? this.toUsage(data.usage) : undefined
+        };
       }
     } catch (error) {
-      console.error('OpenAI API调用失败:', error);
+      if (!isAbortError(error)) {
+        console.error('OpenAI API调用失败:', error);
+      }
       throw error;
     }
   }
 
+  /**
+   * 没有可用工具时用 n 参数一次请求生成全部候选；提供工具时各候选的工具调用会各自展开，退回并行请求
+   * 不支持 n 的兼容服务只返回第一条候选，没有返回的候选改为单独请求
+   */
+  async chatCandidates(
+    messages: ChatMessage[],
+    options: OpenAIOptions,
+    count: number,
+    loopFor: (index: number) => ToolLoopOptions,
+    onStream: (index: number, chunk: string) => void
+  ): Promise<PromiseSettledResult<ChatResponse>[]> {
+    const loop = loopFor(0);
+    if (count <= 1 || loop.tools.length > 0) {
+      return super.chatCandidates(messages, options, count, loopFor, onStream);
+    }
+    let choices: Array<ChatResponse | AIError | undefined>;
+    try {
+      choices = await this.streamChoices(messages, { ...options, n: count }, count, onStream, loop.signal);
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('OpenAI API调用失败:', error);
+      }
+      return Array.from({ length: count }, () => ({ status: 'rejected', reason: error }));
+    }
+    return Promise.allSettled(choices.map((choice, index) => {
+      if (choice instanceof AIError) return Promise.reject(choice);
+      return choice
+        ? Promise.resolve(choice)
+        : this.chatWithTools(messages, options, loopFor(index), chunk => onStream(index, chunk));
+    }));
+  }
+
+  // 流式读取 n 个 choice，按 choice.index 分发到各自的候选
+  // 被内容过滤器拦截的 choice 为 AIError，不影响其他候选；没有返回的 choice 为 undefined
+  private async streamChoices(
+    messages: ChatMessage[],
+    options: OpenAIOptions,
+    count: number,
+    onStream: (index: number, chunk: string) => void,
+    signal?: AbortSignal
+  ): Promise<Array<ChatResponse | AIError | undefined>> {
+    const response = await this.request(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        ...this.headers,
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`
+      },
+      body: JSON.stringify(this.buildRequestBody(messages, options, true))
+    });
+
+    const contents: Array<string | undefined> = Array(count).fill(undefined);
+    const errors: Array<AIError | undefined> = Array(count).fill(undefined);
+    let usage: TokenUsage | undefined;
+    for await (const event of readSSE(response, signal)) {
+      let data: any;
+      try {
+        data = JSON.parse(event.data);
+      } catch (e) {
+        console.error('Error parsing SSE data:', event.data, e);
+        continue;
+      }
+      if (data.error) {
+        throw this.error(undefined, data.error.message || data.error.code, data.error.status);
+      }
+      if (data.usage) {
+        usage = this.toUsage(data.usage);
+      }
+      for (const choice of data.choices || []) {
+        const index = choice.index ?? 0;
+        if (index >= count) continue;
+        contents[index] ??= '';
+        if (choice.finish_reason === 'content_filter') {
+          errors[index] = this.error('content_filter', '回复被内容过滤器拦截');
+        }
+        const content = choice.delta?.content || '';
+        if (content && !errors[index]) {
+          contents[index] += content;
+          onStream(index, content);
+        }
+      }
+    }
+    // 服务商只返回所有候选的总用量，记在第一条成功的候选上
+    const usageIndex = contents.findIndex((content, index) => content !== undefined && !errors[index]);
+    return contents.map((content, index) => {
+      if (errors[index]) return errors[index];
+      if (content === undefined) return undefined;
+      return {
+        content,
+        toolCalls: [],
+        usage: usage && index !== usageIndex ? { inputTokens: 0, outputTokens: 0 } : usage
+      };
+    });
+  }
+
+  private toUsage(usage: any): TokenUsage {
+    return { inputTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 };
+  }
+
   getModelOptions() {
     return {
       temperature: 0.7,
@@ -126,10 +708,37 @@ export class OpenAIService extends AIService {
     };
   }
 
+  async listModels(): Promise<ModelInfo[]> {
+    const response = await this.request(`${this.baseUrl}/models`, {
+      headers: {
+        ...this.headers,
+        'Authorization': `Bearer ${this.apiKey}`
+      }
+    });
+    const data = await response.json();
+
+    // OpenAI 兼容服务（如 OpenRouter）可能额外返回名称和上下文长度
+    return (data.data || []).map((model: any): ModelInfo => {
+      const id: string = model.id;
+      const isEmbedding = /embed/i.test(id);
+      const capabilities: ModelCapability[] = isEmbedding ? ['embedding'] : ['chat', 'tools'];
+      if (!isEmbedding && /gpt-4o|gpt-4\.1|gpt-4-turbo|vision|^o[134]/i.test(id)) {
+        capabilities.push('vision');
+      }
+      return {
+        id,
+        displayName: model.name || id,
+        contextWindow: model.context_length ?? model.context_window,
+        capabilities
+      };
+    });
+  }
+
   async validateKey(): Promise<boolean> {
     try {
       const response = await fetch(`${this.baseUrl}/models`, {
         headers: {
+          ...this.headers,
           'Authorization': `Bearer ${this.apiKey}`
         }
       });
@@ -144,76 +753,183 @@ export class OpenAIService extends AIService {
  * Anthropic服务实现
  */
 export class AnthropicService extends AIService {
-  private baseUrl: string = 'https://api.anthropic.com/v1';
+  private baseUrl: string;
+  protected readonly providerLabel = 'Anthropic';
+
+  constructor(apiKey: string, modelName: string = 'claude-3-opus', baseUrl?: string, headers?: Record<string, string>) {
+    super(modelName, apiKey, headers);
+    this.baseUrl = baseUrl || 'https://api.anthropic.com/v1';
+  }
+
+  private toAnthropicMessages(messages: ConversationMessage[]) {
+    const result: Array<{ role: 'user' | 'assistant'; content: any[] }> = [];
+    // Anthropic 要求 user/assistant 严格交替：同角色的内容块并入上一条消息
+    const push = (role: 'user' | 'assistant', blocks: any[]) => {
+      const last = result[result.length - 1];
+      if (last?.role === role) {
+        last.content.push(...blocks);
+      } else {
+        result.push({ role, content: blocks });
+      }
+    };
 
-  constructor(apiKey: string, modelName: string = 'claude-3-opus') {
-    super(modelName, apiKey);
+    for (const m of messages) {
+      if (m.role === 'tool') {
+        // 工具结果以 user 消息回传，相邻的多个结果合并到同一条消息中
+        push('user', [{ type: 'tool_result', tool_use_id: m.toolCallId, content: m.content }]);
+      } else if (m.role === 'assistant') {
+        push('assistant', [
+          ...(m.content ? [{ type: 'text', text: m.content }] : []),
+          ...(m.toolCalls || []).map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments }))
+        ]);
+      } else {
+        push('user', [
+          ...(m.images || []).map(image => ({
+            type: 'image',
+            source: { type: 'base64', media_type: image.mimeType, data: image.data }
+          })),
+          ...(m.content ? [{ type: 'text', text: m.content }] : [])
+        ]);
+      }
+    }
+
+    // 第一条消息必须来自 user
+    if (result[0]?.role === 'assistant') {
+      result.unshift({ role: 'user', content: [{ type: 'text', text: '继续' }] });
+    }
+    return result;
+  }
+
+  buildRequestBody(messages: ChatMessage[], options: AnthropicOptions | undefined, stream: boolean, tools?: ToolDefinition[], toolChoice?: ToolChoice) {
+    const conversation = normalizeConversation(messages);
+    return {
+      model: this.modelName,
+      // 系统提示词是顶层字段，不能作为消息发送
+      system: conversation.system || undefined,
+      messages: this.toAnthropicMessages(conversation.messages),
+      max_tokens: options?.max_tokens || 1000,
+      stream,
+      tools: tools?.length
+        ? tools.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters }))
+        : undefined,
+      tool_choice: tools?.length && toolChoice ? { type: toolChoice } : undefined,
+      ...options
+    };
   }
 
   async chat(
-    messages: Array<{role: string, content: string}>, 
-    options?: any,
-    onStream?: (chunk: string) => void
-  ): Promise<string> {
+    messages: ChatMessage[], 
+    options?: AnthropicOptions,
+    onStream?: (chunk: string) => void,
+    context?: ChatContext
+  ): Promise<ChatResponse> {
     try {
-      const response = await fetch(`${this.baseUrl}/messages`, {
+      const response = await this.request(`${this.baseUrl}/messages`, {
         method: 'POST',
+        signal: context?.signal,
         headers: {
+          ...this.headers,
           'Content-Type': 'application/json',
           'x-api-key': this.apiKey,
           'anthropic-version': '2023-06-01',
           'anthropic-beta': 'messages-2023-12-15'
         },
-        body: JSON.stringify({
-          model: this.modelName,
-          messages,
-          max_tokens: options?.max_tokens || 1000,
-          stream: onStream !== undefined,
-          ...options
-        })
+        body: JSON.stringify(this.buildRequestBody(messages, options, onStream !== undefined, context?.tools, context?.toolChoice))
       });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(`Anthropic API错误: ${errorData.error?.message || response.statusText}`);
-      }
-
       if (onStream) {
-        const reader = response.body?.getReader();
-        const decoder = new TextDecoder();
         let fullResponse = '';
+        // tool_use 块的参数通过 input_json_delta 分段到达
+        const toolBlocks: Record<number, { id: string; name: string; json: string }> = {};
+        // 输入用量在 message_start 中给出，输出用量随 message_delta 累计更新
+        const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+
+        for await (const event of readSSE(response, context?.signal)) {
+          if (event.event === 'ping') continue;
+          let data: any;
+          try {
+            data = JSON.parse(event.data);
+          } catch (e) {
+            console.error('Error parsing SSE data:', event.data, e);
+            continue;
+          }
 
-        while (reader) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          const chunk = decoder.decode(value);
-          const lines = chunk.split('\n').filter(line => line.trim() !== '');
-
-          for (const line of lines) {
-            if (line.startsWith('data: ') && !line.includes('[DONE]')) {
-              try {
-                const data = JSON.parse(line.substring(6));
-                const content = data.content?.[0]?.text || '';
-                fullResponse += content;
-                onStream(content);
-              } catch (e) {
-                console.error('Error parsing SSE data:', e);
+          switch (data.type) {
+            case 'message_start':
+              usage.inputTokens = this.inputTokens(data.message?.usage);
+              usage.outputTokens = data.message?.usage?.output_tokens ?? 0;
+              break;
+            case 'content_block_start':
+              if (data.content_block?.type === 'tool_use') {
+                toolBlocks[data.index] = { id: data.content_block.id, name: data.content_block.name, json: '' };
+              } else if (data.content_block?.type === 'text' && data.content_block.text) {
+                fullResponse += data.content_block.text;
+                onStream(data.content_block.text);
+              }
+              break;
+            case 'content_block_delta':
+              if (data.delta?.type === 'text_delta') {
+                fullResponse += data.delta.text;
+                onStream(data.delta.text);
+              } else if (data.delta?.type === 'input_json_delta' && toolBlocks[data.index]) {
+                toolBlocks[data.index].json += data.delta.partial_json;
+              }
+              break;
+            case 'message_delta':
+              if (data.delta?.stop_reason === 'refusal') {
+                throw this.error('content_filter', '模型拒绝了该请求');
               }
-            }
+              if (data.usage?.output_tokens !== undefined) {
+                usage.outputTokens = data.usage.output_tokens;
+              }
+              break;
+            case 'error':
+              // overloaded_error 等同于 529，按服务端错误处理
+              throw this.error(
+                data.error?.type === 'overloaded_error' ? 'server' : undefined,
+                data.error?.message || data.error?.type
+              );
           }
         }
-        return fullResponse;
+        return {
+          content: fullResponse,
+          toolCalls: Object.values(toolBlocks).map(block => ({
+            id: block.id,
+            name: block.name,
+            arguments: parseToolArguments(block.json)
+          })),
+          usage
+        };
       } else {
         const data = await response.json();
-        return data.content[0]?.text || '';
+        const blocks: any[] = data.content || [];
+        return {
+          content: blocks.filter(b => b.type === 'text').map(b => b.text).join(''),
+          toolCalls: blocks
+            .filter(b => b.type === 'tool_use')
+            .map(b => ({ id: b.id, name: b.name, arguments: b.input || {} })),
+          usage: data.usage
+            ? { inputTokens: this.inputTokens(data.usage), outputTokens: data.usage.output_tokens ?? 0 }
+            : undefined
+        };
       }
     } catch (error) {
-      console.error('Anthropic API调用失败:', error);
+      if (!isAbortError(error)) {
+        console.error('Anthropic API调用失败:', error);
+      }
       throw error;
     }
   }
 
+  /**
+   * 缓存命中和写入缓存的 token 单独计数，这里合并到输入用量中
+   */
+  private inputTokens(usage: any): number {
+    return (usage?.input_tokens ?? 0)
+      + (usage?.cache_creation_input_tokens ?? 0)
+      + (usage?.cache_read_input_tokens ?? 0);
+  }
+
   getModelOptions() {
     return {
       temperature: 0.7,
@@ -223,11 +939,41 @@ export class AnthropicService extends AIService {
     };
   }
 
+  async listModels(): Promise<ModelInfo[]> {
+    const models: ModelInfo[] = [];
+    let afterId: string | undefined;
+    do {
+      const params = new URLSearchParams({ limit: '100' });
+      if (afterId) params.set('after_id', afterId);
+      const response = await this.request(`${this.baseUrl}/models?${params}`, {
+        headers: {
+          ...this.headers,
+          'x-api-key': this.apiKey,
+          'anthropic-version': '2023-06-01'
+        }
+      });
+      const data = await response.json();
+
+      for (const model of data.data || []) {
+        models.push({
+          id: model.id,
+          displayName: model.display_name || model.id,
+          contextWindow: 200000,
+          capabilities: ['chat', 'vision', 'tools']
+        });
+      }
+      afterId = data.has_more ? data.last_id : undefined;
+    } while (afterId);
+    return models;
+  }
+
   async validateKey(): Promise<boolean> {
     try {
       const response = await fetch(`${this.baseUrl}/models`, {
         headers: {
-          'x-api-key': this.apiKey
+          ...this.headers,
+          'x-api-key': this.apiKey,
+          'anthropic-version': '2023-06-01'
         }
       });
       return response.ok;
@@ -237,102 +983,189 @@ export class AnthropicService extends AIService {
   }
 }
 
+/**
+ * Gemini 的函数参数只接受 OpenAPI Schema 子集，去掉它不认识的 JSON Schema 关键字
+ */
+function toGeminiSchema(schema: any): any {
+  if (Array.isArray(schema)) return schema.map(toGeminiSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === '$schema' || key === 'additionalProperties') continue;
+    result[key] = toGeminiSchema(value);
+  }
+  return result;
+}
+
 /**
  * Google服务实现
  */
 export class GoogleService extends AIService {
-  private baseUrl: string = 'https://generativelanguage.googleapis.com/v1beta';
+  private baseUrl: string;
+  protected readonly providerLabel = 'Google';
 
-  constructor(apiKey: string, modelName: string = 'gemini-pro') {
-    super(modelName, apiKey);
+  constructor(apiKey: string, modelName: string = 'gemini-pro', baseUrl?: string, headers?: Record<string, string>) {
+    super(modelName, apiKey, headers);
+    this.baseUrl = baseUrl || 'https://generativelanguage.googleapis.com/v1beta';
+  }
+
+  private toGeminiContents(messages: ConversationMessage[]) {
+    const contents = messages.map(m => {
+      if (m.role === 'tool') {
+        return {
+          role: 'user',
+          parts: [{ functionResponse: { name: m.name, response: { content: m.content } } }]
+        };
+      }
+      if (m.role === 'assistant') {
+        return {
+          role: 'model',
+          parts: [
+            ...(m.content || !m.toolCalls?.length ? [{ text: m.content }] : []),
+            ...(m.toolCalls || []).map(call => ({ functionCall: { name: call.name, args: call.arguments } }))
+          ]
+        };
+      }
+      if (m.role === 'user' && m.images?.length) {
+        return {
+          role: 'user',
+          parts: [
+            ...m.images.map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } })),
+            ...(m.content ? [{ text: m.content }] : [])
+          ]
+        };
+      }
+      return { role: 'user', parts: [{ text: m.content }] };
+    });
+
+    // 除 assistant 外的角色都映射为 user，工具结果后紧跟的用户消息需要并入同一条
+    const merged: Array<{ role: string; parts: any[] }> = [];
+    for (const content of contents) {
+      const last = merged[merged.length - 1];
+      if (last?.role === content.role) {
+        last.parts.push(...content.parts);
+      } else {
+        merged.push({ role: content.role, parts: [...content.parts] });
+      }
+    }
+    return merged;
+  }
+
+  buildRequestBody(messages: ChatMessage[], options: GeminiOptions | undefined, _stream: boolean, tools?: ToolDefinition[], toolChoice?: ToolChoice) {
+    const conversation = normalizeConversation(messages);
+    return {
+      contents: this.toGeminiContents(conversation.messages),
+      systemInstruction: conversation.system ? { parts: [{ text: conversation.system }] } : undefined,
+      tools: tools?.length
+        ? [{
+            functionDeclarations: tools.map(tool => ({
+              name: tool.name,
+              description: tool.description,
+              parameters: toGeminiSchema(tool.parameters)
+            }))
+          }]
+        : undefined,
+      toolConfig: tools?.length && toolChoice
+        ? { functionCallingConfig: { mode: toolChoice === 'none' ? 'NONE' : 'AUTO' } }
+        : undefined,
+      generationConfig: {
+        temperature: options?.temperature,
+        topP: options?.topP,
+        maxOutputTokens: options?.maxOutputTokens
+      }
+    };
+  }
+
+  // 提示词或回复因安全策略被拦截时没有正文，只有 blockReason / finishReason
+  private checkBlocked(data: any) {
+    const blockReason = data.promptFeedback?.blockReason;
+    const finishReason = data.candidates?.[0]?.finishReason;
+    if (blockReason || finishReason === 'SAFETY' || finishReason === 'PROHIBITED_CONTENT') {
+      throw this.error('content_filter', `内容被安全策略拦截 (${blockReason || finishReason})`);
+    }
+  }
+
+  // usageMetadata 在流中每个 chunk 都会给出截至目前的累计值
+  private toUsage(metadata: any): TokenUsage | undefined {
+    if (!metadata) return undefined;
+    return { inputTokens: metadata.promptTokenCount ?? 0, outputTokens: metadata.candidatesTokenCount ?? 0 };
+  }
+
+  // Gemini 不返回调用 id，按出现顺序生成
+  private extractParts(candidateParts: any[], toolCalls: ToolCall[]): string {
+    let text = '';
+    for (const part of candidateParts || []) {
+      if (part.text) text += part.text;
+      if (part.functionCall) {
+        toolCalls.push({
+          id: `${part.functionCall.name}-${toolCalls.length}`,
+          name: part.functionCall.name,
+          arguments: part.functionCall.args || {}
+        });
+      }
+    }
+    return text;
   }
 
   async chat(
-    messages: Array<{role: string, content: string}>, 
-    options?: any,
-    onStream?: (chunk: string) => void
-  ): Promise<string> {
+    messages: ChatMessage[], 
+    options?: GeminiOptions,
+    onStream?: (chunk: string) => void,
+    context?: ChatContext
+  ): Promise<ChatResponse> {
     try {
-      const url = `${this.baseUrl}/models/${this.modelName}:streamGenerateContent?key=${this.apiKey}`;
-      const response = await fetch(url, {
+      // 流式请求使用 alt=sse，每个事件携带一个独立的 GenerateContentResponse
+      const url = onStream
+        ? `${this.baseUrl}/models/${this.modelName}:streamGenerateContent?alt=sse&key=${this.apiKey}`
+        : `${this.baseUrl}/models/${this.modelName}:generateContent?key=${this.apiKey}`;
+      const response = await this.request(url, {
         method: 'POST',
+        signal: context?.signal,
         headers: {
+          ...this.headers,
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify({
-          contents: messages.map(m => ({
-            role: m.role === 'assistant' ? 'model' : 'user',
-            parts: [{text: m.content}]
-          })),
-          generationConfig: {
-            temperature: options?.temperature,
-            topP: options?.top_p,
-            maxOutputTokens: options?.max_tokens
-          }
-        })
+        body: JSON.stringify(this.buildRequestBody(messages, options, onStream !== undefined, context?.tools, context?.toolChoice))
       });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(`Google API错误: ${errorData.error?.message || response.statusText}`);
-      }
-
+      const toolCalls: ToolCall[] = [];
       if (onStream) {
-        const reader = response.body?.getReader();
-        const decoder = new TextDecoder();
         let fullResponse = '';
+        let usage: TokenUsage | undefined;
 
-        let buffer = ''; // Buffer to accumulate the entire response
-        while (reader) {
-          const { done, value } = await reader.read();
-          if (done) break; // Exit loop when stream is finished
-
-          // Append decoded chunk to the buffer
-          buffer += decoder.decode(value, { stream: true });
-        }
-
-        // --- Processing happens *after* the entire stream is read ---
-        
-        // Clean the buffer: Google stream might start with '[' and end with ']' 
-        // and have commas between objects, but JSON.parse needs a valid JSON array string.
-        // A simple approach is to assume it's mostly correct JSON array content.
-        // More robust parsing might be needed for edge cases.
-        const jsonArrayString = buffer.trim(); 
+        for await (const event of readSSE(response, context?.signal)) {
+          let data: any;
+          try {
+            data = JSON.parse(event.data);
+          } catch (e) {
+            console.error('Error parsing SSE data:', event.data, e);
+            continue;
+          }
+          if (data.error) {
+            throw this.error(undefined, data.error.message, data.error.code);
+          }
+          this.checkBlocked(data);
+          usage = this.toUsage(data.usageMetadata) ?? usage;
 
-        try {
-          // Parse the entire buffer as a JSON array
-          const responseArray = JSON.parse(jsonArrayString); 
-
-          if (Array.isArray(responseArray)) {
-            // Iterate through the array of response objects
-            for (const data of responseArray) {
-              // Extract content from each object
-              if (data.candidates && data.candidates[0]?.content?.parts?.[0]?.text) {
-                const content = data.candidates[0].content.parts[0].text;
-                fullResponse += content; // Accumulate full response
-                onStream(content);     // Call onStream for each content part
-              }
-            }
-          } else {
-             console.error("Google Service: Parsed response is not an array", responseArray);
-             throw new Error("Google API 返回了非预期的格式");
+          // Extract text and function calls from each response chunk
+          const content = this.extractParts(data.candidates?.[0]?.content?.parts, toolCalls);
+          if (content) {
+            fullResponse += content;
+            onStream(content);
           }
-        } catch (e) {
-          console.error("Google Service: Failed to parse the accumulated stream buffer:", e, "Buffer:", jsonArrayString);
-          throw new Error("解析 Google API 响应失败");
         }
 
-        return fullResponse; // Return the accumulated full response
+        return { content: fullResponse, toolCalls, usage };
       } else {
-        // Handle non-streaming case (if generateContent endpoint is used)
-        // Note: Google's generateContent (non-streaming) returns a slightly different structure.
-        // It returns a single JSON object, not an array like streamGenerateContent.
         const data = await response.json();
-        // Adjust path for non-streaming response structure
-        return data.candidates?.[0]?.content?.parts?.[0]?.text || ''; 
+        this.checkBlocked(data);
+        const content = this.extractParts(data.candidates?.[0]?.content?.parts, toolCalls);
+        return { content, toolCalls, usage: this.toUsage(data.usageMetadata) };
       }
     } catch (error) {
-      console.error('Google API调用失败:', error);
+      if (!isAbortError(error)) {
+        console.error('Google API调用失败:', error);
+      }
       throw error;
     }
   }
@@ -346,9 +1179,209 @@ export class GoogleService extends AIService {
     };
   }
 
+  async listModels(): Promise<ModelInfo[]> {
+    const models: ModelInfo[] = [];
+    let pageToken: string | undefined;
+    do {
+      const params = new URLSearchParams({ key: this.apiKey, pageSize: '100' });
+      if (pageToken) params.set('pageToken', pageToken);
+      const response = await this.request(`${this.baseUrl}/models?${params}`, { headers: this.headers });
+      const data = await response.json();
+
+      for (const model of data.models || []) {
+        const methods: string[] = model.supportedGenerationMethods || [];
+        const capabilities: ModelCapability[] = [];
+        if (methods.includes('generateContent')) capabilities.push('chat', 'vision', 'tools');
+        if (methods.includes('embedContent')) capabilities.push('embedding');
+        models.push({
+          id: model.name.replace(/^models\//, ''),
+          displayName: model.displayName || model.name,
+          contextWindow: model.inputTokenLimit,
+          capabilities
+        });
+      }
+      pageToken = data.nextPageToken;
+    } while (pageToken);
+    return models;
+  }
+
   async validateKey(): Promise<boolean> {
     try {
-      const response = await fetch(`${this.baseUrl}/models?key=${this.apiKey}`);
+      const response = await fetch(`${this.baseUrl}/models?key=${this.apiKey}`, { headers: this.headers });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Ollama 本地模型服务实现
+ */
+export class OllamaService extends AIService {
+  private baseUrl: string;
+  protected readonly providerLabel = 'Ollama';
+
+  constructor(apiKey: string, modelName: string = 'llama3.2', baseUrl?: string, headers?: Record<string, string>) {
+    super(modelName, apiKey, headers);
+    this.baseUrl = (baseUrl || 'http://localhost:11434').replace(/\/+$/, '');
+  }
+
+  // 本地服务通常无需密钥，经过反向代理时才会带上
+  private requestHeaders(): Record<string, string> {
+    return {
+      ...this.headers,
+      'Content-Type': 'application/json',
+      ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {})
+    };
+  }
+
+  private toOllamaMessages(conversation: Conversation) {
+    const messages = conversation.messages.map(m => {
+      if (m.role === 'tool') {
+        return { role: 'tool', content: m.content, tool_name: m.name };
+      }
+      if (m.role === 'assistant' && m.toolCalls?.length) {
+        return {
+          role: 'assistant',
+          content: m.content,
+          tool_calls: m.toolCalls.map(call => ({ function: { name: call.name, arguments: call.arguments } }))
+        };
+      }
+      if (m.role === 'user' && m.images?.length) {
+        return { role: 'user', content: m.content, images: m.images.map(image => image.data) };
+      }
+      return { role: m.role, content: m.content };
+    });
+    return conversation.system ? [{ role: 'system', content: conversation.system }, ...messages] : messages;
+  }
+
+  // Ollama 没有 tool_choice 参数，达到轮数上限后返回的工具调用由 chatWithTools 忽略
+  buildRequestBody(messages: ChatMessage[], options: OllamaOptions | undefined, stream: boolean, tools?: ToolDefinition[], _toolChoice?: ToolChoice) {
+    return {
+      model: this.modelName,
+      messages: this.toOllamaMessages(normalizeConversation(messages)),
+      stream,
+      tools: tools?.length
+        ? tools.map(tool => ({
+            type: 'function',
+            function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+          }))
+        : undefined,
+      options
+    };
+  }
+
+  // Ollama 不返回调用 id，按出现顺序生成
+  private extractToolCalls(message: any, toolCalls: ToolCall[]) {
+    for (const call of message?.tool_calls || []) {
+      toolCalls.push({
+        id: `${call.function.name}-${toolCalls.length}`,
+        name: call.function.name,
+        arguments: typeof call.function.arguments === 'string'
+          ? parseToolArguments(call.function.arguments)
+          : call.function.arguments || {}
+      });
+    }
+  }
+
+  // 最后一条（done 为 true）带有 prompt_eval_count 和 eval_count
+  private toUsage(data: any): TokenUsage | undefined {
+    if (data.prompt_eval_count === undefined && data.eval_count === undefined) return undefined;
+    return { inputTokens: data.prompt_eval_count ?? 0, outputTokens: data.eval_count ?? 0 };
+  }
+
+  async chat(
+    messages: ChatMessage[], 
+    options?: OllamaOptions,
+    onStream?: (chunk: string) => void,
+    context?: ChatContext
+  ): Promise<ChatResponse> {
+    try {
+      const response = await this.request(`${this.baseUrl}/api/chat`, {
+        method: 'POST',
+        signal: context?.signal,
+        headers: this.requestHeaders(),
+        body: JSON.stringify(this.buildRequestBody(messages, options, onStream !== undefined, context?.tools, context?.toolChoice))
+      });
+
+      const toolCalls: ToolCall[] = [];
+      if (onStream) {
+        let fullResponse = '';
+        let usage: TokenUsage | undefined;
+
+        for await (const data of readNDJSON(response, context?.signal)) {
+          if (data.error) {
+            throw this.error(undefined, data.error);
+          }
+          const content = data.message?.content || '';
+          if (content) {
+            fullResponse += content;
+            onStream(content);
+          }
+          this.extractToolCalls(data.message, toolCalls);
+          if (data.done) usage = this.toUsage(data);
+        }
+
+        return { content: fullResponse, toolCalls, usage };
+      } else {
+        const data = await response.json();
+        this.extractToolCalls(data.message, toolCalls);
+        return { content: data.message?.content || '', toolCalls, usage: this.toUsage(data) };
+      }
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('Ollama API调用失败:', error);
+      }
+      throw error;
+    }
+  }
+
+  getModelOptions() {
+    return {
+      temperature: 0.8,
+      num_predict: 1000,
+      top_p: 0.9,
+      top_k: 40
+    };
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    const response = await this.request(`${this.baseUrl}/api/tags`, { headers: this.requestHeaders() });
+    const data = await response.json();
+
+    return (data.models || []).map((model: any): ModelInfo => ({
+      id: model.name,
+      displayName: model.details?.parameter_size ? `${model.name} (${model.details.parameter_size})` : model.name,
+      capabilities: /embed/i.test(model.name) ? ['embedding'] : ['chat', 'tools']
+    }));
+  }
+
+  /**
+   * 拉取模型，通过 onProgress 回报下载状态
+   */
+  async pullModel(
+    name: string,
+    onProgress: (status: { status: string; completed?: number; total?: number }) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const response = await this.request(`${this.baseUrl}/api/pull`, {
+      method: 'POST',
+      signal,
+      headers: this.requestHeaders(),
+      body: JSON.stringify({ model: name, stream: true })
+    });
+    for await (const data of readNDJSON(response, signal)) {
+      if (data.error) {
+        throw this.error(undefined, data.error);
+      }
+      onProgress({ status: data.status, completed: data.completed, total: data.total });
+    }
+  }
+
+  async validateKey(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/tags`, { headers: this.requestHeaders() });
       return response.ok;
     } catch {
       return false;
@@ -360,16 +1393,40 @@ export class GoogleService extends AIService {
  * 服务工厂，用于创建不同类型的AI服务
  */
 export class AIServiceFactory {
-  static createService(type: 'openai' | 'anthropic' | 'google', apiKey: string, modelName?: string, baseUrl?: string): AIService {
-    switch (type.toLowerCase()) {
+  static createService(
+    protocol: ProviderProtocol,
+    apiKey: string,
+    modelName?: string,
+    baseUrl?: string,
+    headers?: Record<string, string>
+  ): AIService {
+    switch (protocol) {
       case 'openai':
-        return new OpenAIService(apiKey, modelName, baseUrl);
+        return new OpenAIService(apiKey, modelName, baseUrl, headers);
       case 'anthropic':
-        return new AnthropicService(apiKey, modelName);
+        return new AnthropicService(apiKey, modelName, baseUrl, headers);
       case 'google':
-        return new GoogleService(apiKey, modelName);
+        return new GoogleService(apiKey, modelName, baseUrl, headers);
+      case 'ollama':
+        return new OllamaService(apiKey, modelName, baseUrl, headers);
       default:
-        throw new Error(`Unsupported AI service type: ${type}`);
+        throw new Error(`Unsupported AI service type: ${protocol}`);
+    }
+  }
+
+  /**
+   * 按用户配置的服务商实例创建服务；API Key 此时才从密钥库取出，只由这次请求的服务实例持有
+   */
+  static async fromConfig(config: ProviderConfig, modelName?: string): Promise<AIService> {
+    const model = modelName ?? config.modelName;
+    let apiKey = '';
+    if (config.hasApiKey) {
+      try {
+        apiKey = await KeyVault.getSecret(config.id);
+      } catch (error) {
+        throw new AIError('auth', error instanceof Error ? error.message : String(error), { provider: config.name, model });
+      }
     }
+    return AIServiceFactory.createService(config.protocol, apiKey, model, config.baseUrl, config.headers);
   }
 }
@@ -0,0 +1,56 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AIConfig } from './AIService';
+
+/**
+ * 助手（人设）：新对话从助手开始时使用它的系统提示词和默认模型参数
+ */
+export interface Assistant {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+  systemPrompt: string;
+  // 未设置时沿用当前选择的服务商和模型
+  providerId?: string;
+  model?: string;
+  aiConfig?: Partial<AIConfig>;
+  starterMessages: string[];
+}
+
+export const DEFAULT_ASSISTANT_ID = 'default';
+export const WRITING_ASSISTANT_ID = 'write-for-me';
+
+export const BUILTIN_ASSISTANTS: Assistant[] = [
+  {
+    id: DEFAULT_ASSISTANT_ID,
+    name: 'ChatGPT',
+    icon: '💬',
+    description: '通用对话助手',
+    systemPrompt: '',
+    starterMessages: []
+  },
+  {
+    id: WRITING_ASSISTANT_ID,
+    name: 'Write For Me',
+    icon: '✍️',
+    description: '根据要求撰写、润色和改写文章',
+    systemPrompt: '你是一名专业的写作助手。根据用户给出的主题、受众、语气和篇幅要求写作；要求不明确时先简要询问。输出结构清晰、用词准确的正文，不要添加多余的解释。',
+    aiConfig: { temperature: 0.9, max_tokens: 2000 },
+    starterMessages: [
+      '帮我写一封请假邮件',
+      '把下面这段话改写得更正式',
+      '写一篇关于远程办公利弊的短文'
+    ]
+  }
+];
+
+export function createAssistant(): Assistant {
+  return {
+    id: uuidv4(),
+    name: '新助手',
+    icon: '🤖',
+    description: '',
+    systemPrompt: '',
+    starterMessages: []
+  };
+}
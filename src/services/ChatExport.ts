@@ -0,0 +1,335 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeHighlight from 'rehype-highlight';
+import { v4 as uuidv4 } from 'uuid';
+import highlightCss from 'highlight.js/styles/atom-one-dark.css?raw';
+import { ModelInfo, imageToDataUrl } from './AIService';
+import { ChatRecord, HistoryItem, Message, createHistoryItem, parseChatRecord, recordTimes } from './ChatRecord';
+import { Comparison, parseComparison } from './Comparison';
+import { MessageTree, activePath } from './MessageTree';
+import { ProviderConfig, ProviderProtocol } from './ProviderConfig';
+import { SearchService, chatDocuments, comparisonDocuments } from './SearchService';
+import { ChatDatabase } from './Database';
+
+export type ExportFormat = 'markdown' | 'json' | 'html';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  markdown: 'Markdown',
+  json: 'JSON（完整数据）',
+  html: 'HTML'
+};
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: 'md',
+  json: 'json',
+  html: 'html'
+};
+
+/**
+ * 导出文件中的一个对话；record 原样保存，包括所有分支和单独调整过的模型参数
+ */
+export interface ExportedChat {
+  id: string;
+  title: string;
+  icon: string;
+  kind?: 'compare';
+  record: ChatRecord | Comparison;
+  // 导出时所用服务商的信息，便于在其他设备上对应
+  provider?: { id: string; name: string; protocol: ProviderProtocol };
+  modelInfo?: ModelInfo;
+}
+
+export interface ChatExportFile {
+  format: typeof EXPORT_FILE_FORMAT;
+  version: number;
+  exportedAt: number;
+  chats: ExportedChat[];
+}
+
+const EXPORT_FILE_FORMAT = 'yunchat-chats';
+const EXPORT_FILE_VERSION = 1;
+
+const ROLE_LABELS = { user: '用户', assistant: '助手' };
+
+const isComparison = (record: ChatRecord | Comparison): record is Comparison => 'kind' in record && record.kind === 'compare';
+
+/**
+ * 读取要导出的对话；还没有保存过内容的历史记录会被跳过
+ */
+export async function loadExportedChats(items: HistoryItem[], providerConfigs: ProviderConfig[]): Promise<ExportedChat[]> {
+  const chats: ExportedChat[] = [];
+  for (const item of items) {
+    const record = item.kind === 'compare' ? await ChatDatabase.loadComparison(item.id) : await ChatDatabase.loadChat(item.id);
+    if (!record) continue;
+    const chat: ExportedChat = { id: item.id, title: item.text, icon: item.icon, kind: item.kind, record };
+    if (!isComparison(record)) {
+      const provider = providerConfigs.find(c => c.id === record.selectedProviderId);
+      if (provider) {
+        chat.provider = { id: provider.id, name: provider.name, protocol: provider.protocol };
+        chat.modelInfo = record.selectedModel ? provider.modelInfo?.[record.selectedModel] : undefined;
+      }
+    }
+    chats.push(chat);
+  }
+  return chats;
+}
+
+// 导出时只包含当前显示的分支
+function exportedMessages(tree: MessageTree<Message>): Message[] {
+  return activePath(tree).filter(message => message.content || message.images?.length);
+}
+
+function chatToMarkdown(chat: ExportedChat): string {
+  const lines = [`# ${chat.title}`, ''];
+  const { record } = chat;
+  if (isComparison(record)) {
+    lines.push(`## ${ROLE_LABELS.user}`, '', record.prompt, '');
+    for (const column of record.columns) {
+      lines.push(`## ${column.providerName} · ${column.model}`, '', column.content, '');
+    }
+    return lines.join('\n');
+  }
+
+  if (record.selectedModel) {
+    lines.push(`> 模型：${chat.provider ? `${chat.provider.name} / ` : ''}${record.selectedModel}`, '');
+  }
+  for (const message of exportedMessages(record.tree)) {
+    lines.push(`## ${ROLE_LABELS[message.role]}`, '');
+    for (const image of message.images ?? []) {
+      lines.push(`![${image.name ?? ''}](${imageToDataUrl(image)})`, '');
+    }
+    for (const call of message.toolCalls ?? []) {
+      lines.push(`> 调用工具 \`${call.name}\``, '');
+    }
+    lines.push(message.content, '');
+  }
+  return lines.join('\n');
+}
+
+export function exportMarkdown(chats: ExportedChat[]): string {
+  return chats.map(chatToMarkdown).join('\n---\n\n');
+}
+
+export function exportJson(chats: ExportedChat[]): string {
+  const file: ChatExportFile = {
+    format: EXPORT_FILE_FORMAT,
+    version: EXPORT_FILE_VERSION,
+    exportedAt: Date.now(),
+    chats
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// 用与界面相同的 Markdown 渲染和代码高亮生成静态 HTML
+const renderMarkdown = (content: string) => renderToStaticMarkup(
+  createElement(ReactMarkdown, { remarkPlugins: [remarkGfm], rehypePlugins: [rehypeHighlight] }, content)
+);
+
+const HTML_STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 860px; margin: 0 auto; padding: 24px; color: #1f2937; }
+section { margin-bottom: 48px; }
+.meta { color: #6b7280; font-size: 14px; }
+.message { border-radius: 8px; padding: 4px 16px; margin: 12px 0; }
+.user { background: #eff6ff; }
+.assistant { background: #f3f4f6; }
+.role { font-size: 12px; font-weight: 600; color: #6b7280; margin-top: 8px; }
+.message img { max-width: 240px; border-radius: 4px; }
+pre { border-radius: 6px; overflow-x: auto; }
+pre code.hljs { padding: 12px; }
+table { border-collapse: collapse; }
+td, th { border: 1px solid #d1d5db; padding: 4px 8px; }
+`;
+
+function messageHtml(role: string, label: string, body: string): string {
+  return `<div class="message ${role}"><div class="role">${escapeHtml(label)}</div>${body}</div>`;
+}
+
+function chatToHtml(chat: ExportedChat): string {
+  const { record } = chat;
+  const parts = [`<section><h1>${escapeHtml(chat.title)}</h1>`];
+  if (isComparison(record)) {
+    parts.push(messageHtml('user', ROLE_LABELS.user, renderMarkdown(record.prompt)));
+    for (const column of record.columns) {
+      parts.push(messageHtml('assistant', `${column.providerName} · ${column.model}`, renderMarkdown(column.content)));
+    }
+  } else {
+    if (record.selectedModel) {
+      parts.push(`<p class="meta">模型：${escapeHtml(record.selectedModel)}</p>`);
+    }
+    for (const message of exportedMessages(record.tree)) {
+      const images = (message.images ?? [])
+        .map(image => `<img src="${imageToDataUrl(image)}" alt="${escapeHtml(image.name ?? '')}">`)
+        .join('');
+      parts.push(messageHtml(message.role, ROLE_LABELS[message.role], images + renderMarkdown(message.content)));
+    }
+  }
+  parts.push('</section>');
+  return parts.join('\n');
+}
+
+/**
+ * 生成不依赖外部资源的单个 HTML 文件，样式和代码高亮主题都内联在文件中
+ */
+export function exportHtml(chats: ExportedChat[]): string {
+  const title = chats.length === 1 ? chats[0].title : `${chats.length} 个对话`;
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLE}${highlightCss}</style>
+</head>
+<body>
+${chats.map(chatToHtml).join('\n')}
+</body>
+</html>
+`;
+}
+
+export function exportChats(chats: ExportedChat[], format: ExportFormat): string {
+  switch (format) {
+    case 'markdown':
+      return exportMarkdown(chats);
+    case 'json':
+      return exportJson(chats);
+    case 'html':
+      return exportHtml(chats);
+  }
+}
+
+/**
+ * ChatGPT 导出的 conversations.json 中 mapping 的节点
+ */
+interface ChatGPTNode {
+  id: string;
+  parent?: string | null;
+  message?: {
+    id: string;
+    author?: { role?: string };
+    create_time?: number | null;
+    content?: { content_type?: string; parts?: unknown[] };
+    metadata?: { model_slug?: string; is_visually_hidden_from_conversation?: boolean };
+  } | null;
+}
+
+interface ChatGPTConversation {
+  title?: string;
+  create_time?: number;
+  current_node?: string;
+  mapping: Record<string, ChatGPTNode>;
+}
+
+/**
+ * 把 ChatGPT 的对话转成消息树：只保留用户和助手的文本消息，
+ * 系统、工具等节点被跳过，其子节点挂到最近的保留祖先下；当前分支沿 current_node 选中
+ */
+function convertChatGPTConversation(conversation: ChatGPTConversation): ChatRecord {
+  const { mapping } = conversation;
+  const tree: MessageTree<Message> = { nodes: {}, selected: {} };
+  let model: string | undefined;
+
+  const textOf = (node: ChatGPTNode) => (node.message?.content?.parts ?? [])
+    .filter((part): part is string => typeof part === 'string')
+    .join('\n');
+  const isKept = (node: ChatGPTNode) => {
+    const role = node.message?.author?.role;
+    return (role === 'user' || role === 'assistant')
+      && !node.message?.metadata?.is_visually_hidden_from_conversation
+      && textOf(node).trim() !== '';
+  };
+  const keptParent = (node: ChatGPTNode): string | null => {
+    let parentId = node.parent;
+    while (parentId && mapping[parentId]) {
+      if (isKept(mapping[parentId])) return parentId;
+      parentId = mapping[parentId].parent;
+    }
+    return null;
+  };
+
+  for (const node of Object.values(mapping)) {
+    if (!isKept(node)) continue;
+    tree.nodes[node.id] = {
+      id: node.id,
+      parentId: keptParent(node),
+      role: node.message!.author!.role as 'user' | 'assistant',
+      content: textOf(node),
+      createdAt: node.message?.create_time ? Math.round(node.message.create_time * 1000) : undefined
+    };
+    model ??= node.message?.metadata?.model_slug;
+  }
+
+  // 沿 current_node 往上，把当前显示的分支记录到 selected
+  let currentId: string | null | undefined = conversation.current_node;
+  while (currentId && mapping[currentId]) {
+    const node: ChatGPTNode = mapping[currentId];
+    if (tree.nodes[currentId]) {
+      tree.selected[tree.nodes[currentId].parentId ?? ''] = currentId;
+    }
+    currentId = node.parent;
+  }
+
+  return {
+    ...parseChatRecord(JSON.stringify({ tree })),
+    selectedModel: model
+  };
+}
+
+const isChatGPTExport = (data: unknown): data is ChatGPTConversation[] =>
+  Array.isArray(data) && data.every(item => item && typeof item === 'object' && 'mapping' in item);
+
+/**
+ * 解析导入文件，支持本应用导出的 JSON 和 ChatGPT 的 conversations.json
+ */
+export function parseImportFile(json: string): ExportedChat[] {
+  const data = JSON.parse(json);
+  if (data?.format === EXPORT_FILE_FORMAT && Array.isArray(data.chats)) {
+    return (data.chats as ExportedChat[]).map(chat => {
+      const raw = JSON.stringify(chat.record);
+      return chat.kind === 'compare'
+        ? { ...chat, record: parseComparison(raw) }
+        : { ...chat, record: parseChatRecord(raw) };
+    });
+  }
+  if (isChatGPTExport(data)) {
+    return data.map(conversation => ({
+      id: uuidv4(),
+      title: conversation.title || '导入的对话',
+      icon: '💬',
+      record: convertChatGPTConversation(conversation)
+    }));
+  }
+  throw new Error('无法识别的文件格式，请选择本应用导出的 JSON 或 ChatGPT 的 conversations.json');
+}
+
+/**
+ * 在一个事务中把导入的对话写入数据库；id 与已有对话冲突时换一个新 id
+ * @returns 需要加入侧边栏的历史记录
+ */
+export async function saveImportedChats(chats: ExportedChat[], existingIds: Set<string>): Promise<HistoryItem[]> {
+  // Chats in the trash still own their ids
+  for (const item of await ChatDatabase.listTrash()) {
+    existingIds.add(item.id);
+  }
+  const imports = chats.map(chat => {
+    const id = existingIds.has(chat.id) ? uuidv4() : chat.id;
+    existingIds.add(id);
+    const item = createHistoryItem({ id, icon: chat.icon, text: chat.title, kind: chat.kind, ...recordTimes(chat.record) });
+    return { item, record: chat.record };
+  });
+  // Chats with the same time keep the file order, the first one on top
+  await ChatDatabase.importChats([...imports].reverse());
+  for (const { item, record } of imports) {
+    await SearchService.updateChat(item.id, isComparison(record)
+      ? comparisonDocuments(item.id, record)
+      : chatDocuments(item.id, record));
+  }
+  return imports.map(({ item }) => item);
+}
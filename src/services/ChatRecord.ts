@@ -0,0 +1,135 @@
+import { AIConfig, DEFAULT_AI_CONFIG, ImageAttachment } from './AIService';
+import { AIErrorInfo } from './AIError';
+import { ContextSettings, ContextSummary, DEFAULT_CONTEXT_SETTINGS } from './ContextManager';
+import { MessageTree, TreeMessage, treeFromList } from './MessageTree';
+
+/**
+ * 界面上展示的一次工具调用及其结果
+ */
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+  result?: string;
+}
+
+/**
+ * 保存在对话中的一条消息
+ */
+export interface Message extends TreeMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  images?: ImageAttachment[];
+  toolCalls?: ToolCallRecord[];
+  status?: 'stopped';
+  // 创建时间（毫秒），旧版保存的消息没有
+  createdAt?: number;
+  // 请求失败时记录错误，不会混入 content
+  error?: AIErrorInfo;
+}
+
+/**
+ * 标题来源：message 取自第一条消息，auto 由模型生成，user 由用户修改；只有 message 会被自动标题替换
+ */
+export type TitleSource = 'message' | 'auto' | 'user';
+
+/**
+ * 侧边栏中的一条历史记录，对应数据库 chats 表中的一行
+ */
+export interface HistoryItem {
+  id: string;
+  icon: string;
+  text: string;
+  // 对比记录在对比视图中打开
+  kind?: 'compare';
+  titleSource: TitleSource;
+  pinned: boolean;
+  archived: boolean;
+  folderId?: string;
+  tags: string[];
+  // 创建时间和最后一条消息的时间（毫秒），用于按日期分组
+  createdAt: number;
+  updatedAt: number;
+  // 移到回收站的时间，只有回收站中的记录有
+  deletedAt?: number;
+}
+
+/**
+ * 用户创建的文件夹，保存在设置中
+ */
+export interface ChatFolder {
+  id: string;
+  name: string;
+}
+
+/**
+ * 补全历史记录的整理信息，用于新建对话和旧版只有 id、icon、text 的记录
+ */
+export function createHistoryItem(item: Pick<HistoryItem, 'id' | 'icon' | 'text'> & Partial<HistoryItem>): HistoryItem {
+  const now = Date.now();
+  return {
+    titleSource: 'message',
+    pinned: false,
+    archived: false,
+    tags: [],
+    createdAt: now,
+    updatedAt: item.createdAt ?? now,
+    ...item
+  };
+}
+
+/**
+ * 对话中最早和最晚的消息时间，没有记录时间的旧数据返回空对象
+ */
+export function recordTimes(record: ChatRecord | { createdAt: number }): Partial<Pick<HistoryItem, 'createdAt' | 'updatedAt'>> {
+  if (!('tree' in record)) return { createdAt: record.createdAt, updatedAt: record.createdAt };
+  const times = Object.values(record.tree.nodes)
+    .map(message => message.createdAt)
+    .filter((time): time is number => typeof time === 'number');
+  return times.length ? { createdAt: Math.min(...times), updatedAt: Math.max(...times) } : {};
+}
+
+/**
+ * 一个对话的全部数据；保存时消息树的节点拆分为 messages 表中的行
+ */
+export interface ChatRecord {
+  tree: MessageTree<Message>;
+  // 只保存在这个对话中单独调整过的参数，其余使用设置中的默认参数
+  aiConfigOverrides: Partial<AIConfig>;
+  selectedProviderId?: string;
+  selectedModel?: string;
+  contextSettings: ContextSettings;
+  contextSummary?: ContextSummary;
+  assistantId?: string;
+}
+
+function legacyOverrides(aiConfig: Partial<AIConfig> | undefined): Partial<AIConfig> {
+  return Object.fromEntries(Object.entries(aiConfig ?? {}).filter(([key, value]) =>
+    key in DEFAULT_AI_CONFIG && value !== DEFAULT_AI_CONFIG[key as keyof AIConfig]
+  ));
+}
+
+/**
+ * 解析保存的对话，兼容旧格式：
+ * - 平铺的 messages 数组转换为单一路径的消息树
+ * - selectedProvider 保存的是显示名称（如 "OpenAI"），其小写形式即迁移后的服务商 id
+ * - 旧版保存的完整 aiConfig 转换为 aiConfigOverrides，与内置默认值相同的参数视为未调整
+ */
+export function parseChatRecord(raw: string): ChatRecord {
+  return normalizeChatRecord(JSON.parse(raw));
+}
+
+/**
+ * 同 parseChatRecord，用于已经解析过的数据
+ */
+export function normalizeChatRecord(data: any): ChatRecord {
+  return {
+    tree: data.tree ?? treeFromList<Message>(data.messages || []),
+    aiConfigOverrides: data.aiConfigOverrides ?? legacyOverrides(data.aiConfig),
+    selectedProviderId: data.selectedProviderId || data.selectedProvider?.toLowerCase(),
+    selectedModel: data.selectedModel,
+    contextSettings: data.contextSettings || DEFAULT_CONTEXT_SETTINGS,
+    contextSummary: data.contextSummary,
+    assistantId: data.assistantId
+  };
+}
@@ -0,0 +1,97 @@
+import { AIServiceFactory, DEFAULT_AI_CONFIG, toApiOptions } from './AIService';
+import { estimateConversationTokens, estimateTokens } from './ContextManager';
+import { ProviderConfig, ProviderProtocol, isProviderReady } from './ProviderConfig';
+import { PriceTable, UsageService } from './UsageService';
+
+const TITLE_PROMPT = '用不超过 12 个字（英文不超过 6 个词）概括下面这轮对话的主题，作为对话标题。只输出标题本身，不要引号、标点或任何解释。';
+
+// 标题只需要对话的开头部分
+const MAX_EXCERPT_LENGTH = 1000;
+
+export const MAX_TITLE_LENGTH = 40;
+
+/**
+ * 未设置标题模型时按协议选用的小模型，按顺序取服务商模型列表中的第一个；
+ * Ollama 在本地运行，直接用对话本身的模型
+ */
+const SMALL_TITLE_MODELS: Record<Exclude<ProviderProtocol, 'ollama'>, string[]> = {
+  openai: ['gpt-4.1-nano', 'gpt-4o-mini', 'gpt-4.1-mini', 'gpt-3.5-turbo'],
+  anthropic: ['claude-3-5-haiku', 'claude-3-haiku', 'claude-haiku-4-5'],
+  google: ['gemini-2.0-flash-lite', 'gemini-2.0-flash', 'gemini-2.5-flash-lite', 'gemini-1.5-flash']
+};
+
+// 模型名本身或带版本后缀的变体，如 claude-3-5-haiku-latest、gemini-2.0-flash-001
+const isVariantOf = (model: string, base: string) =>
+  model === base || new RegExp(`^${base.replace(/\./g, '\\.')}-(latest|\\d[\\d-]*)$`).test(model);
+
+/**
+ * 自动标题所用的模型：设置了标题模型且服务商仍存在时用它，否则在对话的服务商中选一个小模型
+ * @returns 服务商没有可用的小模型时为 null，此时不生成标题
+ */
+export function pickTitleModel(
+  providers: ProviderConfig[],
+  titleModel: { providerId: string; model: string } | null,
+  chat: { providerId: string; model: string }
+): { config: ProviderConfig; model: string } | null {
+  const preferred = titleModel && providers.find(c => c.id === titleModel.providerId);
+  if (preferred) return { config: preferred, model: titleModel.model };
+
+  const config = providers.find(c => c.id === chat.providerId);
+  if (!config) return null;
+  if (config.protocol === 'ollama') return { config, model: chat.model };
+  for (const base of SMALL_TITLE_MODELS[config.protocol]) {
+    const model = config.availableModels.find(m => isVariantOf(m, base));
+    if (model) return { config, model };
+  }
+  return null;
+}
+
+/**
+ * 清理模型返回的标题：去掉引号、"标题："前缀、结尾标点和多余的行
+ */
+export function cleanTitle(raw: string): string {
+  const firstLine = raw.trim().split('\n')[0] ?? '';
+  return firstLine
+    .replace(/^(标题|title)\s*[:：]\s*/i, '')
+    .replace(/^["'“”‘’「」《》*#\s]+|["'“”‘’「」《》*\s]+$/g, '')
+    .replace(/[。.!！?？,，;；:：]+$/, '')
+    .trim()
+    .slice(0, MAX_TITLE_LENGTH);
+}
+
+/**
+ * 根据第一轮问答生成简短的对话标题，并记录这次调用的用量
+ * @returns 清理后的标题，模型没有给出可用内容时为空字符串
+ */
+export async function generateChatTitle(
+  config: ProviderConfig,
+  model: string,
+  chatId: string,
+  question: string,
+  answer: string,
+  prices: PriceTable
+): Promise<string> {
+  if (!isProviderReady(config)) return '';
+  const service = await AIServiceFactory.fromConfig(config, model);
+  const messages = [{
+    role: 'user' as const,
+    content: `${TITLE_PROMPT}\n\n用户: ${question.slice(0, MAX_EXCERPT_LENGTH)}\n\n助手: ${answer.slice(0, MAX_EXCERPT_LENGTH)}`
+  }];
+  // top_p 保持默认值，Anthropic 请求中只带 temperature
+  const options = toApiOptions(config.protocol, { ...DEFAULT_AI_CONFIG, temperature: 0.3, top_p: 1, max_tokens: 60, candidate_count: 1 });
+  const response = await service.chat(messages, options);
+
+  UsageService.record({
+    providerId: config.id,
+    providerName: config.name,
+    model,
+    chatId,
+    ...(response.usage ?? {
+      inputTokens: estimateConversationTokens(messages, config.protocol),
+      outputTokens: estimateTokens(response.content, config.protocol)
+    }),
+    estimated: !response.usage || undefined
+  }, prices).catch(error => console.error('记录用量失败:', error));
+
+  return cleanTitle(response.content);
+}
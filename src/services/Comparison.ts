@@ -0,0 +1,107 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AIConfig, AIService, ApiOptions, ChatMessage, ChatResponse, DEFAULT_AI_CONFIG, TokenUsage } from './AIService';
+import { AIErrorInfo } from './AIError';
+import { ChatRecord, Message } from './ChatRecord';
+import { DEFAULT_CONTEXT_SETTINGS } from './ContextManager';
+import { treeFromList } from './MessageTree';
+
+export const MIN_COMPARE_TARGETS = 2;
+export const MAX_COMPARE_TARGETS = 4;
+
+/**
+ * 参与对比的服务商和模型
+ */
+export interface CompareTarget {
+  providerId: string;
+  model: string;
+}
+
+/**
+ * 对比视图中的一列，即一个模型对同一问题的回复
+ */
+export interface CompareColumn extends CompareTarget {
+  id: string;
+  providerName: string;
+  content: string;
+  status?: 'stopped';
+  error?: AIErrorInfo;
+  // 从发出请求到回复结束、到收到第一个 token 的耗时（毫秒）
+  latencyMs?: number;
+  firstTokenMs?: number;
+  usage?: TokenUsage;
+  // 服务商未返回用量时为本地估算
+  estimated?: boolean;
+}
+
+/**
+ * 保存在数据库 chats 表的 data 列中，没有单独的消息；kind 用于区分普通对话
+ */
+export interface Comparison {
+  kind: 'compare';
+  prompt: string;
+  aiConfig: AIConfig;
+  columns: CompareColumn[];
+  createdAt: number;
+}
+
+export function createComparison(
+  prompt: string,
+  aiConfig: AIConfig,
+  targets: Array<CompareTarget & { providerName: string }>
+): Comparison {
+  return {
+    kind: 'compare',
+    prompt,
+    aiConfig,
+    columns: targets.map(target => ({ ...target, id: uuidv4(), content: '' })),
+    createdAt: Date.now()
+  };
+}
+
+export function parseComparison(raw: string): Comparison {
+  const data = JSON.parse(raw);
+  if (data?.kind !== 'compare' || !Array.isArray(data.columns)) {
+    throw new Error('不是有效的对比记录');
+  }
+  return { ...data, aiConfig: { ...DEFAULT_AI_CONFIG, ...data.aiConfig } };
+}
+
+/**
+ * 发送一次对比请求并记录首 token 耗时和总耗时
+ */
+export async function runCompareColumn(
+  service: AIService,
+  messages: ChatMessage[],
+  options: ApiOptions,
+  onStream: (chunk: string, firstTokenMs?: number) => void,
+  signal?: AbortSignal
+): Promise<{ response: ChatResponse; latencyMs: number; firstTokenMs?: number }> {
+  const startedAt = performance.now();
+  let firstTokenMs: number | undefined;
+  const response = await service.chat(messages, options, chunk => {
+    if (!chunk) return;
+    if (firstTokenMs === undefined) {
+      firstTokenMs = Math.round(performance.now() - startedAt);
+      onStream(chunk, firstTokenMs);
+    } else {
+      onStream(chunk);
+    }
+  }, { signal });
+  return { response, latencyMs: Math.round(performance.now() - startedAt), firstTokenMs };
+}
+
+/**
+ * 把某一列转成普通对话：提问和该模型的回复作为对话的前两条消息
+ */
+export function comparisonToChat(comparison: Comparison, column: CompareColumn): ChatRecord {
+  return {
+    tree: treeFromList<Message>([
+      { id: `user-${uuidv4()}`, role: 'user', content: comparison.prompt },
+      { id: `assistant-${uuidv4()}`, role: 'assistant', content: column.content }
+    ]),
+    aiConfigOverrides: comparison.aiConfig,
+    selectedProviderId: column.providerId,
+    selectedModel: column.model,
+    contextSettings: DEFAULT_CONTEXT_SETTINGS
+  };
+}
@@ -0,0 +1,179 @@
+import { AIService, ApiOptions, ChatMessage, ChatResponse } from './AIService';
+import { ProviderConfig, ProviderProtocol } from './ProviderConfig';
+
+/**
+ * 历史消息超出上下文时的处理策略
+ */
+export type ContextStrategy = 'last_n' | 'drop_oldest' | 'summarize';
+
+export const CONTEXT_STRATEGY_LABELS: Record<ContextStrategy, string> = {
+  last_n: '保留最近 N 轮',
+  drop_oldest: '丢弃最早的消息',
+  summarize: '摘要较早的对话'
+};
+
+/**
+ * 每个对话的上下文设置，随对话一起保存
+ */
+export interface ContextSettings {
+  strategy: ContextStrategy;
+  lastTurns: number;
+}
+
+export const DEFAULT_CONTEXT_SETTINGS: ContextSettings = {
+  strategy: 'drop_oldest',
+  lastTurns: 10
+};
+
+/**
+ * 已生成的摘要，覆盖从开头到 throughMessageId（含）的消息
+ */
+export interface ContextSummary {
+  throughMessageId: string;
+  content: string;
+}
+
+/**
+ * 各服务商分词器的粗略近似：拉丁文字按字符数折算，中日韩文字按字计算
+ */
+interface TokenProfile {
+  charsPerToken: number;
+  tokensPerCjkChar: number;
+  messageOverhead: number;
+  imageTokens: number;
+}
+
+const TOKEN_PROFILES: Record<ProviderProtocol, TokenProfile> = {
+  openai: { charsPerToken: 4, tokensPerCjkChar: 1, messageOverhead: 4, imageTokens: 765 },
+  anthropic: { charsPerToken: 3.5, tokensPerCjkChar: 1.3, messageOverhead: 5, imageTokens: 1600 },
+  google: { charsPerToken: 4, tokensPerCjkChar: 1, messageOverhead: 2, imageTokens: 258 },
+  ollama: { charsPerToken: 3.5, tokensPerCjkChar: 1.5, messageOverhead: 4, imageTokens: 576 }
+};
+
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uff00-\uffef]/g;
+
+/**
+ * 估算一段文本的 token 数
+ */
+export function estimateTokens(text: string, protocol: ProviderProtocol): number {
+  if (!text) return 0;
+  const profile = TOKEN_PROFILES[protocol];
+  const cjkCount = text.match(CJK_PATTERN)?.length ?? 0;
+  const otherCount = text.length - cjkCount;
+  return Math.ceil(cjkCount * profile.tokensPerCjkChar + otherCount / profile.charsPerToken);
+}
+
+/**
+ * 估算单条消息的 token 数，包含角色标记等固定开销以及图片
+ */
+export function estimateMessageTokens(message: ChatMessage, protocol: ProviderProtocol): number {
+  const profile = TOKEN_PROFILES[protocol];
+  let tokens = profile.messageOverhead + estimateTokens(message.content, protocol);
+  if (message.role === 'user' && message.images) {
+    tokens += message.images.length * profile.imageTokens;
+  }
+  if (message.role === 'assistant' && message.toolCalls) {
+    tokens += estimateTokens(JSON.stringify(message.toolCalls), protocol);
+  }
+  return tokens;
+}
+
+export function estimateConversationTokens(messages: ChatMessage[], protocol: ProviderProtocol): number {
+  return messages.reduce((sum, message) => sum + estimateMessageTokens(message, protocol), 0);
+}
+
+/**
+ * 服务商没有返回上下文长度时，按模型名推测
+ */
+const KNOWN_CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/gpt-4\.1/, 1047576],
+  [/gpt-4o|gpt-4-turbo|^o[134]/, 128000],
+  [/gpt-4/, 8192],
+  [/gpt-3\.5/, 16385],
+  [/claude/, 200000],
+  [/gemini-(1\.5|2)/, 1048576],
+  [/gemini/, 32768],
+  [/llama3\.[123]|qwen2\.5|mistral-nemo/, 128000]
+];
+
+/**
+ * 获取模型的上下文上限：用户设置 > 服务商返回的模型信息 > 按模型名推测
+ */
+export function getContextWindow(config: ProviderConfig, model: string): number {
+  const override = config.contextWindows?.[model];
+  if (override) return override;
+  const reported = config.modelInfo?.[model]?.contextWindow;
+  if (reported) return reported;
+  const known = KNOWN_CONTEXT_WINDOWS.find(([pattern]) => pattern.test(model));
+  if (known) return known[1];
+  // Ollama 默认 num_ctx 较小
+  return config.protocol === 'ollama' ? 4096 : 8192;
+}
+
+/**
+ * 决定从哪条消息开始发送：先按策略截取，再按轮次丢弃最早的内容直到放得下
+ * 始终保留最后一轮，返回保留部分的起始下标
+ */
+export function planContext(
+  messages: ChatMessage[],
+  settings: ContextSettings,
+  budget: number,
+  protocol: ProviderProtocol
+): number {
+  // 一轮从一条用户消息开始
+  const turnStarts = messages.flatMap((m, i) => (m.role === 'user' ? [i] : []));
+  if (turnStarts.length === 0) return 0;
+
+  let turn = 0;
+  if (settings.strategy === 'last_n') {
+    turn = Math.max(0, turnStarts.length - Math.max(1, settings.lastTurns));
+  }
+
+  const tokens = messages.map(m => estimateMessageTokens(m, protocol));
+  let total = tokens.slice(turnStarts[turn]).reduce((a, b) => a + b, 0);
+  while (total > budget && turn < turnStarts.length - 1) {
+    for (let i = turnStarts[turn]; i < turnStarts[turn + 1]; i++) total -= tokens[i];
+    turn++;
+  }
+  return turn === 0 ? 0 : turnStarts[turn];
+}
+
+/**
+ * 预留给摘要消息的 token 数
+ */
+export const SUMMARY_RESERVE_TOKENS = 512;
+
+const SUMMARY_PROMPT =
+  '请把下面的对话压缩成一段简洁的摘要，保留关键事实、结论、用户的偏好和尚未完成的事项，供后续对话参考。只输出摘要本身。';
+
+/**
+ * 调用模型把较早的对话压缩为摘要，previousSummary 存在时在其基础上增量更新
+ * 返回完整响应以便调用方记录用量
+ */
+export async function summarizeMessages(
+  service: AIService,
+  messages: ChatMessage[],
+  options: ApiOptions,
+  previousSummary?: string,
+  signal?: AbortSignal
+): Promise<ChatResponse> {
+  const transcript = messages
+    .filter(m => m.role === 'user' || m.role === 'assistant')
+    .map(m => `${m.role === 'user' ? '用户' : '助手'}: ${m.content}`)
+    .join('\n\n');
+  const earlier = previousSummary ? `已有摘要：\n${previousSummary}\n\n新的对话：\n` : '';
+
+  return service.chat(
+    [{ role: 'user', content: `${SUMMARY_PROMPT}\n\n${earlier}${transcript}` }],
+    options,
+    undefined,
+    { signal }
+  );
+}
+
+/**
+ * 把摘要包装成放在历史开头的消息
+ */
+export function summaryMessage(summary: string): ChatMessage {
+  return { role: 'system', content: `以下是之前对话的摘要：\n${summary}` };
+}
@@ -0,0 +1,395 @@
+import { invoke } from '@tauri-apps/api/core';
+import { Store } from '@tauri-apps/plugin-store';
+import { ChatRecord, HistoryItem, Message, TitleSource, createHistoryItem, normalizeChatRecord, parseChatRecord, recordTimes } from './ChatRecord';
+import { Comparison, parseComparison } from './Comparison';
+
+/**
+ * chats 表中的一行，对应侧边栏的一条历史记录
+ */
+interface ChatMeta {
+  id: string;
+  title: string;
+  icon: string;
+  kind?: 'compare' | null;
+  titleSource: TitleSource;
+  pinned: boolean;
+  archived: boolean;
+  folderId?: string | null;
+  tags: string[];
+  createdAt: number;
+  updatedAt: number;
+  deletedAt?: number | null;
+}
+
+/**
+ * messages 表中的一行，data 为整条消息的 JSON
+ */
+interface StoredMessage {
+  id: string;
+  parentId: string | null;
+  data: string;
+}
+
+interface MessagePage {
+  messages: StoredMessage[];
+  nextCursor: number | null;
+}
+
+/**
+ * 一个对话占用的空间，包括回收站中的对话
+ */
+export interface ChatUsage {
+  id: string;
+  title: string;
+  icon: string;
+  deletedAt: number | null;
+  messageCount: number;
+  bytes: number;
+}
+
+/**
+ * 数据库文件的整体情况；消息随对话级联删除，数据库中不会有孤立消息
+ */
+export interface StorageStats {
+  fileBytes: number;
+  freeBytes: number;
+}
+
+/**
+ * 旧版 store.bin 中没有任何对话对应的数据
+ */
+export interface LegacyOrphan {
+  key: string;
+  bytes: number;
+}
+
+interface ImportedChat {
+  meta: ChatMeta;
+  data: string;
+  messages: StoredMessage[];
+}
+
+/**
+ * 要一次写入数据库的对话，用于迁移和导入
+ */
+export interface ChatImport {
+  item: HistoryItem;
+  record: ChatRecord | Comparison;
+}
+
+/**
+ * 设置项的读写接口，与 plugin-store 的 Store 兼容；值为 JSON 字符串
+ */
+export interface KeyValueStore {
+  get(key: string): Promise<unknown>;
+  set(key: string, value: unknown): Promise<void>;
+  delete(key: string): Promise<unknown>;
+  save(): Promise<void>;
+}
+
+// 每次读取的消息条数，只用于分批读取，避免单次 IPC 传输过大
+const MESSAGE_PAGE_SIZE = 200;
+
+// 旧版 store.bin / history.bin 已导入数据库的标记
+const LEGACY_MIGRATION_KEY = 'migratedLegacyStores';
+
+const LEGACY_CHAT_STORE = 'store.bin';
+
+/**
+ * 回收站中的对话保留的天数，之后在启动时彻底删除
+ */
+export const TRASH_RETENTION_DAYS = 30;
+
+/**
+ * 回复流式输出期间两次写入数据库的最短间隔（毫秒），输出结束时再写入一次
+ */
+export const STREAM_SAVE_INTERVAL_MS = 2000;
+
+const toMeta = (item: HistoryItem): ChatMeta => ({
+  id: item.id,
+  title: item.text,
+  icon: item.icon,
+  kind: item.kind,
+  titleSource: item.titleSource,
+  pinned: item.pinned,
+  archived: item.archived,
+  folderId: item.folderId,
+  tags: item.tags,
+  createdAt: item.createdAt,
+  updatedAt: item.updatedAt
+});
+
+const toStoredMessage = (message: Message): StoredMessage => ({
+  id: message.id,
+  parentId: message.parentId,
+  data: JSON.stringify(message)
+});
+
+// 消息单独存放，对话数据中只保留每个分支的选中记录
+const chatData = (record: ChatRecord) => JSON.stringify({ ...record, tree: { selected: record.tree.selected } });
+
+const toHistoryItem = (chat: ChatMeta): HistoryItem => ({
+  id: chat.id,
+  icon: chat.icon,
+  text: chat.title,
+  ...(chat.kind === 'compare' ? { kind: chat.kind } : {}),
+  titleSource: chat.titleSource,
+  pinned: chat.pinned,
+  archived: chat.archived,
+  ...(chat.folderId ? { folderId: chat.folderId } : {}),
+  tags: chat.tags,
+  createdAt: chat.createdAt,
+  updatedAt: chat.updatedAt,
+  ...(chat.deletedAt ? { deletedAt: chat.deletedAt } : {})
+});
+
+function toImportedChat({ item, record }: ChatImport): ImportedChat {
+  if ('kind' in record && record.kind === 'compare') {
+    return { meta: toMeta(item), data: JSON.stringify(record), messages: [] };
+  }
+  const chat = record as ChatRecord;
+  return { meta: toMeta(item), data: chatData(chat), messages: Object.values(chat.tree.nodes).map(toStoredMessage) };
+}
+
+/**
+ * 对话和设置的 SQLite 存储，由 Rust 端的 db_* 命令实现
+ */
+export class ChatDatabase {
+  /**
+   * 侧边栏的全部历史记录，最近有消息的在前；不包括回收站
+   */
+  static async listChats(): Promise<HistoryItem[]> {
+    return (await invoke<ChatMeta[]>('db_list_chats')).map(toHistoryItem);
+  }
+
+  /**
+   * 回收站中的对话，最近删除的在前
+   */
+  static async listTrash(): Promise<HistoryItem[]> {
+    return (await invoke<ChatMeta[]>('db_list_trash')).map(toHistoryItem);
+  }
+
+  /**
+   * 新建对话；对话已存在时更新标题、图标和整理信息
+   */
+  static async createChat(item: HistoryItem): Promise<void> {
+    await invoke('db_upsert_chat', { chat: toMeta(item) });
+  }
+
+  /**
+   * 保存重命名、置顶、归档、文件夹和标签等修改
+   */
+  static async updateChat(item: HistoryItem): Promise<void> {
+    await invoke('db_upsert_chat', { chat: toMeta(item) });
+  }
+
+  /**
+   * 彻底删除对话及其全部消息
+   */
+  static async deleteChats(ids: string[]): Promise<void> {
+    await invoke('db_delete_chats', { ids });
+  }
+
+  /**
+   * 把对话移到回收站，TRASH_RETENTION_DAYS 天内可以恢复
+   */
+  static async trashChats(ids: string[]): Promise<void> {
+    await invoke('db_trash_chats', { ids });
+  }
+
+  static async restoreChats(ids: string[]): Promise<void> {
+    await invoke('db_restore_chats', { ids });
+  }
+
+  /**
+   * 彻底删除回收站中在 before 之前删除的对话，不传时清空回收站
+   * @returns 删除的对话数
+   */
+  static async purgeTrash(before?: number): Promise<number> {
+    return invoke<number>('db_purge_trash', { before: before ?? null });
+  }
+
+  /**
+   * 彻底删除超过保留期的回收站对话，启动时调用
+   */
+  static async purgeExpiredTrash(): Promise<number> {
+    return this.purgeTrash(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * 按加入顺序分页读取对话的消息
+   * @param after 上一页返回的 nextCursor，首页不传
+   */
+  static async loadMessages(chatId: string, after?: number, limit: number = MESSAGE_PAGE_SIZE): Promise<{ messages: Message[]; nextCursor: number | null }> {
+    const page = await invoke<MessagePage>('db_load_messages', { chatId, after: after ?? null, limit });
+    return {
+      messages: page.messages.map(message => ({ ...JSON.parse(message.data), id: message.id, parentId: message.parentId })),
+      nextCursor: page.nextCursor
+    };
+  }
+
+  /**
+   * 读取对话及其全部消息；对话不存在或还没有保存过时返回 null。
+   * 分支切换和上下文截断都需要完整的消息树，所以这里会读完所有分页后才返回
+   */
+  static async loadChat(id: string): Promise<ChatRecord | null> {
+    const raw = await invoke<string | null>('db_load_chat_data', { id });
+    if (!raw) return null;
+    const data = JSON.parse(raw);
+    if (!data.tree) return null;
+
+    const nodes: Record<string, Message> = {};
+    let cursor: number | undefined;
+    do {
+      const page = await this.loadMessages(id, cursor);
+      for (const message of page.messages) {
+        nodes[message.id] = message;
+      }
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor !== undefined);
+
+    return normalizeChatRecord({ ...data, tree: { nodes, selected: data.tree.selected ?? {} } });
+  }
+
+  /**
+   * 保存对话数据，只写入 changed 中的消息；对话已被删除或在回收站中时不写入
+   * @returns 是否写入
+   */
+  static async saveChat(id: string, record: ChatRecord, changed: Message[] = Object.values(record.tree.nodes)): Promise<boolean> {
+    return invoke<boolean>('db_save_chat', { chatId: id, data: chatData(record), messages: changed.map(toStoredMessage) });
+  }
+
+  static async loadComparison(id: string): Promise<Comparison | null> {
+    const raw = await invoke<string | null>('db_load_chat_data', { id });
+    return raw && raw !== '{}' ? parseComparison(raw) : null;
+  }
+
+  /**
+   * @returns 是否写入，规则同 saveChat
+   */
+  static async saveComparison(id: string, comparison: Comparison): Promise<boolean> {
+    return invoke<boolean>('db_save_chat', { chatId: id, data: JSON.stringify(comparison), messages: [] });
+  }
+
+  /**
+   * 在一个事务中写入多个对话，按传入顺序依次排到最前面
+   */
+  static async importChats(chats: ChatImport[]): Promise<void> {
+    await invoke('db_import', { chats: chats.map(toImportedChat), settings: [], marker: null });
+  }
+
+  /**
+   * 把旧版 history.bin 的历史记录和设置、store.bin 的对话数据导入数据库，只执行一次；
+   * 已从侧边栏删除的对话不再导入。导入成功后从 store.bin 中删除已导入的对话，
+   * 剩下的只有迁移前就已删除的对话，可在存储设置中清理
+   */
+  static async migrateLegacyStores(): Promise<void> {
+    if (await invoke<string | null>('db_get_setting', { key: LEGACY_MIGRATION_KEY })) return;
+
+    const history = await Store.load('history.bin');
+    const chatStore = await Store.load(LEGACY_CHAT_STORE);
+
+    const settings: Array<[string, string]> = [];
+    // 旧版历史记录只有 id、icon、text 和 kind
+    let items: Array<Pick<HistoryItem, 'id' | 'icon' | 'text' | 'kind'>> = [];
+    for (const [key, value] of await history.entries()) {
+      if (key === 'historyItems') {
+        items = JSON.parse(value as string);
+      } else {
+        settings.push([key, typeof value === 'string' ? value : JSON.stringify(value)]);
+      }
+    }
+
+    const chats: ImportedChat[] = [];
+    // 已导入数据库、可以从 store.bin 中删除的对话
+    const migratedKeys: string[] = [];
+    // 数据库按写入顺序排列，最旧的先写
+    for (const legacyItem of [...items].reverse()) {
+      try {
+        const raw = await chatStore.get<string>(legacyItem.id);
+        if (!raw) {
+          chats.push({ meta: toMeta(createHistoryItem(legacyItem)), data: '{}', messages: [] });
+        } else {
+          const record = legacyItem.kind === 'compare' ? parseComparison(raw) : parseChatRecord(raw);
+          const item = createHistoryItem({ ...legacyItem, ...recordTimes(record) });
+          chats.push(toImportedChat({ item, record }));
+          migratedKeys.push(legacyItem.id);
+        }
+      } catch (error) {
+        console.error('迁移对话失败:', legacyItem.id, error);
+      }
+    }
+
+    await invoke('db_import', { chats, settings, marker: LEGACY_MIGRATION_KEY });
+
+    // 事务已提交，旧文件中的副本不再需要；删除失败只会多占空间，下次启动不会重新导入
+    try {
+      for (const key of migratedKeys) {
+        await chatStore.delete(key);
+      }
+      await chatStore.save();
+    } catch (error) {
+      console.error('清理旧版对话数据失败:', error);
+    }
+  }
+}
+
+/**
+ * 存储空间的统计和清理
+ */
+export class StorageCleanup {
+  /**
+   * 每个对话占用的空间，最大的在前
+   */
+  static async chatUsage(): Promise<ChatUsage[]> {
+    return invoke<ChatUsage[]>('db_storage_usage');
+  }
+
+  static async stats(): Promise<StorageStats> {
+    return invoke<StorageStats>('db_storage_stats');
+  }
+
+  /**
+   * 旧版 store.bin 中对应的对话已不在数据库（包括回收站）里的数据；
+   * 这些对话在迁移前就已从侧边栏删除，数据一直留在文件中
+   */
+  static async findLegacyOrphans(): Promise<LegacyOrphan[]> {
+    const ids = new Set([...await ChatDatabase.listChats(), ...await ChatDatabase.listTrash()].map(item => item.id));
+    const chatStore = await Store.load(LEGACY_CHAT_STORE);
+    return (await chatStore.entries())
+      .filter(([key]) => !ids.has(key))
+      .map(([key, value]) => ({ key, bytes: new Blob([typeof value === 'string' ? value : JSON.stringify(value)]).size }));
+  }
+
+  static async deleteLegacyOrphans(keys: string[]): Promise<void> {
+    const chatStore = await Store.load(LEGACY_CHAT_STORE);
+    for (const key of keys) {
+      await chatStore.delete(key);
+    }
+    await chatStore.save();
+  }
+
+  /**
+   * 重建数据库文件，释放已删除内容占用的空间
+   */
+  static async compact(): Promise<void> {
+    await invoke('db_compact');
+  }
+}
+
+/**
+ * 保存在数据库 settings 表中的设置项
+ */
+export const settingsStore: KeyValueStore = {
+  async get(key) {
+    return (await invoke<string | null>('db_get_setting', { key })) ?? undefined;
+  },
+  async set(key, value) {
+    await invoke('db_set_setting', { key, value: typeof value === 'string' ? value : JSON.stringify(value) });
+  },
+  async delete(key) {
+    await invoke('db_delete_setting', { key });
+  },
+  // 每次 set 都已写入数据库
+  async save() {}
+};
@@ -0,0 +1,62 @@
+import { HistoryItem } from './ChatRecord';
+
+export type DateGroup = 'today' | 'yesterday' | 'week' | 'month' | 'older';
+
+export const DATE_GROUP_LABELS: Record<DateGroup, string> = {
+  today: '今天',
+  yesterday: '昨天',
+  week: '最近 7 天',
+  month: '最近 30 天',
+  older: '更早'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 按本地日历日判断时间属于哪个分组
+ */
+export function dateGroupOf(timestamp: number, now: number = Date.now()): DateGroup {
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  const start = today.getTime();
+  if (timestamp >= start) return 'today';
+  if (timestamp >= start - DAY_MS) return 'yesterday';
+  if (timestamp >= start - 6 * DAY_MS) return 'week';
+  if (timestamp >= start - 29 * DAY_MS) return 'month';
+  return 'older';
+}
+
+/**
+ * 最近有消息的在前
+ */
+export function sortByRecent(items: HistoryItem[]): HistoryItem[] {
+  return [...items].sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * 按最后一条消息的日期分组，省略空分组
+ */
+export function groupByDate(items: HistoryItem[], now: number = Date.now()): Array<{ group: DateGroup; items: HistoryItem[] }> {
+  const groups = new Map<DateGroup, HistoryItem[]>();
+  for (const item of sortByRecent(items)) {
+    const group = dateGroupOf(item.updatedAt, now);
+    groups.set(group, [...(groups.get(group) ?? []), item]);
+  }
+  return (Object.keys(DATE_GROUP_LABELS) as DateGroup[])
+    .filter(group => groups.has(group))
+    .map(group => ({ group, items: groups.get(group)! }));
+}
+
+/**
+ * 所有对话用到的标签，按名称排序
+ */
+export function collectTags(items: HistoryItem[]): string[] {
+  return [...new Set(items.flatMap(item => item.tags))].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * 解析逗号分隔的标签输入，去掉空白和重复
+ */
+export function parseTags(input: string): string[] {
+  return [...new Set(input.split(/[,，]/).map(tag => tag.trim()).filter(Boolean))];
+}
@@ -0,0 +1,53 @@
+import { invoke } from '@tauri-apps/api/core';
+
+export interface VaultStatus {
+  // 是否已设置主密码
+  initialized: boolean;
+  unlocked: boolean;
+}
+
+/**
+ * 服务商 API Key 的加密密钥库，由 Rust 端的 vault_* 命令实现；
+ * Key 不保存在前端，只在发起请求时按需取出
+ */
+export class KeyVault {
+  static async status(): Promise<VaultStatus> {
+    return await invoke<VaultStatus>('vault_status');
+  }
+
+  /**
+   * 用主密码解锁；还没有密钥库时以此密码新建
+   */
+  static async unlock(passphrase: string): Promise<void> {
+    await invoke('vault_unlock', { passphrase });
+  }
+
+  static async lock(): Promise<void> {
+    await invoke('vault_lock');
+  }
+
+  /**
+   * 加密保存一个服务商的 Key，需要先解锁
+   */
+  static async setSecret(providerId: string, secret: string): Promise<void> {
+    await invoke('vault_set_secret', { providerId, secret });
+  }
+
+  static async deleteSecret(providerId: string): Promise<void> {
+    await invoke('vault_delete_secret', { providerId });
+  }
+
+  /**
+   * 取出一个服务商的 Key，没有保存时返回空字符串；密钥库锁定时抛出错误
+   */
+  static async getSecret(providerId: string): Promise<string> {
+    return (await invoke<string | null>('vault_get_secret', { providerId })) ?? '';
+  }
+
+  /**
+   * 清空密钥库，之后可以用新的主密码重新设置
+   */
+  static async reset(): Promise<void> {
+    await invoke('vault_reset');
+  }
+}
@@ -0,0 +1,125 @@
+import { invoke } from '@tauri-apps/api/core';
+
+/**
+ * MCP 服务配置（stdio 方式启动）
+ */
+export interface McpServerConfig {
+  id: string;
+  name: string;
+  command: string;
+  args: string[];
+  env: Record<string, string>;
+  enabled: boolean;
+}
+
+/**
+ * MCP 服务暴露的工具，附带所属服务 id 以便回调
+ */
+export interface McpTool {
+  serverId: string;
+  name: string;
+  // 提供给模型的名称，带服务前缀，在所有服务的工具中唯一
+  callName: string;
+  description?: string;
+  inputSchema: Record<string, any>;
+}
+
+// 各服务商对工具名的共同限制：1–64 个 [a-zA-Z0-9_-] 字符
+const MAX_CALL_NAME_LENGTH = 64;
+const SERVER_PREFIX_LENGTH = 8;
+
+const sanitizeName = (name: string) => name.replace(/[^a-zA-Z0-9_-]/g, '_');
+
+/**
+ * 工具提供给模型的名称：服务 id 前缀 + "__" + 工具名，超长时截断
+ */
+export function toolCallName(serverId: string, name: string): string {
+  return `${sanitizeName(serverId).slice(0, SERVER_PREFIX_LENGTH)}__${sanitizeName(name)}`.slice(0, MAX_CALL_NAME_LENGTH);
+}
+
+// 截断或替换字符后重名的工具加上序号
+function uniqueCallNames(tools: McpTool[]): McpTool[] {
+  const used = new Set<string>();
+  return tools.map(tool => {
+    let callName = tool.callName;
+    for (let n = 2; used.has(callName); n++) {
+      const suffix = `_${n}`;
+      callName = tool.callName.slice(0, MAX_CALL_NAME_LENGTH - suffix.length) + suffix;
+    }
+    used.add(callName);
+    return { ...tool, callName };
+  });
+}
+
+/**
+ * tools/call 的返回结果
+ */
+export interface McpToolResult {
+  content: Array<{ type: string; text?: string; [key: string]: any }>;
+  isError?: boolean;
+}
+
+/**
+ * MCP 桥接服务，封装 Rust 端的进程管理命令
+ */
+export class McpService {
+  /**
+   * 启动（或重启）MCP 服务，返回服务端的 initialize 结果
+   */
+  static async startServer(config: McpServerConfig): Promise<any> {
+    return invoke('mcp_start_server', {
+      config: { id: config.id, command: config.command, args: config.args, env: config.env }
+    });
+  }
+
+  static async stopServer(id: string): Promise<void> {
+    await invoke('mcp_stop_server', { id });
+  }
+
+  static async runningServers(): Promise<string[]> {
+    return invoke<string[]>('mcp_running_servers');
+  }
+
+  /**
+   * 获取单个服务的工具列表
+   */
+  static async listTools(serverId: string): Promise<McpTool[]> {
+    const tools = await invoke<Array<Omit<McpTool, 'serverId' | 'callName'>>>('mcp_list_tools', { id: serverId });
+    return tools.map(tool => ({
+      serverId,
+      name: tool.name,
+      callName: toolCallName(serverId, tool.name),
+      description: tool.description,
+      inputSchema: tool.inputSchema || { type: 'object', properties: {} }
+    }));
+  }
+
+  /**
+   * 汇总所有运行中服务的工具，单个服务失败不影响其它服务；不同服务的同名工具通过 callName 区分
+   */
+  static async listAllTools(): Promise<McpTool[]> {
+    const serverIds = await McpService.runningServers();
+    const results = await Promise.all(serverIds.map(async id => {
+      try {
+        return await McpService.listTools(id);
+      } catch (error) {
+        console.error(`获取 MCP 服务 ${id} 的工具失败:`, error);
+        return [];
+      }
+    }));
+    return uniqueCallNames(results.flat());
+  }
+
+  static async callTool(serverId: string, name: string, args: Record<string, any>): Promise<McpToolResult> {
+    return invoke<McpToolResult>('mcp_call_tool', { id: serverId, name, arguments: args });
+  }
+
+  /**
+   * 把工具结果拼成纯文本，供模型继续对话
+   */
+  static resultToText(result: McpToolResult): string {
+    return (result.content || [])
+      .map(part => part.type === 'text' ? part.text : JSON.stringify(part))
+      .join('\n');
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * 树中的消息只需要 id 和父消息 id，第一条消息的 parentId 为 null
+ */
+export interface TreeMessage {
+  id: string;
+  parentId: string | null;
+}
+
+/**
+ * 消息树：编辑后重新发送会在同一父消息下产生新的分支
+ * selected 记录每个父消息当前显示的子消息，从根沿 selected 走到底即为当前路径
+ */
+export interface MessageTree<M extends TreeMessage> {
+  nodes: Record<string, M>;
+  selected: Record<string, string>;
+}
+
+// selected 中代表根（parentId 为 null）的键
+const ROOT_KEY = '';
+
+const parentKey = (parentId: string | null) => parentId ?? ROOT_KEY;
+
+export function emptyTree<M extends TreeMessage>(): MessageTree<M> {
+  return { nodes: {}, selected: {} };
+}
+
+/**
+ * 把旧版的平铺消息数组转换为只有一条路径的树
+ */
+export function treeFromList<M extends TreeMessage>(messages: Array<Omit<M, 'parentId'>>): MessageTree<M> {
+  const tree = emptyTree<M>();
+  let parentId: string | null = null;
+  for (const message of messages) {
+    tree.nodes[message.id] = { ...message, parentId } as M;
+    tree.selected[parentKey(parentId)] = message.id;
+    parentId = message.id;
+  }
+  return tree;
+}
+
+// 子消息按加入顺序排列
+function childrenIndex<M extends TreeMessage>(tree: MessageTree<M>): Map<string, M[]> {
+  const index = new Map<string, M[]>();
+  for (const node of Object.values(tree.nodes)) {
+    const key = parentKey(node.parentId);
+    const children = index.get(key);
+    if (children) {
+      children.push(node);
+    } else {
+      index.set(key, [node]);
+    }
+  }
+  return index;
+}
+
+/**
+ * 当前显示的路径；某个分支没有选中记录时取最新的子消息
+ */
+export function activePath<M extends TreeMessage>(tree: MessageTree<M>): M[] {
+  const index = childrenIndex(tree);
+  const path: M[] = [];
+  let key = ROOT_KEY;
+  for (;;) {
+    const children = index.get(key);
+    if (!children) return path;
+    const next = children.find(c => c.id === tree.selected[key]) ?? children[children.length - 1];
+    path.push(next);
+    key = next.id;
+  }
+}
+
+/**
+ * 从根到指定消息（含）的路径
+ */
+export function pathTo<M extends TreeMessage>(tree: MessageTree<M>, id: string): M[] {
+  const path: M[] = [];
+  let node: M | undefined = tree.nodes[id];
+  while (node) {
+    path.unshift(node);
+    node = node.parentId ? tree.nodes[node.parentId] : undefined;
+  }
+  return path;
+}
+
+/**
+ * 加入一条消息并把它设为父消息当前显示的分支
+ */
+export function addMessage<M extends TreeMessage>(tree: MessageTree<M>, message: M): MessageTree<M> {
+  return {
+    nodes: { ...tree.nodes, [message.id]: message },
+    selected: { ...tree.selected, [parentKey(message.parentId)]: message.id }
+  };
+}
+
+export function updateMessage<M extends TreeMessage>(
+  tree: MessageTree<M>,
+  id: string,
+  update: (message: M) => M
+): MessageTree<M> {
+  const node = tree.nodes[id];
+  if (!node) return tree;
+  return { ...tree, nodes: { ...tree.nodes, [id]: update(node) } };
+}
+
+/**
+ * 消息在兄弟分支中的位置，用于显示「< 2/3 >」
+ */
+export function branchInfo<M extends TreeMessage>(tree: MessageTree<M>, id: string): { index: number; count: number } {
+  const node = tree.nodes[id];
+  if (!node) return { index: 0, count: 1 };
+  const siblings = Object.values(tree.nodes).filter(n => n.parentId === node.parentId);
+  return { index: siblings.findIndex(n => n.id === id), count: siblings.length };
+}
+
+/**
+ * 把指定消息设为其父消息当前显示的分支
+ */
+export function selectMessage<M extends TreeMessage>(tree: MessageTree<M>, id: string): MessageTree<M> {
+  const node = tree.nodes[id];
+  if (!node) return tree;
+  return { ...tree, selected: { ...tree.selected, [parentKey(node.parentId)]: id } };
+}
+
+/**
+ * 切换各级分支，使指定消息出现在当前路径上
+ */
+export function revealMessage<M extends TreeMessage>(tree: MessageTree<M>, id: string): MessageTree<M> {
+  return pathTo(tree, id).reduce((next, node) => selectMessage(next, node.id), tree);
+}
+
+/**
+ * 切换到前一个（offset 为 -1）或后一个兄弟分支
+ */
+export function selectSibling<M extends TreeMessage>(tree: MessageTree<M>, id: string, offset: number): MessageTree<M> {
+  const node = tree.nodes[id];
+  if (!node) return tree;
+  const siblings = Object.values(tree.nodes).filter(n => n.parentId === node.parentId);
+  const target = siblings[siblings.findIndex(n => n.id === id) + offset];
+  return target ? selectMessage(tree, target.id) : tree;
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from 'vitest';
+import { readNDJSON } from './NDJSONParser';
+
+// A response whose body arrives in exactly these text chunks
+const chunkedResponse = (chunks: string[]) =>
+  new Response(new ReadableStream({
+    start(controller) {
+      const encoder = new TextEncoder();
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    }
+  }));
+
+const collect = async (iterable: AsyncIterable<unknown>) => {
+  const items: unknown[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+};
+
+describe('readNDJSON', () => {
+  it('joins a line split across chunks', async () => {
+    const response = chunkedResponse(['{"message":{"content":"你', '好"}}\n{"done":', 'true}\n']);
+    expect(await collect(readNDJSON(response))).toEqual([{ message: { content: '你好' } }, { done: true }]);
+  });
+
+  it('reads the last line without a trailing newline and skips blank lines', async () => {
+    const response = chunkedResponse(['{"a":1}\n\n  \n', '{"b":2}']);
+    expect(await collect(readNDJSON(response))).toEqual([{ a: 1 }, { b: 2 }]);
+  });
+
+  it('skips lines that are not JSON', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const response = chunkedResponse(['{"a":1}\nnot json\n{"b":2}\n']);
+    expect(await collect(readNDJSON(response))).toEqual([{ a: 1 }, { b: 2 }]);
+  });
+
+  it('throws once the signal is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(collect(readNDJSON(chunkedResponse(['{"a":1}\n']), controller.signal))).rejects.toThrow();
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * 逐行读取换行分隔的 JSON（NDJSON）响应，跨网络分块缓存未完成的行
+ * 传入 signal 时，取消后会在下一次读取前抛出 AbortError
+ */
+export async function* readNDJSON(response: Response, signal?: AbortSignal): AsyncGenerator<any> {
+  const reader = response.body?.getReader();
+  if (!reader) return;
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      signal?.throwIfAborted();
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      // 最后一段可能不完整，流结束前保留到下一次读取
+      buffer = done ? '' : lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (line.trim() === '') continue;
+        try {
+          yield JSON.parse(line);
+        } catch (e) {
+          console.error('Error parsing NDJSON line:', line, e);
+        }
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
@@ -0,0 +1,127 @@
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * 提示词模板，content 中的 {{变量名}} 在使用时填写
+ */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  // 在输入框中输入 /command 可快速找到
+  command: string;
+  description: string;
+  content: string;
+}
+
+export const BUILTIN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'code-review',
+    name: '代码审查',
+    command: 'review',
+    description: '检查代码中的问题并给出修改建议',
+    content: '请审查下面的 {{language}} 代码，指出潜在的 bug、性能问题和可读性问题，并给出修改建议：\n\n```\n{{code}}\n```'
+  },
+  {
+    id: 'translate',
+    name: '翻译',
+    command: 'translate',
+    description: '翻译成指定语言',
+    content: '请把下面的内容翻译成{{target_language}}，保持原文的语气和格式，只输出译文：\n\n{{text}}'
+  },
+  {
+    id: 'summarize-diff',
+    name: '总结 diff',
+    command: 'diff',
+    description: '总结代码变更并生成提交信息',
+    content: '请总结下面这个 diff 做了哪些改动，并给出一条简洁的英文提交信息：\n\n```diff\n{{diff}}\n```'
+  }
+];
+
+const VARIABLE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+/**
+ * 按出现顺序提取模板中的变量名（去重）
+ */
+export function extractVariables(content: string): string[] {
+  const names = [...content.matchAll(VARIABLE_PATTERN)].map(match => match[1]);
+  return [...new Set(names)];
+}
+
+export function renderTemplate(content: string, values: Record<string, string>): string {
+  return content.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+/**
+ * 子序列模糊匹配：连续命中和单词开头命中得分更高，不匹配时返回 -1
+ */
+export function fuzzyScore(query: string, text: string): number {
+  const q = query.toLowerCase();
+  const t = text.toLowerCase();
+  if (!q) return 0;
+
+  let score = 0;
+  let lastIndex = -1;
+  for (const ch of q) {
+    const index = t.indexOf(ch, lastIndex + 1);
+    if (index === -1) return -1;
+    if (index === lastIndex + 1) score += 3;
+    if (index === 0 || /[\s\-_/]/.test(t[index - 1])) score += 2;
+    score += 1;
+    lastIndex = index;
+  }
+  // 同等命中时更短的文本排在前面
+  return score - t.length * 0.01;
+}
+
+export function searchTemplates(templates: PromptTemplate[], query: string): PromptTemplate[] {
+  return templates
+    .map(template => ({
+      template,
+      score: Math.max(fuzzyScore(query, template.command), fuzzyScore(query, template.name))
+    }))
+    .filter(({ score }) => score >= 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ template }) => template);
+}
+
+export function createTemplate(): PromptTemplate {
+  return { id: uuidv4(), name: '新模板', command: '', description: '', content: '' };
+}
+
+const EXPORT_VERSION = 1;
+
+export function exportTemplates(templates: PromptTemplate[]): string {
+  return JSON.stringify({ version: EXPORT_VERSION, templates }, null, 2);
+}
+
+/**
+ * 解析导出的 JSON（也接受直接的模板数组），格式不对时抛出错误
+ */
+export function parseTemplates(json: string): PromptTemplate[] {
+  const data = JSON.parse(json);
+  const list = Array.isArray(data) ? data : data?.templates;
+  if (!Array.isArray(list)) {
+    throw new Error('不是有效的模板文件');
+  }
+  return list.map((item: any) => {
+    if (typeof item?.name !== 'string' || typeof item?.content !== 'string') {
+      throw new Error('模板缺少 name 或 content 字段');
+    }
+    return {
+      id: typeof item.id === 'string' ? item.id : uuidv4(),
+      name: item.name,
+      command: typeof item.command === 'string' ? item.command : '',
+      description: typeof item.description === 'string' ? item.description : '',
+      content: item.content
+    };
+  });
+}
+
+/**
+ * 导入的模板按 id 覆盖已有模板，其余追加到末尾
+ */
+export function mergeTemplates(existing: PromptTemplate[], imported: PromptTemplate[]): PromptTemplate[] {
+  const importedById = new Map(imported.map(t => [t.id, t]));
+  const merged = existing.map(t => importedById.get(t.id) ?? t);
+  const existingIds = new Set(existing.map(t => t.id));
+  return [...merged, ...imported.filter(t => !existingIds.has(t.id))];
+}
@@ -0,0 +1,174 @@
+import { Store } from '@tauri-apps/plugin-store';
+import { v4 as uuidv4 } from 'uuid';
+import { ModelInfo } from './AIService';
+import { KeyVault } from './KeyVault';
+
+/**
+ * 服务商使用的接口协议，决定由哪个 AIService 实现处理请求
+ */
+export type ProviderProtocol = 'openai' | 'anthropic' | 'google' | 'ollama';
+
+/**
+ * 用户配置的服务商实例，同一协议可以配置多个
+ */
+export interface ProviderConfig {
+  id: string;
+  name: string;
+  protocol: ProviderProtocol;
+  // The key itself lives in the encrypted vault; this only records that one was saved
+  hasApiKey?: boolean;
+  baseUrl: string;
+  headers: Record<string, string>;
+  modelName: string;
+  availableModels: string[];
+  // Models the user added by hand, kept across refreshes
+  customModels?: string[];
+  modelInfo?: Record<string, ModelInfo>;
+  // Context window limits set by the user, overriding what the provider reports
+  contextWindows?: Record<string, number>;
+}
+
+export const PROTOCOL_LABELS: Record<ProviderProtocol, string> = {
+  openai: 'OpenAI 兼容',
+  anthropic: 'Anthropic',
+  google: 'Gemini',
+  ollama: 'Ollama'
+};
+
+const PROTOCOL_BASE_URLS: Record<ProviderProtocol, string> = {
+  openai: 'https://api.openai.com/v1',
+  anthropic: 'https://api.anthropic.com/v1',
+  google: 'https://generativelanguage.googleapis.com/v1beta',
+  ollama: 'http://localhost:11434'
+};
+
+// 早期版本新建服务商时预置的模型，不算手动添加
+const LEGACY_PRESET_MODELS: Record<ProviderProtocol, string[]> = {
+  openai: ['gpt-3.5-turbo', 'gpt-4', 'gpt-4-turbo'],
+  anthropic: ['claude-3-opus', 'claude-3-sonnet', 'claude-3-haiku'],
+  google: ['gemini-pro', 'gemini-ultra'],
+  ollama: ['llama3.2']
+};
+
+const LOCAL_HOST_PATTERN = /^(localhost|127\.\d+\.\d+\.\d+|0\.0\.0\.0|\[::1\]|10\.\d+\.\d+\.\d+|192\.168\.\d+\.\d+|.+\.local)$/i;
+
+/**
+ * 是否必须填写 API Key：Ollama 以及指向本机/局域网的服务（如 llama.cpp server）可以不填
+ */
+export function requiresApiKey(config: ProviderConfig): boolean {
+  if (config.protocol === 'ollama') return false;
+  try {
+    return !LOCAL_HOST_PATTERN.test(new URL(config.baseUrl).hostname);
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * 是否可以发起请求：不需要 Key，或者已在密钥库中保存了 Key
+ */
+export function isProviderReady(config: ProviderConfig): boolean {
+  return !requiresApiKey(config) || !!config.hasApiKey;
+}
+
+/**
+ * 新建一个服务商实例，使用协议对应的默认地址；模型列表为空，从服务商获取或手动添加
+ */
+export function createProviderConfig(protocol: ProviderProtocol, name?: string, id: string = uuidv4()): ProviderConfig {
+  return {
+    id,
+    name: name ?? PROTOCOL_LABELS[protocol],
+    protocol,
+    headers: {},
+    baseUrl: PROTOCOL_BASE_URLS[protocol],
+    modelName: '',
+    availableModels: []
+  };
+}
+
+/**
+ * 为没有记录手动添加模型的旧配置补上 customModels：模型列表中除早期预置模型外的都视为手动添加
+ */
+export function withLegacyCustomModels(config: ProviderConfig): ProviderConfig {
+  if (config.customModels) return config;
+  const presets = LEGACY_PRESET_MODELS[config.protocol] ?? [];
+  return { ...config, customModels: (config.availableModels ?? []).filter(model => !presets.includes(model)) };
+}
+
+/**
+ * 用从服务商获取的模型列表更新配置，保留手动添加的模型；当前模型不在新列表中时改选第一个
+ */
+export function mergeFetchedModels(config: ProviderConfig, fetched: ModelInfo[]): ProviderConfig {
+  const customModels = config.customModels ?? [];
+  const availableModels = [...new Set([...fetched.map(m => m.id), ...customModels])];
+  return {
+    ...config,
+    availableModels,
+    customModels,
+    modelInfo: Object.fromEntries(fetched.map(m => [m.id, m])),
+    modelName: availableModels.includes(config.modelName) ? config.modelName : availableModels[0] ?? ''
+  };
+}
+
+export const LEGACY_PROVIDERS: Array<{ id: ProviderProtocol; name: string }> = [
+  { id: 'openai', name: 'OpenAI' },
+  { id: 'anthropic', name: 'Anthropic' },
+  { id: 'google', name: 'Google' }
+];
+
+/**
+ * 把最早按协议保存的 aiConfig_* 转换为服务商列表
+ * @param legacyConfigs 按协议 id 保存的配置 JSON
+ */
+export function providersFromLegacyConfigs(legacyConfigs: Partial<Record<ProviderProtocol, string>>): ProviderConfig[] {
+  return LEGACY_PROVIDERS.map(legacy => {
+    // Legacy ids double as instance ids so existing chats still resolve their provider
+    const config = createProviderConfig(legacy.id, legacy.name, legacy.id);
+    const legacyConfigStr = legacyConfigs[legacy.id];
+    if (legacyConfigStr) {
+      try {
+        Object.assign(config, JSON.parse(legacyConfigStr));
+      } catch (error) {
+        console.error(`解析 ${legacy.name} 的保存配置失败:`, error);
+      }
+    }
+    return config;
+  });
+}
+
+// 旧版在服务商配置中明文保存 API Key
+type LegacyProviderConfig = ProviderConfig & { apiKey?: string };
+
+/**
+ * 是否还有明文保存的 API Key 需要迁移到密钥库
+ */
+export function hasPlaintextKeys(configs: ProviderConfig[]): boolean {
+  return configs.some(config => 'apiKey' in config);
+}
+
+/**
+ * 把明文 API Key 移入密钥库（需要先解锁），并删除旧版 history.bin 和 localStorage 中的明文副本
+ * @returns 不再包含 Key 的服务商列表，由调用方写回设置
+ */
+export async function migratePlaintextKeys(configs: ProviderConfig[]): Promise<ProviderConfig[]> {
+  const migrated: ProviderConfig[] = [];
+  for (const { apiKey, ...config } of configs as LegacyProviderConfig[]) {
+    if (apiKey?.trim()) {
+      await KeyVault.setSecret(config.id, apiKey.trim());
+      config.hasApiKey = true;
+    }
+    migrated.push(config);
+  }
+
+  const history = await Store.load('history.bin');
+  for (const key of await history.keys()) {
+    if (key === 'providerConfigs' || key.startsWith('aiConfig_')) {
+      await history.delete(key);
+    }
+  }
+  await history.save();
+  Object.keys(localStorage)
+    .filter(key => key.startsWith('aiConfig_'))
+    .forEach(key => localStorage.removeItem(key));
+  return migrated;
+}
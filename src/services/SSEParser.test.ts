@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { SSEDecoder, readSSE } from './SSEParser';
+
+// A response whose body arrives in exactly these byte chunks
+const chunkedResponse = (chunks: Uint8Array[]) =>
+  new Response(new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(chunk));
+      controller.close();
+    }
+  }));
+
+const collect = async <T>(iterable: AsyncIterable<T>) => {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+};
+
+describe('SSEDecoder', () => {
+  it('keeps a line split across chunks until it is complete', () => {
+    const decoder = new SSEDecoder();
+    expect(decoder.push('data: {"a"')).toEqual([]);
+    expect(decoder.push(':1}\n')).toEqual([]);
+    expect(decoder.push('\n')).toEqual([{ event: 'message', data: '{"a":1}', id: undefined }]);
+  });
+
+  it('treats \\r\\n split between two reads as one line break', () => {
+    const decoder = new SSEDecoder();
+    expect(decoder.push('data: one\r')).toEqual([]);
+    expect(decoder.push('\n\r\n')).toEqual([{ event: 'message', data: 'one', id: undefined }]);
+  });
+
+  it('accepts lone \\r as a line break', () => {
+    const decoder = new SSEDecoder();
+    expect(decoder.push('data: one\r\rdata: two\r\r!')).toEqual([
+      { event: 'message', data: 'one', id: undefined },
+      { event: 'message', data: 'two', id: undefined }
+    ]);
+  });
+
+  it('joins multi-line data and keeps the event name and id', () => {
+    const decoder = new SSEDecoder();
+    expect(decoder.push('event: delta\nid: 7\ndata: first\ndata:second\n\n')).toEqual([
+      { event: 'delta', data: 'first\nsecond', id: '7' }
+    ]);
+  });
+
+  it('ignores comments and events without data', () => {
+    const decoder = new SSEDecoder();
+    expect(decoder.push(': keep-alive\n\nevent: ping\n\ndata: x\n\n')).toEqual([
+      { event: 'message', data: 'x', id: undefined }
+    ]);
+  });
+
+  it('dispatches the last event on flush when the stream ends without a blank line', () => {
+    const decoder = new SSEDecoder();
+    expect(decoder.push('data: last\r')).toEqual([]);
+    expect(decoder.flush()).toEqual([{ event: 'message', data: 'last', id: undefined }]);
+    expect(decoder.flush()).toEqual([]);
+  });
+});
+
+describe('readSSE', () => {
+  it('decodes characters split across reads and stops at [DONE]', async () => {
+    const bytes = new TextEncoder().encode('data: 你好\n\ndata: [DONE]\n\ndata: after\n\n');
+    // Split inside the three bytes of 你
+    const response = chunkedResponse([bytes.slice(0, 7), bytes.slice(7)]);
+    expect(await collect(readSSE(response))).toEqual([{ event: 'message', data: '你好', id: undefined }]);
+  });
+
+  it('throws once the signal is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const response = chunkedResponse([new TextEncoder().encode('data: x\n\n')]);
+    await expect(collect(readSSE(response, controller.signal))).rejects.toThrow();
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * 一条完整的 Server-Sent Event
+ */
+export interface SSEEvent {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * 增量 SSE 解码器：跨网络分块缓存未完成的行，空行时派发事件
+ * 支持 event/data/id 字段、多行 data 以及以冒号开头的注释行
+ */
+export class SSEDecoder {
+  private buffer = '';
+  private eventName = '';
+  private dataLines: string[] = [];
+  private lastEventId?: string;
+
+  /**
+   * 写入一段文本，返回其中已完整的事件
+   */
+  push(chunk: string): SSEEvent[] {
+    const events: SSEEvent[] = [];
+    const text = this.buffer + chunk;
+    let lineStart = 0;
+
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+      if (ch !== '\n' && ch !== '\r') continue;
+      // 末尾的 \r 可能是 \r\n 的前半段，留到下一块再处理
+      if (ch === '\r' && i === text.length - 1) break;
+
+      this.processLine(text.slice(lineStart, i), events);
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      lineStart = i + 1;
+    }
+
+    this.buffer = text.slice(lineStart);
+    return events;
+  }
+
+  /**
+   * 流结束时调用，处理没有以空行结尾的最后一个事件
+   */
+  flush(): SSEEvent[] {
+    const events: SSEEvent[] = [];
+    if (this.buffer !== '') {
+      this.processLine(this.buffer.replace(/\r$/, ''), events);
+      this.buffer = '';
+    }
+    this.dispatch(events);
+    return events;
+  }
+
+  private processLine(line: string, events: SSEEvent[]) {
+    if (line === '') {
+      this.dispatch(events);
+      return;
+    }
+    if (line.startsWith(':')) return;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        this.eventName = value;
+        break;
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'id':
+        this.lastEventId = value;
+        break;
+    }
+  }
+
+  private dispatch(events: SSEEvent[]) {
+    if (this.dataLines.length > 0) {
+      events.push({
+        event: this.eventName || 'message',
+        data: this.dataLines.join('\n'),
+        id: this.lastEventId
+      });
+    }
+    this.eventName = '';
+    this.dataLines = [];
+  }
+}
+
+/**
+ * 逐个读取响应体中的 SSE 事件，遇到 OpenAI 风格的 [DONE] 时结束
+ * 传入 signal 时，取消后会在下一次读取前抛出 AbortError
+ */
+export async function* readSSE(response: Response, signal?: AbortSignal): AsyncGenerator<SSEEvent> {
+  const reader = response.body?.getReader();
+  if (!reader) return;
+
+  const textDecoder = new TextDecoder();
+  const sseDecoder = new SSEDecoder();
+  try {
+    while (true) {
+      signal?.throwIfAborted();
+      const { done, value } = await reader.read();
+      const events = done
+        ? [...sseDecoder.push(textDecoder.decode()), ...sseDecoder.flush()]
+        : sseDecoder.push(textDecoder.decode(value, { stream: true }));
+
+      for (const event of events) {
+        if (event.data === '[DONE]') return;
+        yield event;
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
@@ -0,0 +1,91 @@
+import { invoke } from '@tauri-apps/api/core';
+import { describe, expect, it, vi } from 'vitest';
+import { SearchDoc, SearchService, buildSnippet, matchExpression, matchesAll, parseQuery, tokenize } from './SearchService';
+
+vi.mock('@tauri-apps/api/core', () => ({ invoke: vi.fn() }));
+
+describe('tokenize', () => {
+  it('splits latin text into lowercase words', () => {
+    expect(tokenize('Tauri streaming_api, v2!')).toEqual(['tauri', 'streaming_api', 'v2']);
+  });
+
+  it('splits CJK runs into pairs and keeps the last character', () => {
+    expect(tokenize('你好世界')).toEqual(['你好', '好世', '世界', '界']);
+    expect(tokenize('好')).toEqual(['好']);
+  });
+});
+
+describe('matchExpression', () => {
+  it('matches CJK pairs exactly and everything else by prefix', () => {
+    expect(matchExpression(parseQuery('Stream 世界').needles)).toBe('"stream"* "世界" "界"*');
+  });
+
+  it('splits phrases into their tokens', () => {
+    expect(matchExpression(parseQuery('"context window"').needles)).toBe('"context"* "window"*');
+  });
+
+  it('returns null when nothing can be looked up', () => {
+    expect(matchExpression(parseQuery('  !! ').needles)).toBeNull();
+  });
+});
+
+describe('matchesAll', () => {
+  it('matches latin words from their start like the index does', () => {
+    expect(matchesAll('Streaming replies', ['stream'])).toBe(true);
+    expect(matchesAll('Written in TypeScript', ['script'])).toBe(false);
+    expect(matchesAll('用script写的', ['script'])).toBe(true);
+  });
+
+  it('matches CJK text anywhere', () => {
+    expect(matchesAll('你好世界', ['世界'])).toBe(true);
+    expect(matchesAll('你好世界', ['界'])).toBe(true);
+  });
+});
+
+describe('buildSnippet', () => {
+  it('does not highlight inside a word', () => {
+    expect(buildSnippet('TypeScript script', ['script'])).toEqual([
+      { text: 'TypeScript ', highlight: false },
+      { text: 'script', highlight: true }
+    ]);
+  });
+
+  it('highlights every match', () => {
+    expect(buildSnippet('Streams and streaming', ['stream'])).toEqual([
+      { text: 'Stream', highlight: true },
+      { text: 's and ', highlight: false },
+      { text: 'stream', highlight: true },
+      { text: 'ing', highlight: false }
+    ]);
+  });
+});
+
+describe('SearchService.search', () => {
+  const doc = (index: number, content: string): SearchDoc => ({
+    chatId: 'chat',
+    messageId: `m${index}`,
+    kind: 'chat',
+    role: 'user',
+    content,
+    timestamp: 1000 - index
+  });
+
+  it('keeps reading candidates until enough of them contain the phrase', async () => {
+    // The newest 250 candidates have both words but not the phrase
+    const candidates = [
+      ...Array.from({ length: 250 }, (_, i) => doc(i, 'the context of a window')),
+      ...Array.from({ length: 3 }, (_, i) => doc(250 + i, 'a bigger context window'))
+    ];
+    const offsets: number[] = [];
+    vi.mocked(invoke).mockImplementation(async (command, args: any) => {
+      if (command === 'db_get_setting') return 'true';
+      offsets.push(args.offset);
+      return candidates.slice(args.offset, args.offset + args.limit);
+    });
+
+    const results = await SearchService.search('"context window"', {}, 2);
+
+    expect(results.map(result => result.doc.messageId)).toEqual(['m250', 'm251']);
+    expect(offsets).toEqual([0, 200]);
+  });
+});
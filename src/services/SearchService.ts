@@ -0,0 +1,284 @@
+import { invoke } from '@tauri-apps/api/core';
+import { ChatRecord, HistoryItem } from './ChatRecord';
+import { Comparison } from './Comparison';
+import { ChatDatabase, settingsStore } from './Database';
+
+/**
+ * 被索引的一条消息；对比记录的提问和每一列各算一条
+ */
+export interface SearchDoc {
+  chatId: string;
+  messageId: string;
+  kind: 'chat' | 'compare';
+  role: 'user' | 'assistant';
+  content: string;
+  providerId?: string;
+  model?: string;
+  // 旧消息没有记录时间
+  timestamp?: number;
+}
+
+export interface SearchFilters {
+  providerId?: string;
+  model?: string;
+  // 毫秒时间戳，包含边界
+  from?: number;
+  to?: number;
+}
+
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchResult {
+  doc: SearchDoc;
+  snippet: SnippetPart[];
+}
+
+/**
+ * 解析后的查询：引号内为短语，其余按空白拆成词，所有条件都需命中
+ */
+export interface ParsedQuery {
+  needles: string[];
+}
+
+export function parseQuery(query: string): ParsedQuery {
+  const needles: string[] = [];
+  const rest = query.replace(/"([^"]*)"/g, (_, phrase: string) => {
+    if (phrase.trim()) needles.push(phrase.trim().toLowerCase());
+    return ' ';
+  });
+  for (const term of rest.split(/\s+/)) {
+    if (term) needles.push(term.toLowerCase());
+  }
+  return { needles };
+}
+
+const CJK = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+const TOKEN_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+|[\p{L}\p{N}_]+/gu;
+
+/**
+ * 拆分索引词：拉丁文按单词，中日韩文字按相邻两字，并保留每段的最后一个字，
+ * 这样每个字都是某个索引词的开头，单字查询可以按前缀找到
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const [run] of text.toLowerCase().matchAll(TOKEN_PATTERN)) {
+    if (CJK.test(run[0])) {
+      for (let i = 0; i < run.length - 1; i++) {
+        tokens.push(run.slice(i, i + 2));
+      }
+      tokens.push(run[run.length - 1]);
+    } else {
+      tokens.push(run);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * 把查询转成 FTS5 表达式，所有词都需命中：两个字的中日韩词精确匹配，其余按前缀匹配
+ * （如 stream 可以找到 streaming）；没有可用的词时返回 null
+ */
+export function matchExpression(needles: string[]): string | null {
+  const tokens = [...new Set(needles.flatMap(tokenize))];
+  if (tokens.length === 0) return null;
+  return tokens.map(token => (CJK.test(token[0]) && token.length === 2 ? `"${token}"` : `"${token}"*`)).join(' ');
+}
+
+const WORD_CHAR = /[\p{L}\p{N}_]/u;
+
+// 命中必须从索引词的开头开始：中日韩文字可以从任意位置开始，其余从单词开头开始
+const isTokenStart = (text: string, index: number) =>
+  index === 0 || CJK.test(text[index]) || CJK.test(text[index - 1]) || !WORD_CHAR.test(text[index - 1]);
+
+/**
+ * 词或短语在文本（已转为小写）中所有命中的位置，与索引的前缀匹配一致：
+ * 只算从单词开头开始的命中，如 stream 命中 streaming，script 不命中 typescript
+ */
+export function matchPositions(lower: string, needle: string, from = 0, to = lower.length): number[] {
+  const positions: number[] = [];
+  for (let i = lower.indexOf(needle, from); i !== -1 && i < to; i = lower.indexOf(needle, i + 1)) {
+    if (isTokenStart(lower, i)) positions.push(i);
+  }
+  return positions;
+}
+
+/**
+ * 文本是否命中所有的词和短语
+ */
+export function matchesAll(content: string, needles: string[]): boolean {
+  const lower = content.toLowerCase();
+  return needles.every(needle => matchPositions(lower, needle).length > 0);
+}
+
+const SNIPPET_CONTEXT = 40;
+
+/**
+ * 截取第一处命中前后的文字，并标出其中所有命中的位置
+ */
+export function buildSnippet(content: string, needles: string[]): SnippetPart[] {
+  const lower = content.toLowerCase();
+  const first = Math.min(...needles.map(n => matchPositions(lower, n)[0] ?? -1).filter(i => i !== -1));
+  const start = Number.isFinite(first) ? Math.max(0, first - SNIPPET_CONTEXT) : 0;
+  const end = Math.min(content.length, (Number.isFinite(first) ? first : 0) + SNIPPET_CONTEXT * 3);
+
+  // 标记命中的字符，重叠的命中合并成一段
+  const marked = new Array(end - start).fill(false);
+  for (const needle of needles) {
+    for (const i of matchPositions(lower, needle, start, end)) {
+      for (let j = i; j < Math.min(i + needle.length, end); j++) marked[j - start] = true;
+    }
+  }
+
+  const parts: SnippetPart[] = [];
+  if (start > 0) parts.push({ text: '…', highlight: false });
+  for (let i = 0; i < marked.length; i++) {
+    const text = content[start + i];
+    const last = parts[parts.length - 1];
+    if (last && last.highlight === marked[i]) {
+      last.text += text;
+    } else {
+      parts.push({ text, highlight: marked[i] });
+    }
+  }
+  if (end < content.length) parts.push({ text: '…', highlight: false });
+  return parts;
+}
+
+/**
+ * 从保存的对话中提取需要索引的消息
+ */
+export function chatDocuments(chatId: string, chat: ChatRecord): SearchDoc[] {
+  return Object.values(chat.tree.nodes)
+    .filter(message => message.content)
+    .map(message => ({
+      chatId,
+      messageId: message.id,
+      kind: 'chat',
+      role: message.role,
+      content: message.content,
+      providerId: chat.selectedProviderId,
+      model: chat.selectedModel,
+      timestamp: message.createdAt
+    }));
+}
+
+export function comparisonDocuments(chatId: string, comparison: Comparison): SearchDoc[] {
+  return [
+    { chatId, messageId: 'prompt', kind: 'compare' as const, role: 'user' as const, content: comparison.prompt, timestamp: comparison.createdAt },
+    ...comparison.columns.filter(column => column.content).map(column => ({
+      chatId,
+      messageId: column.id,
+      kind: 'compare' as const,
+      role: 'assistant' as const,
+      content: column.content,
+      providerId: column.providerId,
+      model: column.model,
+      timestamp: comparison.createdAt
+    }))
+  ];
+}
+
+// 每次从索引读取的候选数，在原文中确认命中不足 limit 条时继续读取下一批
+const CANDIDATE_PAGE_SIZE = 200;
+
+// 首次使用搜索时为数据库中已有的对话建立索引，之后随对话保存更新
+const INDEX_BUILT_KEY = 'searchIndexBuilt';
+
+async function loadDocuments(item: HistoryItem): Promise<SearchDoc[]> {
+  if (item.kind === 'compare') {
+    const comparison = await ChatDatabase.loadComparison(item.id);
+    return comparison ? comparisonDocuments(item.id, comparison) : [];
+  }
+  const chat = await ChatDatabase.loadChat(item.id);
+  return chat ? chatDocuments(item.id, chat) : [];
+}
+
+// 数据库中的空值为 null，转成可选字段
+const normalizeDoc = (doc: SearchDoc): SearchDoc => ({
+  chatId: doc.chatId,
+  messageId: doc.messageId,
+  kind: doc.kind,
+  role: doc.role,
+  content: doc.content,
+  ...(doc.providerId ? { providerId: doc.providerId } : {}),
+  ...(doc.model ? { model: doc.model } : {}),
+  ...(doc.timestamp != null ? { timestamp: doc.timestamp } : {})
+});
+
+let buildPromise: Promise<void> | null = null;
+
+/**
+ * 全部对话的全文搜索，索引保存在数据库的 search_docs / search_fts 表中
+ */
+export class SearchService {
+  /**
+   * 确保已有对话都已建立索引：只在第一次执行，之后启动时直接使用数据库中的索引
+   */
+  static ensureIndex(): Promise<void> {
+    buildPromise ??= (async () => {
+      if (await settingsStore.get(INDEX_BUILT_KEY)) return;
+      const items = [...await ChatDatabase.listChats(), ...await ChatDatabase.listTrash()];
+      for (const item of items) {
+        try {
+          await SearchService.updateChat(item.id, await loadDocuments(item));
+        } catch (error) {
+          console.error('建立搜索索引失败:', item.id, error);
+        }
+      }
+      await settingsStore.set(INDEX_BUILT_KEY, 'true');
+    })();
+    buildPromise.catch(() => {
+      buildPromise = null;
+    });
+    return buildPromise;
+  }
+
+  /**
+   * 对话保存后调用，用对话的全部消息替换索引中的内容
+   */
+  static async updateChat(chatId: string, docs: SearchDoc[]): Promise<void> {
+    await invoke('db_index_chat', {
+      chatId,
+      docs: docs.map(doc => ({ ...doc, tokens: [...new Set(tokenize(doc.content))].join(' ') }))
+    });
+  }
+
+  /**
+   * 先用索引按前缀找出候选，再逐条确认原文包含每个词或短语，候选不够时分批继续读取；
+   * 结果按时间从新到旧排列。回收站中的对话不参与搜索
+   */
+  static async search(query: string, filters: SearchFilters = {}, limit = 100): Promise<SearchResult[]> {
+    const { needles } = parseQuery(query);
+    const expression = matchExpression(needles);
+    if (!expression) return [];
+
+    await SearchService.ensureIndex();
+    const results: SearchResult[] = [];
+    for (let offset = 0; results.length < limit; offset += CANDIDATE_PAGE_SIZE) {
+      const docs = await invoke<SearchDoc[]>('db_search', {
+        query: expression,
+        filters: { providerId: filters.providerId ?? null, model: filters.model ?? null, from: filters.from ?? null, to: filters.to ?? null },
+        limit: CANDIDATE_PAGE_SIZE,
+        offset
+      });
+      for (const doc of docs) {
+        if (results.length < limit && matchesAll(doc.content, needles)) {
+          results.push({ doc: normalizeDoc(doc), snippet: buildSnippet(doc.content, needles) });
+        }
+      }
+      if (docs.length < CANDIDATE_PAGE_SIZE) break;
+    }
+    return results;
+  }
+
+  /**
+   * 所有出现过的模型，用于筛选
+   */
+  static async models(): Promise<string[]> {
+    await SearchService.ensureIndex();
+    return invoke<string[]>('db_search_models');
+  }
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { ModelInfo } from './AIService';
+import { mergeFetchedModels } from './ProviderConfig';
+import { migrateSettings, validateSettings } from './Settings';
+
+const fetched: ModelInfo[] = [
+  { id: 'gpt-4o', displayName: 'GPT-4o', capabilities: ['chat'] },
+  { id: 'gpt-4.1-mini', displayName: 'GPT-4.1 mini', capabilities: ['chat'] }
+];
+
+describe('legacy provider configs', () => {
+  // Saved before hand-added models were tracked: presets plus one model the user typed in
+  const legacy = {
+    aiConfig_openai: JSON.stringify({
+      baseUrl: 'https://api.openai.com/v1',
+      modelName: 'my-finetune',
+      availableModels: ['gpt-3.5-turbo', 'gpt-4', 'gpt-4-turbo', 'my-finetune']
+    })
+  };
+
+  it('records models that are not presets as hand-added', () => {
+    const openai = validateSettings(migrateSettings(legacy)).providers.find(p => p.id === 'openai');
+    expect(openai?.customModels).toEqual(['my-finetune']);
+  });
+
+  it('keeps hand-added models through the first fetch', () => {
+    const openai = validateSettings(migrateSettings(legacy)).providers.find(p => p.id === 'openai')!;
+    const refreshed = mergeFetchedModels(openai, fetched);
+    expect(refreshed.availableModels).toEqual(['gpt-4o', 'gpt-4.1-mini', 'my-finetune']);
+    expect(refreshed.modelName).toBe('my-finetune');
+  });
+
+  it('leaves configs that already track hand-added models alone', () => {
+    const saved = {
+      version: 3,
+      providers: [{ id: 'p1', protocol: 'openai', availableModels: ['gpt-4o', 'gpt-4'], customModels: [] }]
+    };
+    expect(migrateSettings(saved).providers[0].customModels).toEqual([]);
+  });
+});
@@ -0,0 +1,271 @@
+import { useSyncExternalStore } from 'react';
+import { AIConfig, DEFAULT_AI_CONFIG } from './AIService';
+import { Assistant, BUILTIN_ASSISTANTS } from './Assistant';
+import { settingsStore } from './Database';
+import { McpServerConfig } from './McpService';
+import { ChatFolder } from './ChatRecord';
+import { BUILTIN_TEMPLATES, PromptTemplate } from './PromptTemplate';
+import { LEGACY_PROVIDERS, ProviderConfig, ProviderProtocol, providersFromLegacyConfigs, withLegacyCustomModels } from './ProviderConfig';
+import { DEFAULT_BUDGET, DEFAULT_PRICES, ModelPrice, PriceTable, UsageBudget, UsageService } from './UsageService';
+
+/**
+ * 当前的设置版本；修改 AppSettings 的结构时加一，并在 MIGRATIONS 末尾追加对应的迁移
+ */
+export const SETTINGS_VERSION = 4;
+
+export type Theme = 'dark' | 'light';
+export type Language = 'zh' | 'en';
+
+/**
+ * 生成对话标题所用的模型，不设置时在对话的服务商中选一个小模型，见 pickTitleModel
+ */
+export interface TitleModel {
+  providerId: string;
+  model: string;
+}
+
+/**
+ * 应用的全部设置，作为一个带版本号的 JSON 保存在数据库 settings 表的 settings 项中
+ */
+export interface AppSettings {
+  version: number;
+  theme: Theme;
+  language: Language;
+  // 对话的默认模型参数；对话中单独调整过的参数保存在对话里，其余随这里变化
+  chatDefaults: AIConfig;
+  providers: ProviderConfig[];
+  mcpServers: McpServerConfig[];
+  assistants: Assistant[];
+  promptTemplates: PromptTemplate[];
+  // 侧边栏中的文件夹，对话通过 folderId 归入
+  folders: ChatFolder[];
+  // 第一轮问答后用模型生成简短标题
+  autoTitle: boolean;
+  titleModel: TitleModel | null;
+  // 计算用量花费的模型单价，键按前缀匹配模型名
+  prices: PriceTable;
+  budget: UsageBudget;
+}
+
+export type SettingsPatch = Partial<Omit<AppSettings, 'version'>>;
+
+const SETTINGS_KEY = 'settings';
+
+// 版本 0：统一之前分散保存在 settings 表中的各项
+const LEGACY_STORE_KEYS = ['providerConfigs', 'mcpServers', 'assistants', 'promptTemplates', ...LEGACY_PROVIDERS.map(p => `aiConfig_${p.id}`)];
+
+// 版本 0 中保存在 localStorage 的主题设置
+const LEGACY_THEME_KEY = 'themeConfig';
+
+// 版本 3 之前价格表和预算保存在 usage.bin 中，迁移时放在这一项里传给 MIGRATIONS[2]
+const LEGACY_USAGE_KEY = 'legacyUsage';
+const USAGE_SETTINGS_VERSION = 3;
+
+export function defaultSettings(): AppSettings {
+  return {
+    version: SETTINGS_VERSION,
+    theme: 'dark',
+    language: 'zh',
+    chatDefaults: { ...DEFAULT_AI_CONFIG },
+    providers: providersFromLegacyConfigs({}),
+    mcpServers: [],
+    assistants: BUILTIN_ASSISTANTS.map(assistant => ({ ...assistant })),
+    promptTemplates: BUILTIN_TEMPLATES.map(template => ({ ...template })),
+    folders: [],
+    autoTitle: true,
+    titleModel: null,
+    prices: { ...DEFAULT_PRICES },
+    budget: { ...DEFAULT_BUDGET, providerLimits: {} }
+  };
+}
+
+const parseJson = (raw: unknown) => {
+  if (typeof raw !== 'string') return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * 按版本顺序执行的迁移，MIGRATIONS[n] 把版本 n 的数据升级到版本 n + 1
+ */
+const MIGRATIONS: Array<(data: any) => any> = [
+  // 0 → 1：合并分散的各项；服务商列表不存在时由最早的 aiConfig_* 生成
+  legacy => {
+    const theme = parseJson(legacy[LEGACY_THEME_KEY]);
+    const legacyConfigs: Partial<Record<ProviderProtocol, string>> = {};
+    for (const { id } of LEGACY_PROVIDERS) {
+      legacyConfigs[id] = legacy[`aiConfig_${id}`];
+    }
+    return {
+      theme: theme?.theme,
+      language: theme?.language,
+      providers: parseJson(legacy.providerConfigs) ?? providersFromLegacyConfigs(legacyConfigs),
+      mcpServers: parseJson(legacy.mcpServers),
+      assistants: parseJson(legacy.assistants),
+      promptTemplates: parseJson(legacy.promptTemplates),
+      [LEGACY_USAGE_KEY]: legacy[LEGACY_USAGE_KEY]
+    };
+  },
+  // 1 → 2：新增文件夹和自动标题，取默认值
+  data => ({ ...data, folders: [], autoTitle: true, titleModel: null }),
+  // 2 → 3：价格表和预算从 usage.bin 移入设置
+  ({ [LEGACY_USAGE_KEY]: legacyUsage, ...data }) => ({
+    ...data,
+    prices: parseJson(legacyUsage?.prices),
+    budget: parseJson(legacyUsage?.budget)
+  }),
+  // 3 → 4：记录手动添加的模型，获取模型列表时不再丢失
+  data => ({
+    ...data,
+    providers: Array.isArray(data.providers) ? data.providers.map((config: any) => (config && typeof config === 'object' ? withLegacyCustomModels(config) : config)) : data.providers
+  })
+];
+
+export function migrateSettings(data: any): any {
+  let version = typeof data?.version === 'number' ? data.version : 0;
+  while (version < SETTINGS_VERSION) {
+    data = MIGRATIONS[version](data);
+    version++;
+  }
+  return data;
+}
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+/**
+ * 校验模型参数，缺失或超出范围的值取默认值或边界值
+ */
+export function validateAiConfig(raw: any, fallback: AIConfig = DEFAULT_AI_CONFIG): AIConfig {
+  return {
+    temperature: clamp(raw?.temperature, 0, 2, fallback.temperature),
+    max_tokens: Math.round(clamp(raw?.max_tokens, 1, 1_000_000, fallback.max_tokens)),
+    top_p: clamp(raw?.top_p, 0, 1, fallback.top_p),
+    frequency_penalty: clamp(raw?.frequency_penalty, -2, 2, fallback.frequency_penalty),
+    presence_penalty: clamp(raw?.presence_penalty, -2, 2, fallback.presence_penalty),
+    candidate_count: Math.round(clamp(raw?.candidate_count, 1, 4, fallback.candidate_count))
+  };
+}
+
+const isPrice = (value: any): value is ModelPrice =>
+  typeof value?.input === 'number' && value.input >= 0 && typeof value?.output === 'number' && value.output >= 0;
+
+// 限额必须为正数，否则视为未设置
+const validLimit = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : undefined);
+
+function validateBudget(raw: any): UsageBudget {
+  const monthlyLimit = validLimit(raw?.monthlyLimit);
+  const providerLimits: Record<string, number> = {};
+  for (const [providerId, limit] of Object.entries(raw?.providerLimits ?? {})) {
+    const valid = validLimit(limit);
+    if (valid) providerLimits[providerId] = valid;
+  }
+  return {
+    ...(monthlyLimit ? { monthlyLimit } : {}),
+    providerLimits,
+    warnRatio: clamp(raw?.warnRatio, 0.01, 1, DEFAULT_BUDGET.warnRatio)
+  };
+}
+
+// 列表项至少要有字符串 id；整个列表缺失时取默认值
+const listOf = <T>(value: unknown, fallback: T[]): T[] =>
+  Array.isArray(value) ? value.filter(item => typeof item?.id === 'string') : fallback;
+
+/**
+ * 校验已迁移到当前版本的设置，无效的字段取默认值
+ */
+export function validateSettings(data: any): AppSettings {
+  const defaults = defaultSettings();
+  return {
+    version: SETTINGS_VERSION,
+    theme: data?.theme === 'light' || data?.theme === 'dark' ? data.theme : defaults.theme,
+    language: data?.language === 'en' || data?.language === 'zh' ? data.language : defaults.language,
+    chatDefaults: validateAiConfig(data?.chatDefaults),
+    providers: listOf(data?.providers, defaults.providers),
+    mcpServers: listOf(data?.mcpServers, defaults.mcpServers),
+    assistants: listOf(data?.assistants, defaults.assistants),
+    promptTemplates: listOf(data?.promptTemplates, defaults.promptTemplates),
+    folders: listOf<ChatFolder>(data?.folders, defaults.folders).filter(folder => typeof folder.name === 'string'),
+    autoTitle: typeof data?.autoTitle === 'boolean' ? data.autoTitle : defaults.autoTitle,
+    titleModel: typeof data?.titleModel?.providerId === 'string' && typeof data?.titleModel?.model === 'string'
+      ? { providerId: data.titleModel.providerId, model: data.titleModel.model }
+      : null,
+    prices: data?.prices && typeof data.prices === 'object'
+      ? Object.fromEntries(Object.entries(data.prices).filter(([, price]) => isPrice(price))) as PriceTable
+      : defaults.prices,
+    budget: validateBudget(data?.budget)
+  };
+}
+
+let current: AppSettings = defaultSettings();
+const listeners = new Set<() => void>();
+// 写入按调用顺序依次进行
+let pendingWrite: Promise<void> = Promise.resolve();
+
+function persist(settings: AppSettings): Promise<void> {
+  pendingWrite = pendingWrite
+    .then(() => settingsStore.set(SETTINGS_KEY, JSON.stringify(settings)))
+    .catch(error => console.error('保存设置失败:', error));
+  return pendingWrite;
+}
+
+/**
+ * 全部设置的唯一读写入口；修改会立即通知所有订阅者
+ */
+export class Settings {
+  /**
+   * 启动时调用一次：读取、迁移并校验设置；迁移后删除旧的分散保存项和 usage.bin 中的价格表、预算
+   */
+  static async load(): Promise<AppSettings> {
+    const saved = parseJson(await settingsStore.get(SETTINGS_KEY));
+    const version = typeof saved?.version === 'number' ? saved.version : 0;
+    const legacyUsage = version < USAGE_SETTINGS_VERSION ? await UsageService.loadLegacySettings() : undefined;
+
+    if (saved) {
+      current = validateSettings(migrateSettings({ ...saved, [LEGACY_USAGE_KEY]: legacyUsage }));
+      if (saved.version !== SETTINGS_VERSION) await persist(current);
+    } else {
+      const legacy: Record<string, unknown> = {
+        [LEGACY_THEME_KEY]: localStorage.getItem(LEGACY_THEME_KEY) ?? undefined,
+        [LEGACY_USAGE_KEY]: legacyUsage
+      };
+      for (const key of LEGACY_STORE_KEYS) {
+        legacy[key] = await settingsStore.get(key);
+      }
+      current = validateSettings(migrateSettings(legacy));
+      await persist(current);
+      for (const key of LEGACY_STORE_KEYS) {
+        await settingsStore.delete(key);
+      }
+      localStorage.removeItem(LEGACY_THEME_KEY);
+    }
+
+    if (legacyUsage) await UsageService.deleteLegacySettings();
+    return current;
+  }
+
+  static get(): AppSettings {
+    return current;
+  }
+
+  static update(patch: SettingsPatch): Promise<void> {
+    current = validateSettings({ ...current, ...patch });
+    listeners.forEach(listener => listener());
+    return persist(current);
+  }
+
+  static subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  }
+}
+
+/**
+ * 在组件中读取设置，设置变化时重新渲染
+ */
+export function useSettings(): AppSettings {
+  return useSyncExternalStore(Settings.subscribe, Settings.get);
+}
@@ -0,0 +1,207 @@
+import { invoke } from '@tauri-apps/api/core';
+import { Store } from '@tauri-apps/plugin-store';
+import { v4 as uuidv4 } from 'uuid';
+
+// 旧版把用量记录、价格表和预算保存在 usage.bin；记录已移入数据库，价格表和预算属于设置，见 AppSettings
+const LEGACY_USAGE_STORE = 'usage.bin';
+
+/**
+ * 一次模型调用的用量，cost 按记录时的价格计算（美元）
+ */
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  providerId: string;
+  providerName: string;
+  model: string;
+  chatId?: string;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  // 服务商没有返回用量时按字符数估算
+  estimated?: boolean;
+}
+
+/**
+ * 模型单价，单位为美元 / 百万 token
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+/**
+ * 常见模型的公开定价，键按前缀匹配模型名
+ */
+export const DEFAULT_PRICES: PriceTable = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'o1': { input: 15, output: 60 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 }
+};
+
+/**
+ * 每月预算（美元），未设置的项不做检查
+ */
+export interface UsageBudget {
+  monthlyLimit?: number;
+  providerLimits: Record<string, number>;
+  // 花费达到预算的该比例时开始提醒
+  warnRatio: number;
+}
+
+export const DEFAULT_BUDGET: UsageBudget = {
+  providerLimits: {},
+  warnRatio: 0.8
+};
+
+/**
+ * 查找模型价格：先精确匹配，再取最长的前缀匹配（如 gpt-4o-2024-08-06 → gpt-4o）
+ */
+export function findPrice(prices: PriceTable, model: string): ModelPrice | undefined {
+  if (prices[model]) return prices[model];
+  const key = Object.keys(prices)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? prices[key] : undefined;
+}
+
+export function computeCost(price: ModelPrice | undefined, inputTokens: number, outputTokens: number): number {
+  if (!price) return 0;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+export function formatCost(cost: number): string {
+  return `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
+
+export function startOfMonth(date = new Date()): number {
+  return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+}
+
+export type UsageGroupBy = 'day' | 'provider' | 'model' | 'chat';
+
+/**
+ * 按某个维度汇总后的一行
+ */
+export interface UsageSummary {
+  key: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  // 其中按字符数估算的请求数
+  estimatedRequests: number;
+}
+
+// 旧版 usage.bin 中的记录在首次使用时导入数据库，之后的读写都等它完成
+let legacyRecordsImport: Promise<void> | null = null;
+
+function importLegacyRecords(): Promise<void> {
+  legacyRecordsImport ??= (async () => {
+    const store = await Store.load(LEGACY_USAGE_STORE);
+    const raw = await store.get<string>('records');
+    if (!raw) return;
+    await invoke('db_record_usage', { records: JSON.parse(raw) });
+    await store.delete('records');
+    await store.save();
+  })().catch(error => console.error('导入旧版用量记录失败:', error));
+  return legacyRecordsImport;
+}
+
+/**
+ * 用量记录的读写和预算检查；价格表和预算由调用方从设置中传入
+ */
+export class UsageService {
+  /**
+   * 按某个维度汇总 since 之后的用量；按天时从新到旧排列，其余按花费从高到低排列
+   */
+  static async summarize(groupBy: UsageGroupBy, since: number): Promise<UsageSummary[]> {
+    await importLegacyRecords();
+    return invoke<UsageSummary[]>('db_usage_summary', { groupBy, since });
+  }
+
+  /**
+   * 追加一条用量记录，按当前价格表计算花费
+   */
+  static async record(entry: Omit<UsageRecord, 'id' | 'timestamp' | 'cost'>, prices: PriceTable): Promise<UsageRecord> {
+    await importLegacyRecords();
+    const record: UsageRecord = {
+      ...entry,
+      id: uuidv4(),
+      timestamp: Date.now(),
+      cost: computeCost(findPrice(prices, entry.model), entry.inputTokens, entry.outputTokens)
+    };
+    await invoke('db_record_usage', { records: [record] });
+    return record;
+  }
+
+  static async clearRecords(): Promise<void> {
+    await importLegacyRecords();
+    await invoke('db_clear_usage');
+  }
+
+  /**
+   * 旧版保存在 usage.bin 中的价格表和预算（JSON 字符串），设置迁移到版本 3 时读取
+   */
+  static async loadLegacySettings(): Promise<{ prices?: string; budget?: string }> {
+    const store = await Store.load(LEGACY_USAGE_STORE);
+    const prices = await store.get<string>('prices');
+    const budget = await store.get<string>('budget');
+    return { prices, budget };
+  }
+
+  /**
+   * 迁移后的设置保存成功后删除旧的价格表和预算
+   */
+  static async deleteLegacySettings(): Promise<void> {
+    const store = await Store.load(LEGACY_USAGE_STORE);
+    await store.delete('prices');
+    await store.delete('budget');
+    await store.save();
+  }
+
+  /**
+   * 发送前检查本月花费，接近或超出预算时返回提示文本
+   */
+  static async checkBudget(providerId: string, providerName: string, budget: UsageBudget): Promise<string | null> {
+    await importLegacyRecords();
+    const since = startOfMonth();
+
+    const checks: Array<[string, number | undefined, string | null]> = [
+      ['本月总花费', budget.monthlyLimit, null],
+      [`本月 ${providerName} 花费`, budget.providerLimits[providerId], providerId]
+    ];
+    for (const [label, limit, provider] of checks) {
+      if (!limit) continue;
+      const spent = await invoke<number>('db_usage_cost', { since, providerId: provider });
+      if (spent >= limit * budget.warnRatio) {
+        const state = spent >= limit
+          ? `已超出预算 ${formatCost(limit)}`
+          : `已达到预算 ${formatCost(limit)} 的 ${Math.floor(spent / limit * 100)}%`;
+        return `${label} ${formatCost(spent)}，${state}。仍要发送吗？`;
+      }
+    }
+    return null;
+  }
+}